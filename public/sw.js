@@ -0,0 +1,195 @@
+// Keeps the app shell available offline and, where the browser allows periodic
+// background sync, runs connectivity checks while the app is closed. The app
+// merges those checks into its history the next time it opens.
+//
+// Plain JavaScript copied from public/ as is, so it can't share the app's code;
+// PwaService sends it the endpoints to probe.
+
+const SHELL_CACHE = 'am-i-online-shell';
+const DATA_CACHE = 'am-i-online-background';
+const SYNC_TAG = 'connectivity-check';
+// Queued background checks beyond this are dropped, oldest first
+const MAX_QUEUED_CHECKS = 1000;
+
+const shellUrl = () => new URL('./', self.registration.scope).href;
+const configUrl = () => new URL('background/config.json', self.registration.scope).href;
+const queueUrl = () => new URL('background/checks.json', self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    fetch(shellUrl(), { cache: 'no-store' })
+      .then(response => response.text())
+      .then(html => cacheShell(html))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', event => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(event));
+    return;
+  }
+  // Only files the page loads itself come from the cache. fetch() and XHR
+  // requests have no destination, so a same-origin probe never gets a cached answer.
+  if (request.destination && !url.search) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === SYNC_TAG) event.waitUntil(backgroundCheck());
+});
+
+self.addEventListener('message', event => {
+  const message = event.data;
+  switch (message?.type) {
+    case 'config':
+      event.waitUntil(writeJson(configUrl(), message.config));
+      break;
+    case 'cache':
+      event.waitUntil(cacheUrls(message.urls));
+      break;
+    case 'drain':
+      event.waitUntil(drain(event.ports[0]));
+      break;
+  }
+});
+
+// index.html and the scripts, styles and icons it references. Lazy loaded
+// chunks are added as the app loads them.
+async function cacheShell(html) {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.put(shellUrl(), new Response(html, { headers: { 'Content-Type': 'text/html' } }));
+  const assets = [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(match => new URL(match[1], self.registration.scope))
+    .filter(url => url.origin === self.location.origin && url.href !== shellUrl());
+  await cacheUrls(assets.map(url => url.href));
+}
+
+async function cacheUrls(urls) {
+  const cache = await caches.open(SHELL_CACHE);
+  await Promise.allSettled(urls
+    .filter(url => new URL(url).origin === self.location.origin)
+    .map(async url => {
+      if (!(await cache.match(url))) await cache.add(url);
+    }));
+}
+
+// Every route is served by index.html; offline, the cached copy opens the
+// dashboard and the history stored in IndexedDB
+async function networkFirstShell(event) {
+  try {
+    const response = await fetch(event.request);
+    if (response.ok && response.headers.get('Content-Type')?.includes('text/html')) {
+      event.waitUntil(refreshShell(response.clone()));
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.open(SHELL_CACHE).then(cache => cache.match(shellUrl()));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// A changed index.html means a new deployment with new file names, so the
+// old files are dropped
+async function refreshShell(response) {
+  const html = await response.text();
+  const cached = await caches.open(SHELL_CACHE).then(cache => cache.match(shellUrl()));
+  if (cached && (await cached.text()) === html) return;
+  await caches.delete(SHELL_CACHE);
+  await cacheShell(html);
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function backgroundCheck() {
+  // An open app runs its own checks
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length > 0) return;
+
+  const config = await readJson(configUrl(), null);
+  if (!config || config.endpoints.length === 0) return;
+
+  const record = await check(config.endpoints);
+  const queued = await readJson(queueUrl(), []);
+  await writeJson(queueUrl(), [...queued, record].slice(-MAX_QUEUED_CHECKS));
+}
+
+// Probes the endpoints in order until one answers, like the sequential probe strategy
+async function check(endpoints) {
+  const timestamp = Date.now();
+  let error = 'No endpoint answered';
+
+  for (const endpoint of endpoints) {
+    const started = performance.now();
+    try {
+      await probe(endpoint);
+      const responseTime = Math.round(performance.now() - started);
+      return { timestamp, isOnline: true, state: 'online', responseTime, endpoint: endpoint.name, background: true };
+    } catch (failure) {
+      error = `${endpoint.name}: ${failure instanceof Error ? failure.message : 'Request failed'}`;
+    }
+  }
+  return { timestamp, isOnline: false, state: 'offline', responseTime: null, endpoint: null, error, background: true };
+}
+
+async function probe(endpoint) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), endpoint.timeout);
+  try {
+    const response = await fetch(endpoint.url, {
+      method: endpoint.method,
+      mode: endpoint.mode,
+      cache: 'no-store',
+      signal: controller.signal
+    });
+    // Opaque no-cors responses only tell that something answered
+    if (response.type !== 'opaque' && !endpoint.expectedStatus.includes(response.status)) {
+      throw new Error(`Unexpected status: ${response.status}`);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`No response within ${endpoint.timeout}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Hands the queued checks to the app and forgets them
+async function drain(port) {
+  const records = await readJson(queueUrl(), []);
+  await caches.open(DATA_CACHE).then(cache => cache.delete(queueUrl()));
+  port.postMessage(records);
+}
+
+async function readJson(url, fallback) {
+  const response = await caches.open(DATA_CACHE).then(cache => cache.match(url));
+  if (!response) return fallback;
+  try {
+    return await response.json();
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeJson(url, value) {
+  const cache = await caches.open(DATA_CACHE);
+  await cache.put(url, new Response(JSON.stringify(value), { headers: { 'Content-Type': 'application/json' } }));
+}
@@ -1,11 +1,15 @@
 import { TestBed } from '@angular/core/testing';
 import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { provideRouter, withComponentInputBinding } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
 import { AppComponent } from './app.component';
+import { routes } from './app.routes';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [AppComponent, HttpClientTestingModule],
+      providers: [provideRouter(routes, withComponentInputBinding())]
     }).compileComponents();
   });
 
@@ -28,24 +32,23 @@ describe('AppComponent', () => {
     expect(compiled.querySelector('h1')?.textContent).toContain('Am I Online?');
   });
 
-  it('should render connectivity status component', () => {
-    const fixture = TestBed.createComponent(AppComponent);
-    fixture.detectChanges();
-    const compiled = fixture.nativeElement as HTMLElement;
-    expect(compiled.querySelector('app-connectivity-status')).toBeTruthy();
+  it('should render connectivity status component on the dashboard', async () => {
+    const harness = await RouterTestingHarness.create('/');
+    expect(harness.routeNativeElement?.querySelector('app-connectivity-status')).toBeTruthy();
   });
 
-  it('should render network stats component', () => {
-    const fixture = TestBed.createComponent(AppComponent);
-    fixture.detectChanges();
-    const compiled = fixture.nativeElement as HTMLElement;
-    expect(compiled.querySelector('app-network-stats')).toBeTruthy();
+  it('should render network stats component on the history page', async () => {
+    const harness = await RouterTestingHarness.create('/history?window=24h');
+    expect(harness.routeNativeElement?.querySelector('app-network-stats')).toBeTruthy();
   });
 
-  it('should render endpoint details component', () => {
-    const fixture = TestBed.createComponent(AppComponent);
-    fixture.detectChanges();
-    const compiled = fixture.nativeElement as HTMLElement;
-    expect(compiled.querySelector('app-endpoint-details')).toBeTruthy();
+  it('should render endpoint details component on the endpoints page', async () => {
+    const harness = await RouterTestingHarness.create('/endpoints');
+    expect(harness.routeNativeElement?.querySelector('app-endpoint-details')).toBeTruthy();
+  });
+
+  it('should render the SLA report component on the report page', async () => {
+    const harness = await RouterTestingHarness.create('/report?from=2025-01-01&to=2025-01-31&target=99.9');
+    expect(harness.routeNativeElement?.querySelector('app-sla-report')).toBeTruthy();
   });
 });
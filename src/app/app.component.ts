@@ -1,50 +1,11 @@
-import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
-import { CommonModule, DatePipe } from '@angular/common';
-import { ConnectivityStatusComponent } from './components/connectivity-status/connectivity-status.component';
-import { EndpointDetailsComponent } from './components/endpoint-details/endpoint-details.component';
-import { NetworkStatsComponent } from './components/network-stats/network-stats.component';
-import { ConnectivityService } from './services/connectivity.service';
+import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [
-    CommonModule,
-    DatePipe,
-    ConnectivityStatusComponent,
-    EndpointDetailsComponent,
-    NetworkStatsComponent
-  ],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive],
   changeDetection: ChangeDetectionStrategy.OnPush,
   templateUrl: './app.component.html'
 })
-export class AppComponent {
-  private connectivityService = inject(ConnectivityService);
-
-  readonly isOnline = this.connectivityService.isOnline;
-  readonly lastChecked = this.connectivityService.lastChecked;
-  readonly responseTime = this.connectivityService.responseTime;
-  readonly currentEndpoint = this.connectivityService.currentEndpoint;
-  readonly error = this.connectivityService.error;
-  readonly isChecking = this.connectivityService.isChecking;
-  readonly totalChecks = this.connectivityService.totalChecks;
-  readonly successfulChecks = this.connectivityService.successfulChecks;
-  readonly uptimePercentage = this.connectivityService.uptimePercentage;
-  readonly successRate = this.connectivityService.successRate;
-  readonly averageResponseTime = this.connectivityService.averageResponseTime;
-  readonly minResponseTime = this.connectivityService.minResponseTime;
-  readonly maxResponseTime = this.connectivityService.maxResponseTime;
-  readonly connectionHistory = this.connectivityService.connectionHistory;
-
-  async manualCheck(): Promise<void> {
-    await this.connectivityService.manualCheck();
-  }
-
-  getCurrentEndpointInfo() {
-    return this.connectivityService.getCurrentEndpointInfo();
-  }
-
-  getRecentHistory() {
-    return this.connectivityService.getRecentHistory();
-  }
-}
+export class AppComponent {}
@@ -1,8 +1,32 @@
-import { ApplicationConfig } from '@angular/core';
+import { ApplicationConfig, inject, provideAppInitializer } from '@angular/core';
 import { provideHttpClient } from '@angular/common/http';
+import { provideRouter, withComponentInputBinding, withInMemoryScrolling } from '@angular/router';
+import { routes } from './app.routes';
+import { IncidentService } from './services/incident.service';
+import { AlertService } from './services/alert.service';
+import { PageStatusService } from './services/page-status.service';
+import { PwaService } from './services/pwa.service';
+import { QualityTestService } from './services/quality-test.service';
+import { StatsService } from './services/stats.service';
+import { WebhookService } from './services/webhook.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
-    provideHttpClient()
+    provideHttpClient(),
+    provideRouter(
+      routes,
+      withComponentInputBinding(),
+      withInMemoryScrolling({ anchorScrolling: 'enabled', scrollPositionRestoration: 'enabled' })
+    ),
+    // Background subsystems that must react to every check, whichever view is shown
+    provideAppInitializer(() => {
+      inject(IncidentService);
+      inject(AlertService);
+      inject(PageStatusService);
+      inject(PwaService);
+      inject(QualityTestService);
+      inject(StatsService);
+      inject(WebhookService);
+    })
   ]
 };
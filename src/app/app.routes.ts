@@ -1,3 +1,34 @@
 import { Routes } from '@angular/router';
 
-export const routes: Routes = [];
+// Pages are lazy loaded; query params and route params are bound to their inputs
+export const routes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./pages/dashboard/dashboard-page.component').then(m => m.DashboardPageComponent)
+  },
+  {
+    path: 'history',
+    loadComponent: () => import('./pages/history/history-page.component').then(m => m.HistoryPageComponent)
+  },
+  {
+    path: 'incidents',
+    loadComponent: () => import('./pages/incidents/incidents-page.component').then(m => m.IncidentsPageComponent)
+  },
+  {
+    path: 'report',
+    loadComponent: () => import('./pages/report/report-page.component').then(m => m.ReportPageComponent)
+  },
+  {
+    path: 'endpoints',
+    loadComponent: () => import('./pages/endpoints/endpoints-page.component').then(m => m.EndpointsPageComponent)
+  },
+  {
+    path: 'endpoints/:name',
+    loadComponent: () => import('./pages/endpoint/endpoint-page.component').then(m => m.EndpointPageComponent)
+  },
+  {
+    path: 'settings',
+    loadComponent: () => import('./pages/settings/settings-page.component').then(m => m.SettingsPageComponent)
+  },
+  { path: '**', redirectTo: '' }
+];
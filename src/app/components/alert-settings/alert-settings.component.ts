@@ -0,0 +1,76 @@
+import { Component, inject, ChangeDetectionStrategy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { AlertService, AlertRule, QuietHours } from '../../services/alert.service';
+
+const MINUTE = 60 * 1000;
+
+@Component({
+  selector: 'app-alert-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './alert-settings.component.html'
+})
+export class AlertSettingsComponent {
+  private alertService = inject(AlertService);
+
+  readonly settings = this.alertService.settings;
+  readonly permission = this.alertService.permission;
+  readonly alertLog = this.alertService.alertLog;
+
+  readonly ruleLabels: Record<AlertRule['kind'], string> = {
+    offline: 'When the connection goes offline',
+    recovered: 'When the connection comes back',
+    latency: 'When the connection stays slow'
+  };
+
+  setNotifications(enabled: boolean): void {
+    this.alertService.setNotifications(enabled);
+  }
+
+  setSound(sound: boolean): void {
+    this.alertService.update({ sound });
+  }
+
+  setRuleEnabled(rule: AlertRule, enabled: boolean): void {
+    this.alertService.updateRule(rule.id, { enabled });
+  }
+
+  // Counts and durations must be positive; durations are edited in minutes
+  setRuleValue(rule: AlertRule, key: 'consecutiveChecks' | 'thresholdMs', value: number | null): void {
+    if (value === null || !Number.isFinite(value) || value < 1) return;
+    this.alertService.updateRule(rule.id, { [key]: Math.round(value) });
+  }
+
+  setRuleMinutes(rule: AlertRule, key: 'minOutageMs' | 'durationMs', minutes: number | null): void {
+    if (minutes === null || !Number.isFinite(minutes) || minutes < 0) return;
+    this.alertService.updateRule(rule.id, { [key]: Math.round(minutes * MINUTE) });
+  }
+
+  setFlapWindow(minutes: number | null): void {
+    if (minutes === null || !Number.isFinite(minutes) || minutes < 1) return;
+    this.alertService.update({ flapWindowMs: Math.round(minutes * MINUTE) });
+  }
+
+  setFlapMaxTransitions(value: number | null): void {
+    if (value === null || !Number.isFinite(value) || value < 1) return;
+    this.alertService.update({ flapMaxTransitions: Math.round(value) });
+  }
+
+  setQuietHours(changes: Partial<QuietHours>): void {
+    this.alertService.update({ quietHours: { ...this.settings().quietHours, ...changes } });
+  }
+
+  toMinutes(ms: number): number {
+    return ms / MINUTE;
+  }
+
+  sendTest(): void {
+    this.alertService.sendTest();
+  }
+
+  reset(): void {
+    this.alertService.reset();
+  }
+}
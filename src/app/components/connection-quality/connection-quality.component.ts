@@ -0,0 +1,50 @@
+import { Component, inject, ChangeDetectionStrategy, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { QualityTestService, QualityGrade, QualityResult } from '../../services/quality-test.service';
+
+interface QualityBar {
+  result: QualityResult;
+  // Percentages of the chart height
+  downloadHeight: number;
+  uploadHeight: number;
+}
+
+// Results shown in the chart
+const CHART_SIZE = 20;
+
+export const QUALITY_GRADES: Record<QualityGrade, { label: string; textClass: string; dotClass: string; barClass: string }> = {
+  good: { label: 'Good for video calls', textClass: 'text-green-400', dotClass: 'bg-green-400', barClass: 'fill-green-400' },
+  fair: { label: 'Fair, occasional glitches', textClass: 'text-yellow-300', dotClass: 'bg-yellow-300', barClass: 'fill-yellow-300' },
+  poor: { label: 'Poor, calls will stutter', textClass: 'text-orange-400', dotClass: 'bg-orange-400', barClass: 'fill-orange-400' },
+  unusable: { label: 'Online but unusable for calls', textClass: 'text-red-400', dotClass: 'bg-red-400', barClass: 'fill-red-400' }
+};
+
+@Component({
+  selector: 'app-connection-quality',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './connection-quality.component.html'
+})
+export class ConnectionQualityComponent {
+  private qualityTest = inject(QualityTestService);
+
+  readonly latest = this.qualityTest.latest;
+  readonly isRunning = this.qualityTest.isRunning;
+  readonly grades = QUALITY_GRADES;
+
+  // Download and upload bars per run, scaled to the fastest result shown
+  readonly bars = computed((): QualityBar[] => {
+    const results = this.qualityTest.results().slice(-CHART_SIZE);
+    const max = Math.max(1, ...results.flatMap(result => [result.downloadMbps ?? 0, result.uploadMbps ?? 0]));
+    return results.map(result => ({
+      result,
+      downloadHeight: ((result.downloadMbps ?? 0) / max) * 100,
+      uploadHeight: ((result.uploadMbps ?? 0) / max) * 100
+    }));
+  });
+
+  run(): void {
+    this.qualityTest.run();
+  }
+}
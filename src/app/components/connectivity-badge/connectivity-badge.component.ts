@@ -0,0 +1,47 @@
+import { Component, ChangeDetectionStrategy, ViewEncapsulation, inject, computed, effect, untracked, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConnectivityService, ConnectivityStatus, ConnectionState } from '../../services/connectivity.service';
+import { GROUP_STATE_STYLES } from '../group-matrix/group-matrix.component';
+
+// Compact indicator for embedding in other apps. Styles are self-contained
+// (no Tailwind) since host pages don't load the app's stylesheet.
+@Component({
+  selector: 'app-connectivity-badge',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  encapsulation: ViewEncapsulation.ShadowDom,
+  templateUrl: './connectivity-badge.component.html',
+  styleUrl: './connectivity-badge.component.css'
+})
+export class ConnectivityBadgeComponent {
+  private connectivityService = inject(ConnectivityService);
+
+  readonly status = this.connectivityService.status;
+  readonly isChecking = this.connectivityService.isChecking;
+  readonly label = computed(() =>
+    this.status().lastChecked ? GROUP_STATE_STYLES[this.status().state].label : 'Checking…'
+  );
+  // Shown on hover: why the connection isn't simply online
+  readonly details = computed(() => {
+    const status = this.status();
+    return [...(status.reachability?.reasons ?? []), status.error ?? ''].filter(Boolean).join('\n');
+  });
+
+  // Emits when the state changes, not on every check
+  readonly statusChange = output<ConnectivityStatus>();
+
+  constructor() {
+    let previous: ConnectionState | null = null;
+    effect(() => {
+      const status = this.status();
+      if (!status.lastChecked || status.state === previous) return;
+      previous = status.state;
+      untracked(() => this.statusChange.emit(status));
+    });
+  }
+
+  check(): void {
+    this.connectivityService.manualCheck();
+  }
+}
@@ -1,6 +1,14 @@
-import { Component, inject, ChangeDetectionStrategy } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ConnectivityService } from '../../services/connectivity.service';
+import { QualityTestService } from '../../services/quality-test.service';
+import { StatsService } from '../../services/stats.service';
+import { SettingsService, latencyLevel } from '../../services/settings.service';
+import { QUALITY_GRADES } from '../connection-quality/connection-quality.component';
+import { LATENCY_LEVELS } from '../latency-chart/latency-chart.component';
+
+// Quality results older than this no longer describe the connection
+const QUALITY_RESULT_MAX_AGE = 60 * 60 * 1000;
 
 @Component({
   selector: 'app-connectivity-status',
@@ -11,22 +19,58 @@ import { ConnectivityService } from '../../services/connectivity.service';
 })
 export class ConnectivityStatusComponent {
   private connectivityService = inject(ConnectivityService);
+  private qualityTest = inject(QualityTestService);
+  private settings = inject(SettingsService).settings;
 
   readonly isOnline = this.connectivityService.isOnline;
+  readonly state = this.connectivityService.state;
   readonly lastChecked = this.connectivityService.lastChecked;
   readonly responseTime = this.connectivityService.responseTime;
   readonly currentEndpoint = this.connectivityService.currentEndpoint;
   readonly error = this.connectivityService.error;
+  readonly reachability = this.connectivityService.reachability;
   readonly isChecking = this.connectivityService.isChecking;
-  readonly totalChecks = this.connectivityService.totalChecks;
-  readonly successfulChecks = this.connectivityService.successfulChecks;
-  readonly uptimePercentage = this.connectivityService.uptimePercentage;
-  readonly successRate = this.connectivityService.successRate;
-  readonly averageResponseTime = this.connectivityService.averageResponseTime;
-  readonly minResponseTime = this.connectivityService.minResponseTime;
-  readonly maxResponseTime = this.connectivityService.maxResponseTime;
+  // Same window as the dashboard cards around it
+  readonly stats = inject(StatsService).day;
+  readonly nextCheckAt = this.connectivityService.nextCheckAt;
+  readonly isPaused = this.connectivityService.isPaused;
+  // With several tabs open, one of them runs the checks for all
+  readonly isLeader = this.connectivityService.isLeader;
+  readonly latencyLevels = LATENCY_LEVELS;
+  readonly responseLevel = computed(() => {
+    const responseTime = this.responseTime();
+    return responseTime ? latencyLevel(responseTime, this.settings()) : null;
+  });
+
+  // Reachable endpoints first, as shown by the latest check
+  readonly endpointResults = computed(() => {
+    const reachability = this.reachability();
+    if (!reachability) return [];
+    return [
+      ...reachability.reachable.map(endpoint => ({ endpoint, reachable: true })),
+      ...reachability.unreachable.map(endpoint => ({ endpoint, reachable: false }))
+    ];
+  });
+
+  // Label for a connection that is up but failed its latest quality test
+  readonly degradedQuality = computed(() => {
+    const result = this.qualityTest.latest();
+    const now = this.lastChecked()?.getTime() ?? Date.now();
+    if (this.state() !== 'online' || !result || now - result.timestamp.getTime() > QUALITY_RESULT_MAX_AGE) {
+      return null;
+    }
+    return result.grade === 'poor' || result.grade === 'unusable' ? QUALITY_GRADES[result.grade].label : null;
+  });
 
   async manualCheck(): Promise<void> {
     await this.connectivityService.manualCheck();
   }
+
+  togglePause(): void {
+    if (this.isPaused()) {
+      this.connectivityService.resumeChecks();
+    } else {
+      this.connectivityService.pauseChecks();
+    }
+  }
 }
@@ -1,17 +1,252 @@
-import { Component, inject, ChangeDetectionStrategy, computed } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, signal, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ConnectivityService, ConnectivityEndpoint } from '../../services/connectivity.service';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { ConnectivityService, ConnectivityEndpoint, VerificationMode, ProbeResult } from '../../services/connectivity.service';
+import { EndpointRegistryService } from '../../services/endpoint-registry.service';
+import { DEFAULT_ENDPOINT_TIMEOUT } from '../../services/default-endpoints';
+import { SettingsService, ProbeStrategy } from '../../services/settings.service';
+import { EndpointHealthService, EndpointHealth, LATENCY_BUCKETS, latencyPercentile } from '../../services/endpoint-health.service';
+import { INTERNET_GROUP, groupOf, groupNames } from '../../services/endpoint-groups';
+import { EndpointTransport, TransportKind, describeTransport, transportOf } from '../../services/probe-transport';
+
+interface HealthBadge {
+  label: string;
+  dotClass: string;
+}
+
+// Form model: status codes are edited as a comma separated string
+interface EndpointDraft {
+  name: string;
+  url: string;
+  // Blank for the public internet
+  group: string;
+  expectedStatus: string;
+  timeout: number | null;
+  enabled: boolean;
+  verificationMode: VerificationMode;
+  expectedBody: string;
+  bodySha256: string;
+  transportKind: TransportKind;
+  method: 'GET' | 'HEAD';
+  mode: 'cors' | 'no-cors';
+  // Blank connects without sending anything
+  echo: string;
+}
 
 @Component({
   selector: 'app-endpoint-details',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule, RouterLink],
   changeDetection: ChangeDetectionStrategy.OnPush,
   templateUrl: './endpoint-details.component.html'
 })
 export class EndpointDetailsComponent {
   private connectivityService = inject(ConnectivityService);
+  private endpointRegistry = inject(EndpointRegistryService);
+  private settingsService = inject(SettingsService);
+  private endpointHealth = inject(EndpointHealthService);
 
-  readonly endpoints = computed(() => this.connectivityService.getEndpoints());
+  readonly endpoints = this.endpointRegistry.endpoints;
+  readonly isCustomized = this.endpointRegistry.isCustomized;
   readonly currentEndpoint = this.connectivityService.currentEndpoint;
+  readonly health = this.endpointHealth.health;
+  // Suggested in the group field, including groups of disabled endpoints
+  readonly groupNames = computed(() => groupNames(this.endpoints()));
+  readonly latencyBucketLabels = LATENCY_BUCKETS.map((bound, index) =>
+    bound === Infinity ? `>${LATENCY_BUCKETS[index - 1]}` : `≤${bound}`
+  );
+  readonly probeStrategy = computed(() => this.settingsService.settings().probeStrategy);
+  readonly probeStrategies: { value: ProbeStrategy; label: string }[] = [
+    { value: 'sequential', label: 'Sequential' },
+    { value: 'race', label: 'Race' },
+    { value: 'all', label: 'Probe all' }
+  ];
+
+  // Each endpoint's result from the most recent check that probed it
+  readonly lastProbes = computed(() => {
+    const latest = new Map<string, ProbeResult & { timestamp: Date }>();
+    for (const record of this.connectivityService.connectionHistory()) {
+      for (const probe of record.probes ?? []) {
+        latest.set(probe.endpoint, { ...probe, timestamp: record.timestamp });
+      }
+    }
+    return latest;
+  });
+  readonly defaultTimeout = DEFAULT_ENDPOINT_TIMEOUT;
+  readonly verificationModes: { value: VerificationMode; label: string }[] = [
+    { value: 'none', label: 'None (any response)' },
+    { value: 'status', label: 'Status code' },
+    { value: 'content', label: 'Body contains text' },
+    { value: 'hash', label: 'Body SHA-256' }
+  ];
+  readonly transportKinds: { value: TransportKind; label: string }[] = [
+    { value: 'fetch', label: 'fetch' },
+    { value: 'xhr', label: 'XMLHttpRequest' },
+    { value: 'image', label: 'Image beacon' },
+    { value: 'websocket', label: 'WebSocket' }
+  ];
+
+  // null = form closed, '' = adding a new endpoint, otherwise the name being edited
+  readonly editingName = signal<string | null>(null);
+  readonly formErrors = signal<string[]>([]);
+  draft: EndpointDraft = this.emptyDraft();
+
+  healthBadge(endpoint: ConnectivityEndpoint): HealthBadge {
+    const health = this.health()[endpoint.name];
+    if (!endpoint.enabled) return { label: 'Disabled', dotClass: 'bg-white/30' };
+    if (!health || health.attempts === 0) return { label: 'No data yet', dotClass: 'bg-white/30' };
+
+    switch (health.circuit) {
+      case 'open':
+        return { label: 'Circuit open', dotClass: 'bg-red-400' };
+      case 'half-open':
+        return { label: 'Retesting', dotClass: 'bg-yellow-400 animate-pulse' };
+      default:
+        return health.lastFailure && (!health.lastSuccess || health.lastFailure > health.lastSuccess)
+          ? { label: 'Failing', dotClass: 'bg-yellow-400' }
+          : { label: 'Healthy', dotClass: 'bg-green-400' };
+    }
+  }
+
+  groupOf(endpoint: ConnectivityEndpoint): string {
+    return groupOf(endpoint);
+  }
+
+  transportLabel(endpoint: ConnectivityEndpoint): string {
+    return describeTransport(transportOf(endpoint));
+  }
+
+  successRate(health: EndpointHealth): number {
+    return health.attempts > 0 ? Math.round((health.successes / health.attempts) * 100) : 0;
+  }
+
+  latencyPercentile(health: EndpointHealth, p: number): number | null {
+    return latencyPercentile(health, p);
+  }
+
+  // Bar heights (0-100) relative to the fullest bucket
+  histogramHeights(health: EndpointHealth): number[] {
+    const max = Math.max(1, ...health.latencyHistogram);
+    return health.latencyHistogram.map(count => Math.round((count / max) * 100));
+  }
+
+  setProbeStrategy(probeStrategy: ProbeStrategy): void {
+    this.settingsService.update({ probeStrategy });
+  }
+
+  startAdd(): void {
+    this.draft = this.emptyDraft();
+    this.formErrors.set([]);
+    this.editingName.set('');
+  }
+
+  startEdit(endpoint: ConnectivityEndpoint): void {
+    const transport = transportOf(endpoint);
+    this.draft = {
+      name: endpoint.name,
+      url: endpoint.url,
+      group: endpoint.group ?? '',
+      expectedStatus: endpoint.expectedStatus.join(', '),
+      timeout: endpoint.timeout ?? null,
+      enabled: endpoint.enabled,
+      verificationMode: endpoint.verification?.mode ?? 'none',
+      expectedBody: endpoint.verification?.expectedBody ?? '',
+      bodySha256: endpoint.verification?.bodySha256 ?? '',
+      transportKind: transport.kind,
+      method: transport.method ?? 'GET',
+      mode: transport.mode ?? 'no-cors',
+      echo: transport.echo ?? ''
+    };
+    this.formErrors.set([]);
+    this.editingName.set(endpoint.name);
+  }
+
+  cancelEdit(): void {
+    this.editingName.set(null);
+    this.formErrors.set([]);
+  }
+
+  save(): void {
+    const original = this.editingName();
+    if (original === null) return;
+
+    const endpoint = this.fromDraft(this.draft);
+    const errors = original === ''
+      ? this.endpointRegistry.add(endpoint)
+      : this.endpointRegistry.update(original, endpoint);
+
+    this.formErrors.set(errors);
+    if (errors.length === 0) this.editingName.set(null);
+  }
+
+  toggle(endpoint: ConnectivityEndpoint): void {
+    this.endpointRegistry.setEnabled(endpoint.name, !endpoint.enabled);
+  }
+
+  move(endpoint: ConnectivityEndpoint, offset: number): void {
+    this.endpointRegistry.move(endpoint.name, offset);
+  }
+
+  remove(endpoint: ConnectivityEndpoint): void {
+    if (confirm(`Remove the "${endpoint.name}" endpoint?`)) {
+      this.endpointRegistry.remove(endpoint.name);
+    }
+  }
+
+  resetToDefaults(): void {
+    if (confirm('Replace your endpoint list with the built-in defaults?')) {
+      this.endpointRegistry.resetToDefaults();
+      this.cancelEdit();
+    }
+  }
+
+  private emptyDraft(): EndpointDraft {
+    return {
+      name: '',
+      url: 'https://',
+      group: '',
+      expectedStatus: '200, 204',
+      timeout: DEFAULT_ENDPOINT_TIMEOUT,
+      enabled: true,
+      verificationMode: 'none',
+      expectedBody: '',
+      bodySha256: '',
+      transportKind: 'fetch',
+      method: 'GET',
+      mode: 'no-cors',
+      echo: ''
+    };
+  }
+
+  private fromDraft(draft: EndpointDraft): ConnectivityEndpoint {
+    return {
+      name: draft.name,
+      url: draft.url,
+      group: draft.group.trim() === INTERNET_GROUP ? undefined : draft.group,
+      expectedStatus: draft.expectedStatus
+        .split(',')
+        .map(code => code.trim())
+        .filter(code => code.length > 0)
+        .map(Number),
+      timeout: draft.timeout ?? undefined,
+      enabled: draft.enabled,
+      verification: draft.verificationMode === 'none' ? undefined : {
+        mode: draft.verificationMode,
+        expectedBody: draft.verificationMode === 'content' ? draft.expectedBody : undefined,
+        bodySha256: draft.verificationMode === 'hash' ? draft.bodySha256.trim() : undefined
+      },
+      transport: this.transportFromDraft(draft)
+    };
+  }
+
+  // The registry drops the options that don't apply to the kind
+  private transportFromDraft(draft: EndpointDraft): EndpointTransport {
+    return {
+      kind: draft.transportKind,
+      method: draft.method,
+      mode: draft.mode,
+      echo: draft.echo || undefined
+    };
+  }
 }
@@ -0,0 +1,72 @@
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConnectivityService, ConnectionRecord, ConnectionState } from '../../services/connectivity.service';
+import { EndpointRegistryService } from '../../services/endpoint-registry.service';
+import { StatsService, ConnectionStats } from '../../services/stats.service';
+import { groupHistory, groupOf } from '../../services/endpoint-groups';
+
+interface GroupRow {
+  group: string;
+  state: ConnectionState | null;
+  latest: ConnectionRecord | null;
+  // Oldest first, ending with the latest check
+  recent: { timestamp: Date; state: ConnectionState; responseTime: number | null }[];
+  stats: ConnectionStats | null;
+  endpoints: number;
+}
+
+// Checks shown in each group's history strip
+const HISTORY_STRIP_SIZE = 20;
+
+export const GROUP_STATE_STYLES: Record<ConnectionState, { label: string; textClass: string; dotClass: string }> = {
+  online: { label: 'Online', textClass: 'text-green-400', dotClass: 'bg-green-400' },
+  degraded: { label: 'Degraded', textClass: 'text-orange-400', dotClass: 'bg-orange-400' },
+  intercepted: { label: 'Intercepted', textClass: 'text-amber-400', dotClass: 'bg-amber-400' },
+  offline: { label: 'Offline', textClass: 'text-red-400', dotClass: 'bg-red-400' }
+};
+
+// One row per endpoint group, so "is it the internet, the VPN or our own
+// service?" can be answered at a glance
+@Component({
+  selector: 'app-group-matrix',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './group-matrix.component.html'
+})
+export class GroupMatrixComponent {
+  private connectivityService = inject(ConnectivityService);
+  private endpointRegistry = inject(EndpointRegistryService);
+  private statsService = inject(StatsService);
+
+  readonly styles = GROUP_STATE_STYLES;
+  readonly lastChecked = this.connectivityService.lastChecked;
+
+  readonly rows = computed((): GroupRow[] => {
+    const history = this.connectivityService.connectionHistory();
+    const enabled = this.endpointRegistry.enabledEndpoints();
+    const stats = this.statsService.dayByGroup();
+
+    return this.connectivityService.groups().map(group => {
+      const records = groupHistory(history, group).slice(-HISTORY_STRIP_SIZE);
+      const latest = records[records.length - 1] ?? null;
+      return {
+        group,
+        state: latest ? stateOf(latest) : null,
+        latest,
+        recent: records.map(record => ({
+          timestamp: record.timestamp,
+          state: stateOf(record),
+          responseTime: record.responseTime
+        })),
+        stats: stats.get(group) ?? null,
+        endpoints: enabled.filter(endpoint => groupOf(endpoint) === group).length
+      };
+    });
+  });
+}
+
+// Records stored before interception detection have no state
+function stateOf(record: ConnectionRecord): ConnectionState {
+  return record.state ?? (record.isOnline ? 'online' : 'offline');
+}
@@ -0,0 +1,84 @@
+import { Component, inject, ChangeDetectionStrategy, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { IncidentService, Incident, INCIDENT_METRICS_DAYS, incidentDuration } from '../../services/incident.service';
+import { ConnectionRecord } from '../../services/connectivity.service';
+import { MaintenanceService } from '../../services/maintenance.service';
+import { DurationPipe } from '../../pipes/duration.pipe';
+
+interface TimelineMarker {
+  record: ConnectionRecord;
+  // Position along the incident's time span, 0-100
+  offset: number;
+}
+
+@Component({
+  selector: 'app-incidents',
+  standalone: true,
+  imports: [CommonModule, FormsModule, DurationPipe],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './incidents.component.html'
+})
+export class IncidentsComponent {
+  private incidentService = inject(IncidentService);
+  private maintenance = inject(MaintenanceService);
+
+  readonly incidents = this.incidentService.incidents;
+  readonly activeIncident = this.incidentService.activeIncident;
+  readonly metrics = this.incidentService.metrics;
+  readonly metricsDays = INCIDENT_METRICS_DAYS;
+
+  readonly selectedIncident = signal<Incident | null>(null);
+  readonly timeline = signal<ConnectionRecord[]>([]);
+  readonly exclusionErrors = signal<string[]>([]);
+
+  exclusionNote = '';
+
+  readonly timelineMarkers = computed((): TimelineMarker[] => {
+    const incident = this.selectedIncident();
+    const records = this.timeline();
+    if (!incident || records.length === 0) return [];
+
+    const start = incident.start.getTime();
+    const span = Math.max(1, incidentDuration(incident));
+    return records.map(record => ({
+      record,
+      offset: Math.min(100, ((record.timestamp.getTime() - start) / span) * 100)
+    }));
+  });
+
+  duration(incident: Incident): number {
+    return incidentDuration(incident);
+  }
+
+  isExcluded(incident: Incident): boolean {
+    return this.incidentService.isExcluded(incident);
+  }
+
+  // Leaves a resolved outage out of uptime and the metrics, e.g. when it was planned
+  exclude(incident: Incident): void {
+    if (!incident.end) return;
+    const errors = this.maintenance.exclude(incident.start, incident.end, this.exclusionNote);
+    this.exclusionErrors.set(errors);
+    if (errors.length === 0) this.exclusionNote = '';
+  }
+
+  async toggleTimeline(incident: Incident): Promise<void> {
+    this.exclusionErrors.set([]);
+    this.exclusionNote = '';
+    if (this.isSelected(incident)) {
+      this.selectedIncident.set(null);
+      this.timeline.set([]);
+      return;
+    }
+
+    this.selectedIncident.set(incident);
+    this.timeline.set([]);
+    const records = await this.incidentService.getTimeline(incident);
+    if (this.isSelected(incident)) this.timeline.set(records);
+  }
+
+  isSelected(incident: Incident): boolean {
+    return this.selectedIncident()?.start.getTime() === incident.start.getTime();
+  }
+}
@@ -0,0 +1,278 @@
+import { Component, inject, ChangeDetectionStrategy, signal, computed, effect, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConnectivityService, ConnectionRecord } from '../../services/connectivity.service';
+import { HistoryStoreService } from '../../services/history-store.service';
+import { SettingsService, LatencyLevel } from '../../services/settings.service';
+import { percentile } from '../../services/stats.service';
+import { NetworkInfoService, describeNetwork } from '../../services/network-info.service';
+import {
+  LatencyPoint,
+  TimeSpan,
+  toLatencySeries,
+  offlineSpans,
+  zoomSpan,
+  panSpan
+} from '../../services/latency-series';
+
+export type ChartRange = '15m' | '1h' | '24h' | '7d';
+
+const MINUTE = 60 * 1000;
+
+const RANGE_DURATIONS: Record<ChartRange, number> = {
+  '15m': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+  '24h': 24 * 60 * MINUTE,
+  '7d': 7 * 24 * 60 * MINUTE
+};
+
+// SVG user units; the chart stretches to its container
+const WIDTH = 1000;
+const HEIGHT = 240;
+// Checks beyond this many in view are merged into buckets
+const MAX_POINTS = 300;
+// Zooming in stops at this span
+const MIN_SPAN_MS = MINUTE;
+const ZOOM_STEP = 0.8;
+
+export const LATENCY_LEVELS: Record<LatencyLevel, { label: string; textClass: string; dotClass: string }> = {
+  good: { label: 'Fast', textClass: 'text-green-400', dotClass: 'bg-green-400' },
+  warning: { label: 'Slow', textClass: 'text-yellow-400', dotClass: 'bg-yellow-400' },
+  critical: { label: 'Very slow', textClass: 'text-red-400', dotClass: 'bg-red-400' }
+};
+
+interface PercentileLine {
+  label: string;
+  value: number;
+  y: number;
+}
+
+@Component({
+  selector: 'app-latency-chart',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './latency-chart.component.html'
+})
+export class LatencyChartComponent {
+  private connectivityService = inject(ConnectivityService);
+  private historyStore = inject(HistoryStoreService);
+  private settings = inject(SettingsService).settings;
+  private networkInfo = inject(NetworkInfoService);
+
+  readonly width = WIDTH;
+  readonly height = HEIGHT;
+  readonly levels = LATENCY_LEVELS;
+  readonly ranges: ChartRange[] = ['15m', '1h', '24h', '7d'];
+  readonly selectedRange = signal<ChartRange>('1h');
+
+  // Oldest first
+  private records = signal<ConnectionRecord[]>([]);
+  private now = signal<number>(Date.now());
+  // null shows the whole range
+  private view = signal<TimeSpan | null>(null);
+  private drag: { clientX: number; span: TimeSpan } | null = null;
+
+  readonly hovered = signal<LatencyPoint | null>(null);
+
+  readonly bounds = computed((): TimeSpan => ({
+    from: this.now() - RANGE_DURATIONS[this.selectedRange()],
+    to: this.now()
+  }));
+  readonly span = computed(() => this.view() ?? this.bounds());
+  readonly isZoomed = computed(() => this.view() !== null);
+
+  readonly points = computed(() => toLatencySeries(this.records(), this.span(), MAX_POINTS));
+
+  readonly percentiles = computed((): PercentileLine[] => {
+    const { from, to } = this.span();
+    const times = this.records()
+      .filter(record => record.isOnline && record.responseTime !== null)
+      .filter(record => record.timestamp.getTime() >= from && record.timestamp.getTime() <= to)
+      .map(record => record.responseTime!);
+    return [50, 95, 99]
+      .map(p => ({ label: `p${p}`, value: percentile(times, p) }))
+      .filter((line): line is { label: string; value: number } => line.value !== null)
+      .map(line => ({ ...line, y: this.y(line.value) }));
+  });
+
+  // Leaves room above the slowest point and the critical threshold
+  readonly maxValue = computed(() => {
+    const slowest = Math.max(0, ...this.points().map(point => point.responseTime ?? 0));
+    return Math.ceil(Math.max(slowest, this.settings().latencyCriticalMs) * 1.15 / 50) * 50;
+  });
+
+  readonly thresholds = computed(() => {
+    const settings = this.settings();
+    return {
+      warning: { value: settings.latencyWarningMs, y: this.y(settings.latencyWarningMs) },
+      critical: { value: settings.latencyCriticalMs, y: this.y(settings.latencyCriticalMs) }
+    };
+  });
+
+  // Polylines broken at failed checks, so outages show up as gaps
+  readonly lines = computed(() => {
+    const lines: string[] = [];
+    let current: string[] = [];
+    for (const point of this.points()) {
+      if (point.responseTime === null) {
+        if (current.length) lines.push(current.join(' '));
+        current = [];
+        continue;
+      }
+      current.push(`${this.x(point.time)},${this.y(point.responseTime)}`);
+    }
+    if (current.length) lines.push(current.join(' '));
+    return lines;
+  });
+
+  readonly offline = computed(() => {
+    const { from, to } = this.span();
+    return offlineSpans(this.records())
+      .filter(outage => outage.to >= from && outage.from <= to)
+      .map(outage => {
+        const x = this.x(Math.max(from, outage.from));
+        // Keep single failed checks visible
+        return { x, width: Math.max(2, this.x(Math.min(to, outage.to)) - x), outage };
+      });
+  });
+
+  // Switches between links, e.g. from Wi-Fi to cellular
+  readonly networkChanges = computed(() => {
+    const { from, to } = this.span();
+    return this.networkInfo.changes()
+      .filter(change => change.timestamp.getTime() >= from && change.timestamp.getTime() <= to)
+      .map(change => ({
+        x: this.x(change.timestamp.getTime()),
+        timestamp: change.timestamp,
+        description: describeNetwork(change.to) || 'Connection details changed'
+      }));
+  });
+
+  readonly hoverX = computed(() => {
+    const point = this.hovered();
+    return point ? this.x(point.time) : null;
+  });
+
+  constructor() {
+    // Reload when the range changes or the stored history is replaced
+    effect(() => {
+      const range = this.selectedRange();
+      this.historyStore.revision();
+      untracked(() => this.load(range));
+    });
+
+    // New checks are appended without going back to the store
+    effect(() => {
+      const history = this.connectivityService.connectionHistory();
+      untracked(() => this.appendLive(history));
+    });
+  }
+
+  selectRange(range: ChartRange): void {
+    this.view.set(null);
+    this.hovered.set(null);
+    this.selectedRange.set(range);
+  }
+
+  zoom(factor: number, focus = 0.5): void {
+    const next = zoomSpan(this.span(), focus, factor, this.bounds(), MIN_SPAN_MS);
+    const bounds = this.bounds();
+    this.view.set(next.from <= bounds.from && next.to >= bounds.to ? null : next);
+  }
+
+  zoomIn(): void {
+    this.zoom(ZOOM_STEP);
+  }
+
+  zoomOut(): void {
+    this.zoom(1 / ZOOM_STEP);
+  }
+
+  resetZoom(): void {
+    this.view.set(null);
+  }
+
+  onWheel(event: WheelEvent): void {
+    event.preventDefault();
+    this.zoom(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, this.fraction(event));
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    (event.currentTarget as Element).setPointerCapture(event.pointerId);
+    this.drag = { clientX: event.clientX, span: this.span() };
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    const target = event.currentTarget as Element;
+    if (this.drag) {
+      const { width } = target.getBoundingClientRect();
+      const spanMs = this.drag.span.to - this.drag.span.from;
+      const delta = -((event.clientX - this.drag.clientX) / width) * spanMs;
+      this.view.set(panSpan(this.drag.span, delta, this.bounds()));
+      return;
+    }
+
+    const { from, to } = this.span();
+    const time = from + this.fraction(event) * (to - from);
+    let nearest: LatencyPoint | null = null;
+    for (const point of this.points()) {
+      if (!nearest || Math.abs(point.time - time) < Math.abs(nearest.time - time)) nearest = point;
+    }
+    this.hovered.set(nearest);
+  }
+
+  onPointerUp(): void {
+    this.drag = null;
+  }
+
+  onPointerLeave(): void {
+    this.drag = null;
+    this.hovered.set(null);
+  }
+
+  tooltipLeft(point: LatencyPoint): number {
+    return (this.x(point.time) / WIDTH) * 100;
+  }
+
+  private x(time: number): number {
+    const { from, to } = this.span();
+    return Math.round(((time - from) / Math.max(1, to - from)) * WIDTH * 10) / 10;
+  }
+
+  private y(value: number): number {
+    return Math.round((HEIGHT - (value / this.maxValue()) * HEIGHT) * 10) / 10;
+  }
+
+  // Pointer position as a fraction of the chart width
+  private fraction(event: MouseEvent): number {
+    const rect = (event.currentTarget as Element).getBoundingClientRect();
+    return Math.min(1, Math.max(0, (event.clientX - rect.left) / Math.max(1, rect.width)));
+  }
+
+  private async load(range: ChartRange): Promise<void> {
+    const now = Date.now();
+    const stored = await this.historyStore.queryRange(new Date(now - RANGE_DURATIONS[range]), new Date(now));
+    // Ignore results for a range the user has already switched away from
+    if (this.selectedRange() !== range) return;
+
+    // Checks may still be on their way into the store
+    const newestStored = stored[stored.length - 1]?.timestamp.getTime() ?? 0;
+    const live = this.connectivityService.connectionHistory()
+      .filter(record => record.timestamp.getTime() > newestStored);
+    this.now.set(now);
+    this.records.set([...stored, ...live]);
+  }
+
+  private appendLive(history: ConnectionRecord[]): void {
+    const newest = this.records()[this.records().length - 1]?.timestamp.getTime() ?? 0;
+    const added = history.filter(record => record.timestamp.getTime() > newest);
+    if (added.length === 0) return;
+
+    const now = Date.now();
+    const from = now - RANGE_DURATIONS[this.selectedRange()];
+    this.now.set(now);
+    this.records.update(records =>
+      [...records, ...added].filter(record => record.timestamp.getTime() >= from)
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { Component, inject, ChangeDetectionStrategy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  MaintenanceService,
+  MaintenanceWindow,
+  WEEKDAY_NAMES,
+  describeWindow
+} from '../../services/maintenance.service';
+
+// Form model: dates are edited through datetime-local inputs
+interface WindowDraft {
+  label: string;
+  kind: MaintenanceWindow['kind'];
+  days: boolean[];
+  startTime: string;
+  durationMinutes: number;
+  start: string;
+  end: string;
+}
+
+interface ExclusionDraft {
+  from: string;
+  to: string;
+  note: string;
+}
+
+@Component({
+  selector: 'app-maintenance-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './maintenance-settings.component.html'
+})
+export class MaintenanceSettingsComponent {
+  private maintenance = inject(MaintenanceService);
+
+  readonly windows = this.maintenance.windows;
+  readonly excluded = this.maintenance.excluded;
+  readonly weekdays = WEEKDAY_NAMES;
+  readonly windowErrors = signal<string[]>([]);
+  readonly exclusionErrors = signal<string[]>([]);
+
+  windowDraft: WindowDraft = emptyWindowDraft();
+  exclusionDraft: ExclusionDraft = { from: '', to: '', note: '' };
+
+  describe(window: MaintenanceWindow): string {
+    return describeWindow(window);
+  }
+
+  addWindow(): void {
+    const draft = this.windowDraft;
+    const errors = draft.kind === 'weekly'
+      ? this.maintenance.addWindow({
+          kind: 'weekly',
+          label: draft.label,
+          enabled: true,
+          days: draft.days.flatMap((checked, day) => checked ? [day] : []),
+          startTime: draft.startTime,
+          durationMinutes: Number(draft.durationMinutes)
+        })
+      : this.maintenance.addWindow({
+          kind: 'once',
+          label: draft.label,
+          enabled: true,
+          start: new Date(draft.start),
+          end: new Date(draft.end)
+        });
+
+    this.windowErrors.set(errors);
+    if (errors.length === 0) this.windowDraft = emptyWindowDraft();
+  }
+
+  setEnabled(window: MaintenanceWindow, enabled: boolean): void {
+    this.maintenance.setWindowEnabled(window.id, enabled);
+  }
+
+  removeWindow(window: MaintenanceWindow): void {
+    if (confirm(`Remove the "${window.label}" maintenance window?`)) {
+      this.maintenance.removeWindow(window.id);
+    }
+  }
+
+  // Values come from datetime-local inputs, in local time
+  addExclusion(): void {
+    const draft = this.exclusionDraft;
+    const errors = this.maintenance.exclude(new Date(draft.from), new Date(draft.to), draft.note);
+    this.exclusionErrors.set(errors);
+    if (errors.length === 0) this.exclusionDraft = { from: '', to: '', note: '' };
+  }
+
+  removeExclusion(id: string): void {
+    this.maintenance.removeExclusion(id);
+  }
+}
+
+// Sundays 02:00-03:00, a typical ISP maintenance slot
+function emptyWindowDraft(): WindowDraft {
+  return {
+    label: '',
+    kind: 'weekly',
+    days: WEEKDAY_NAMES.map((_, day) => day === 0),
+    startTime: '02:00',
+    durationMinutes: 60,
+    start: '',
+    end: ''
+  };
+}
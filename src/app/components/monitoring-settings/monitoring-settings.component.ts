@@ -0,0 +1,119 @@
+import { Component, inject, ChangeDetectionStrategy, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SettingsService, MonitorSettings } from '../../services/settings.service';
+import { HiddenTabBehavior } from '../../services/check-scheduler';
+import { NetworkInfoService, describeNetwork } from '../../services/network-info.service';
+import { PwaService } from '../../services/pwa.service';
+
+// Durations are edited in seconds but stored in milliseconds
+type DurationSetting = 'checkIntervalMs' | 'offlineRetryMs' | 'offlineRetryMaxMs' | 'hiddenIntervalMs' | 'constrainedIntervalMs';
+
+const MIN_DURATION_SECONDS = 1;
+
+@Component({
+  selector: 'app-monitoring-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './monitoring-settings.component.html'
+})
+export class MonitoringSettingsComponent {
+  private settingsService = inject(SettingsService);
+
+  private networkInfo = inject(NetworkInfoService);
+  private pwa = inject(PwaService);
+
+  readonly settings = this.settingsService.settings;
+  readonly isNetworkInfoSupported = this.networkInfo.isSupported;
+  readonly isConstrained = this.networkInfo.isConstrained;
+  readonly isPwaSupported = this.pwa.isSupported;
+  readonly backgroundChecks = this.pwa.backgroundChecks;
+  readonly mergedChecks = this.pwa.mergedChecks;
+  readonly network = computed(() => {
+    const info = this.networkInfo.info();
+    return info ? describeNetwork(info) : null;
+  });
+  readonly hiddenBehaviors: { value: HiddenTabBehavior; label: string }[] = [
+    { value: 'normal', label: 'Keep the normal interval' },
+    { value: 'slow', label: 'Slow down' },
+    { value: 'pause', label: 'Pause until visible' }
+  ];
+
+  readonly seconds = computed(() => {
+    const settings = this.settings();
+    return {
+      checkIntervalMs: settings.checkIntervalMs / 1000,
+      offlineRetryMs: settings.offlineRetryMs / 1000,
+      offlineRetryMaxMs: settings.offlineRetryMaxMs / 1000,
+      hiddenIntervalMs: settings.hiddenIntervalMs / 1000,
+      constrainedIntervalMs: settings.constrainedIntervalMs / 1000
+    };
+  });
+
+  readonly quality = computed(() => {
+    const settings = this.settings();
+    return {
+      payloadMegabytes: settings.qualityPayloadBytes / (1000 * 1000),
+      lossWindowMinutes: settings.qualityLossWindowMs / 60000,
+      intervalMinutes: settings.qualityIntervalMs / 60000
+    };
+  });
+
+  setDuration(key: DurationSetting, seconds: number | null): void {
+    if (seconds === null || !Number.isFinite(seconds) || seconds < MIN_DURATION_SECONDS) return;
+    this.update({ [key]: Math.round(seconds * 1000) });
+  }
+
+  setQualityUrl(key: 'qualityDownloadUrl' | 'qualityUploadUrl', url: string): void {
+    if (!/^https?:\/\//.test(url.trim())) return;
+    this.update({ [key]: url.trim() });
+  }
+
+  setQualityPayload(megabytes: number | null): void {
+    if (megabytes === null || !Number.isFinite(megabytes) || megabytes <= 0) return;
+    this.update({ qualityPayloadBytes: Math.round(megabytes * 1000 * 1000) });
+  }
+
+  setQualityBurstSize(size: number | null): void {
+    if (size === null || !Number.isFinite(size) || size < 2) return;
+    this.update({ qualityBurstSize: Math.round(size) });
+  }
+
+  // 0 minutes turns automatic quality tests off
+  setQualityMinutes(key: 'qualityLossWindowMs' | 'qualityIntervalMs', minutes: number | null): void {
+    const minimum = key === 'qualityIntervalMs' ? 0 : 1;
+    if (minutes === null || !Number.isFinite(minutes) || minutes < minimum) return;
+    this.update({ [key]: Math.round(minutes * 60 * 1000) });
+  }
+
+  // The warning threshold has to stay below the critical one
+  setLatencyThreshold(key: 'latencyWarningMs' | 'latencyCriticalMs', ms: number | null): void {
+    if (ms === null || !Number.isFinite(ms) || ms < 1) return;
+    const { latencyWarningMs, latencyCriticalMs } = this.settings();
+    const thresholds = { latencyWarningMs, latencyCriticalMs, [key]: Math.round(ms) };
+    if (thresholds.latencyWarningMs >= thresholds.latencyCriticalMs) return;
+    this.update(thresholds);
+  }
+
+  setQuorum(endpoints: number | null): void {
+    if (endpoints === null || !Number.isFinite(endpoints) || endpoints < 1) return;
+    this.update({ quorumMinEndpoints: Math.round(endpoints) });
+  }
+
+  setConstrainedBackoff(constrainedBackoff: boolean): void {
+    this.update({ constrainedBackoff });
+  }
+
+  setHiddenBehavior(hiddenBehavior: HiddenTabBehavior): void {
+    this.update({ hiddenBehavior });
+  }
+
+  update(changes: Partial<MonitorSettings>): void {
+    this.settingsService.update(changes);
+  }
+
+  reset(): void {
+    this.settingsService.reset();
+  }
+}
@@ -1,91 +1,304 @@
-import { Component, inject, ChangeDetectionStrategy, signal, computed } from '@angular/core';
+import { Component, inject, ChangeDetectionStrategy, signal, computed, effect, untracked, input, output } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ConnectivityService } from '../../services/connectivity.service';
+import { FormsModule } from '@angular/forms';
+import { ConnectivityService, ConnectionRecord } from '../../services/connectivity.service';
+import { HistoryStoreService } from '../../services/history-store.service';
+import { StatsService, ConnectionStats } from '../../services/stats.service';
+import { SettingsService, LatencyLevel, latencyLevel } from '../../services/settings.service';
+import {
+  NetworkInfoService,
+  connectionKind,
+  connectionLabel,
+  describeNetwork
+} from '../../services/network-info.service';
+import { HistoryExportService, ExportFormat, ImportSummary, mimeType } from '../../services/history-export.service';
+import { MaintenanceService } from '../../services/maintenance.service';
+import { downloadFile } from '../../utils/download';
+import { ConnectionQualityComponent } from '../connection-quality/connection-quality.component';
+import { TimingBreakdownComponent } from '../timing-breakdown/timing-breakdown.component';
+import { LatencyChartComponent, LATENCY_LEVELS } from '../latency-chart/latency-chart.component';
 
-interface PerformanceBar {
-  height: number;
-  color: string;
-  label: string;
+// 'session' uses the in-memory counters, the rest query the persisted history
+export type StatsWindow = 'session' | '1h' | '24h' | '7d' | '30d' | 'custom';
+
+// `from` and `to` are only used by the custom window
+export interface StatsRange {
+  window: StatsWindow;
+  from?: Date;
+  to?: Date;
+}
+
+const WINDOW_DURATIONS: Record<Exclude<StatsWindow, 'session' | 'custom'>, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+const HISTORY_PAGE_SIZE = 10;
+
+interface CheckEntry {
+  status: 'online' | 'offline';
+  responseTime: number | null;
+  level: LatencyLevel | null;
+  connection: string | null;
+  // Why the check doesn't count toward uptime, e.g. its maintenance window
+  excluded: string | null;
+  // Run by the service worker while the app was closed
+  background: boolean;
+}
+
+// A check or a change of the network link; exactly one of the two is set
+interface HistoryEntry {
+  timestamp: Date;
+  check?: CheckEntry;
+  networkChange?: string;
 }
 
 @Component({
   selector: 'app-network-stats',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule, ConnectionQualityComponent, TimingBreakdownComponent, LatencyChartComponent],
   changeDetection: ChangeDetectionStrategy.OnPush,
   templateUrl: './network-stats.component.html'
 })
 export class NetworkStatsComponent {
   private connectivityService = inject(ConnectivityService);
+  private historyStore = inject(HistoryStoreService);
+  private historyExport = inject(HistoryExportService);
+  private settings = inject(SettingsService).settings;
+  private statsService = inject(StatsService);
+  private networkInfo = inject(NetworkInfoService);
+  private maintenance = inject(MaintenanceService);
+
+  readonly windows: { value: StatsWindow; label: string }[] = [
+    { value: 'session', label: 'Session' },
+    { value: '1h', label: '1h' },
+    { value: '24h', label: '24h' },
+    { value: '7d', label: '7d' },
+    { value: '30d', label: '30d' },
+    { value: 'custom', label: 'Custom' }
+  ];
+  // Owned by the host so the range can live in the URL
+  readonly range = input<StatsRange>({ window: 'session' });
+  readonly rangeChange = output<StatsRange>();
+  readonly selectedWindow = computed(() => this.range().window);
+  readonly customRange = computed(() => {
+    const range = this.range();
+    return range.window === 'custom' && range.from && range.to
+      ? { from: toDateTimeInput(range.from), to: toDateTimeInput(range.to) }
+      : null;
+  });
+  // Windows without a rolling counterpart are computed from the store on demand
+  readonly storedStats = signal<ConnectionStats | null>(null);
+  readonly storedByConnection = signal<Map<string, ConnectionStats>>(new Map());
+  readonly windowRecords = signal<ConnectionRecord[]>([]);
+  readonly nextCursor = signal<number | null>(null);
+
+  readonly exportFormats: { value: ExportFormat; label: string }[] = [
+    { value: 'csv', label: 'CSV' },
+    { value: 'json', label: 'JSON' },
+    { value: 'ndjson', label: 'NDJSON' }
+  ];
+  readonly exportFormat = signal<ExportFormat>('csv');
+  readonly isTransferring = signal<boolean>(false);
+  readonly importSummary = signal<ImportSummary | null>(null);
+
+  // null shows every connection type
+  readonly connectionFilter = signal<string | null>(null);
+
+  readonly byConnection = computed(() =>
+    this.selectedWindow() === 'session' ? this.statsService.sessionByConnection() : this.storedByConnection()
+  );
+  readonly connections = computed(() =>
+    [...this.byConnection()].map(([kind, stats]) => ({ kind, label: connectionLabel(kind), stats }))
+  );
 
-  readonly uptimePercentage = this.connectivityService.uptimePercentage;
-  readonly averageResponseTime = this.connectivityService.averageResponseTime;
-  readonly totalChecks = this.connectivityService.totalChecks;
-  readonly successfulChecks = this.connectivityService.successfulChecks;
+  readonly stats = computed((): ConnectionStats | null => {
+    const filter = this.connectionFilter();
+    if (filter !== null) return this.byConnection().get(filter) ?? null;
+
+    switch (this.selectedWindow()) {
+      case 'session': return this.statsService.session();
+      case '1h': return this.statsService.hour();
+      case '24h': return this.statsService.day();
+      case '7d': return this.statsService.week();
+      default: return this.storedStats();
+    }
+  });
+
+  readonly latencyLevels = LATENCY_LEVELS;
+  readonly averageLevel = computed(() => {
+    const average = this.stats()?.mean;
+    return average ? latencyLevel(average, this.settings()) : null;
+  });
 
   readonly currentStatus = computed(() => {
     return this.connectivityService.isOnline() ? 'Online' : 'Offline';
   });
 
-  readonly successRate = this.connectivityService.successRate;
+  // Newest first
+  readonly displayedRecords = computed(() => {
+    const filter = this.connectionFilter();
+    const records = this.selectedWindow() === 'session'
+      ? this.connectivityService.connectionHistory().slice().reverse()
+      : this.windowRecords();
+    const matching = filter === null ? records : records.filter(record => connectionKind(record.network) === filter);
+    return this.selectedWindow() === 'session' ? matching.slice(0, 10) : matching;
+  });
 
-  readonly connectionHistorySignal = computed(() => {
-    return this.connectivityService.connectionHistory().slice(-10).reverse().map(record => ({
+  // Checks interleaved with the network changes between them, newest first
+  readonly connectionHistorySignal = computed((): HistoryEntry[] => {
+    const records = this.displayedRecords();
+    const checks = records.map((record): HistoryEntry => ({
       timestamp: record.timestamp,
-      status: record.isOnline ? 'online' : 'offline',
-      responseTime: record.responseTime
+      check: {
+        status: record.isOnline ? 'online' : 'offline',
+        responseTime: record.responseTime,
+        level: record.isOnline && record.responseTime ? latencyLevel(record.responseTime, this.settings()) : null,
+        connection: record.network?.type ? connectionLabel(record.network.type) : null,
+        excluded: this.maintenance.exclusionReason(record),
+        background: record.background ?? false
+      }
     }));
+    if (records.length === 0) return checks;
+
+    const newest = records[0].timestamp.getTime();
+    const oldest = records[records.length - 1].timestamp.getTime();
+    const changes = this.networkInfo.changes()
+      .filter(change => change.timestamp.getTime() >= oldest && change.timestamp.getTime() <= newest)
+      .map((change): HistoryEntry => ({
+        timestamp: change.timestamp,
+        networkChange: describeNetwork(change.to) || 'Connection details changed'
+      }));
+    return [...checks, ...changes].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   });
 
-  readonly performanceData = computed((): PerformanceBar[] => {
-    const history = this.connectivityService.connectionHistory().slice(-6);
-    return history.map((record, index) => {
-      const height = record.responseTime ? Math.min(100, Math.max(10, 100 - (record.responseTime / 10))) : 10;
-      const color = record.responseTime
-        ? record.responseTime < 50
-          ? 'linear-gradient(to top, #34d399, #059669)'
-          : record.responseTime < 100
-            ? 'linear-gradient(to top, #fbbf24, #d97706)'
-            : 'linear-gradient(to top, #ef4444, #dc2626)'
-        : 'linear-gradient(to top, #6b7280, #4b5563)';
-
-      return {
-        height,
-        color,
-        label: `${index + 1}`
-      };
+  constructor() {
+    // Reload the selected window whenever it changes or a new check lands
+    effect(() => {
+      const range = this.range();
+      this.connectivityService.connectionHistory();
+      this.historyStore.revision();
+      untracked(() => this.loadWindow(range));
     });
-  });
+  }
 
-  readonly recentConnections = computed(() => {
-    return this.connectivityService.connectionHistory().slice(-10).reverse();
-  });
+  selectWindow(selected: StatsWindow): void {
+    if (selected !== 'custom') {
+      this.rangeChange.emit({ window: selected });
+      return;
+    }
+    // Start a custom range from the last 24 hours
+    const to = new Date();
+    this.rangeChange.emit({ window: 'custom', from: new Date(to.getTime() - WINDOW_DURATIONS['24h']), to });
+  }
 
-  readonly responseTimeHistory = computed(() => {
-    return this.connectivityService.connectionHistory()
-      .filter(r => r.isOnline && r.responseTime)
-      .slice(-20)
-      .map(r => r.responseTime || 0);
-  });
+  filterConnection(kind: string | null): void {
+    this.connectionFilter.set(this.connectionFilter() === kind ? null : kind);
+  }
 
-  readonly peakResponseTime = computed(() => {
-    const responseTimes = this.connectivityService.connectionHistory()
-      .filter(r => r.isOnline && r.responseTime)
-      .map(r => r.responseTime || 0);
-    return responseTimes.length > 0 ? Math.max(...responseTimes) : 0;
-  });
+  // Values come from datetime-local inputs, in local time
+  setCustomRange(from: string, to: string): void {
+    const range = { window: 'custom' as const, from: new Date(from), to: new Date(to) };
+    if (Number.isNaN(range.from.getTime()) || Number.isNaN(range.to.getTime()) || range.from >= range.to) return;
+    this.rangeChange.emit(range);
+  }
 
-  readonly minResponseTime = computed(() => {
-    const responseTimes = this.connectivityService.connectionHistory()
-      .filter(r => r.isOnline && r.responseTime)
-      .map(r => r.responseTime || 0);
-    return responseTimes.length > 0 ? Math.min(...responseTimes) : 0;
-  });
+  // Exports the stored history of the selected window
+  async exportWindow(): Promise<void> {
+    const format = this.exportFormat();
+    const { from, to } = this.exportRange();
+
+    this.isTransferring.set(true);
+    try {
+      const content = await this.historyExport.export(from, to, format);
+      const stamp = to.toISOString().slice(0, 16).replace(/:/g, '-');
+      downloadFile(`am-i-online-history-${stamp}.${format}`, content, mimeType(format));
+    } finally {
+      this.isTransferring.set(false);
+    }
+  }
+
+  async importFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Allow picking the same file again later
+    input.value = '';
+    if (!file) return;
 
-  getBarHeight(responseTime: number): number {
-    // Normalize response time to percentage (0-100ms = 100%, 1000ms+ = 10%)
-    const maxTime = 1000;
-    const percentage = Math.max(10, Math.min(100, ((maxTime - responseTime) / maxTime) * 100));
-    return percentage;
+    this.isTransferring.set(true);
+    try {
+      this.importSummary.set(await this.historyExport.import(await file.text()));
+    } finally {
+      this.isTransferring.set(false);
+    }
   }
+
+  dismissImportSummary(): void {
+    this.importSummary.set(null);
+  }
+
+  async loadOlder(): Promise<void> {
+    const range = this.range();
+    const cursor = this.nextCursor();
+    if (range.window === 'session' || cursor === null) return;
+
+    const { from, to } = this.windowRange(range);
+    const page = await this.historyStore.queryPage(from, to, HISTORY_PAGE_SIZE, cursor);
+    this.windowRecords.update(records => [...records, ...page.records]);
+    this.nextCursor.set(page.nextCursor);
+  }
+
+  private async loadWindow(range: StatsRange): Promise<void> {
+    if (range.window === 'session') {
+      this.storedStats.set(null);
+      this.storedByConnection.set(new Map());
+      this.windowRecords.set([]);
+      this.nextCursor.set(null);
+      return;
+    }
+
+    const { from, to } = this.windowRange(range);
+    const rolling = range.window === '1h' || range.window === '24h' || range.window === '7d';
+    const [stats, byConnection, page] = await Promise.all([
+      rolling ? null : this.statsService.statsFor(from, to),
+      this.statsService.connectionStatsFor(from, to),
+      this.historyStore.queryPage(from, to, HISTORY_PAGE_SIZE)
+    ]);
+
+    // Ignore results for a window the user has already switched away from
+    if (this.range() !== range) return;
+    this.storedStats.set(stats);
+    this.storedByConnection.set(byConnection);
+    this.windowRecords.set(page.records);
+    this.nextCursor.set(page.nextCursor);
+  }
+
+
+  // The session window covers the checks held in memory
+  private exportRange(): { from: Date; to: Date } {
+    const range = this.range();
+    if (range.window !== 'session') return this.windowRange(range);
+
+    const to = new Date();
+    const first = this.connectivityService.connectionHistory()[0];
+    return { from: first?.timestamp ?? to, to };
+  }
+
+  private windowRange(range: StatsRange): { from: Date; to: Date } {
+    if (range.window === 'custom') {
+      const to = range.to ?? new Date();
+      return { from: range.from ?? new Date(to.getTime() - WINDOW_DURATIONS['24h']), to };
+    }
+    const to = new Date();
+    const duration = range.window === 'session' ? 0 : WINDOW_DURATIONS[range.window];
+    return { from: new Date(to.getTime() - duration), to };
+  }
+}
+
+// yyyy-MM-ddTHH:mm in local time, as datetime-local inputs expect
+function toDateTimeInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
 }
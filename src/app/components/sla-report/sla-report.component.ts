@@ -0,0 +1,137 @@
+import { Component, inject, ChangeDetectionStrategy, signal, computed, effect, untracked, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { HistoryStoreService } from '../../services/history-store.service';
+import {
+  SlaReportService,
+  SlaReport,
+  SlaReportOptions,
+  DEFAULT_SLA_TARGET,
+  renderSlaReportHtml
+} from '../../services/sla-report.service';
+import { DurationPipe } from '../../pipes/duration.pipe';
+import { downloadFile } from '../../utils/download';
+
+type ReportPreset = 'this-month' | 'last-month' | 'last-30d';
+
+@Component({
+  selector: 'app-sla-report',
+  standalone: true,
+  imports: [CommonModule, FormsModule, DurationPipe],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './sla-report.component.html'
+})
+export class SlaReportComponent {
+  private slaReports = inject(SlaReportService);
+  private historyStore = inject(HistoryStoreService);
+
+  readonly presets: { value: ReportPreset; label: string }[] = [
+    { value: 'this-month', label: 'This month' },
+    { value: 'last-month', label: 'Last month' },
+    { value: 'last-30d', label: 'Last 30 days' }
+  ];
+  readonly targets = [99, 99.5, 99.9, 99.95, 99.99];
+
+  // Owned by the host so the period can live in the URL; `to` is exclusive
+  readonly options = input<SlaReportOptions>({ from: new Date(), to: new Date(), targetPercent: DEFAULT_SLA_TARGET });
+  readonly optionsChange = output<SlaReportOptions>();
+  // Date inputs show the last included day
+  readonly fromDay = computed(() => toDateInput(this.options().from));
+  readonly toDay = computed(() => toDateInput(new Date(this.options().to.getTime() - 1)));
+
+  readonly report = signal<SlaReport | null>(null);
+  readonly isGenerating = signal<boolean>(false);
+
+  // Bar widths for the daily breakdown, scaled from the worst day up to 100%
+  readonly dailyBars = computed(() => {
+    const days = this.report()?.daily ?? [];
+    const uptimes = days.map(day => day.uptime).filter((uptime): uptime is number => uptime !== null);
+    const floor = Math.min(this.options().targetPercent, ...uptimes) - 0.1;
+    return days.map(day => ({
+      ...day,
+      width: day.uptime !== null ? Math.max(2, ((day.uptime - floor) / (100 - floor)) * 100) : 0,
+      belowTarget: day.uptime !== null && day.uptime < this.options().targetPercent
+    }));
+  });
+
+  constructor() {
+    effect(() => {
+      const options = this.options();
+      this.historyStore.revision();
+      untracked(() => this.generate(options));
+    });
+  }
+
+  applyPreset(preset: ReportPreset): void {
+    const now = new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const { targetPercent } = this.options();
+
+    switch (preset) {
+      case 'this-month':
+        this.optionsChange.emit({ from: new Date(now.getFullYear(), now.getMonth(), 1), to: addDays(today, 1), targetPercent });
+        break;
+      case 'last-month':
+        this.optionsChange.emit({
+          from: new Date(now.getFullYear(), now.getMonth() - 1, 1),
+          to: new Date(now.getFullYear(), now.getMonth(), 1),
+          targetPercent
+        });
+        break;
+      case 'last-30d':
+        this.optionsChange.emit({ from: addDays(today, -29), to: addDays(today, 1), targetPercent });
+        break;
+    }
+  }
+
+  // Values come from date inputs; both days are included
+  setPeriod(from: string, to: string): void {
+    const fromDate = parseDateInput(from);
+    const toDate = parseDateInput(to);
+    if (!fromDate || !toDate || fromDate > toDate) return;
+    this.optionsChange.emit({ ...this.options(), from: fromDate, to: addDays(toDate, 1) });
+  }
+
+  setTarget(value: number | string): void {
+    const targetPercent = Number(value);
+    if (!(targetPercent > 0 && targetPercent < 100)) return;
+    this.optionsChange.emit({ ...this.options(), targetPercent });
+  }
+
+  print(): void {
+    window.print();
+  }
+
+  download(): void {
+    const report = this.report();
+    if (!report) return;
+    const fileName = `am-i-online-sla-${toDateInput(report.from)}-to-${this.toDay()}.html`;
+    downloadFile(fileName, renderSlaReportHtml(report), 'text/html');
+  }
+
+  private async generate(options: SlaReportOptions): Promise<void> {
+    this.isGenerating.set(true);
+    try {
+      const report = await this.slaReports.generate(options);
+      // Ignore a report for a period the user has already switched away from
+      if (this.options() === options) this.report.set(report);
+    } finally {
+      this.isGenerating.set(false);
+    }
+  }
+}
+
+// yyyy-MM-dd in local time, as date inputs expect
+function toDateInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
+function parseDateInput(value: string): Date | null {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : null;
+}
+
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+}
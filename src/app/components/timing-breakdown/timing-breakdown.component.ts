@@ -0,0 +1,59 @@
+import { Component, ChangeDetectionStrategy, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConnectionRecord } from '../../services/connectivity.service';
+import { ProbeTiming, TimingPhase, TIMING_PHASES, diagnoseTimings, winnerTiming } from '../../services/probe-timing';
+
+interface TimingRow {
+  timestamp: Date;
+  endpoint: string | null;
+  timing: ProbeTiming;
+  // Segment widths as percentages of the slowest check shown
+  segments: { phase: TimingPhase; width: number }[];
+  width: number;
+}
+
+// Checks shown in the breakdown
+const BREAKDOWN_SIZE = 10;
+
+export const TIMING_PHASE_STYLES: Record<TimingPhase, { label: string; barClass: string }> = {
+  dns: { label: 'DNS', barClass: 'bg-sky-400' },
+  connect: { label: 'Connect', barClass: 'bg-indigo-400' },
+  tls: { label: 'TLS', barClass: 'bg-purple-400' },
+  request: { label: 'Waiting (TTFB)', barClass: 'bg-pink-400' },
+  response: { label: 'Download', barClass: 'bg-amber-300' }
+};
+
+@Component({
+  selector: 'app-timing-breakdown',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './timing-breakdown.component.html'
+})
+export class TimingBreakdownComponent {
+  // Newest first, as shown in the connection history
+  readonly records = input.required<ConnectionRecord[]>();
+
+  readonly phases = TIMING_PHASES;
+  readonly styles = TIMING_PHASE_STYLES;
+
+  readonly rows = computed((): TimingRow[] => {
+    const timed = this.records()
+      .map(record => ({ record, timing: winnerTiming(record) }))
+      .filter((entry): entry is { record: ConnectionRecord; timing: ProbeTiming } => entry.timing !== null)
+      .slice(0, BREAKDOWN_SIZE);
+    const max = Math.max(1, ...timed.map(({ timing }) => timing.total));
+
+    return timed.map(({ record, timing }) => ({
+      timestamp: record.timestamp,
+      endpoint: record.endpoint,
+      timing,
+      segments: timing.detailed
+        ? TIMING_PHASES.map(phase => ({ phase, width: (timing.phases[phase] / max) * 100 }))
+        : [],
+      width: (timing.total / max) * 100
+    }));
+  });
+
+  readonly diagnosis = computed(() => diagnoseTimings(this.records()));
+}
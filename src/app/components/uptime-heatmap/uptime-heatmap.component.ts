@@ -0,0 +1,186 @@
+import { Component, inject, ChangeDetectionStrategy, signal, computed, effect, untracked, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConnectionRecord } from '../../services/connectivity.service';
+import { HistoryStoreService, HourlyAggregate } from '../../services/history-store.service';
+import { MaintenanceService, WEEKDAY_NAMES } from '../../services/maintenance.service';
+import { SettingsService, latencyLevel } from '../../services/settings.service';
+import {
+  HeatmapCell,
+  HeatmapZoom,
+  HourOfWeekSlot,
+  RecurringPeriod,
+  describePeriod,
+  heatmapCells,
+  hourOfWeek,
+  isBadHour,
+  isRecurring,
+  recurringBadPeriods
+} from '../../services/uptime-heatmap';
+import { LATENCY_LEVELS } from '../latency-chart/latency-chart.component';
+
+export type HeatmapColor = 'availability' | 'latency';
+
+// Days shown one cell per hour
+const HOUR_VIEW_DAYS = 14;
+// Weeks shown one cell per day, and analysed for recurring bad hours; the
+// default retention keeps aggregates this long
+const DAY_VIEW_WEEKS = 13;
+
+// A cell takes the first step its availability reaches
+const AVAILABILITY_STEPS = [
+  { min: 99.9, label: '≥ 99.9%', cellClass: 'bg-green-400' },
+  { min: 99, label: '≥ 99%', cellClass: 'bg-lime-400' },
+  { min: 95, label: '≥ 95%', cellClass: 'bg-yellow-400' },
+  { min: 0, label: '< 95%', cellClass: 'bg-red-400' }
+];
+const EMPTY_CELL_CLASS = 'bg-white/5';
+
+interface HeatmapRow {
+  day: Date;
+  cells: HeatmapCell[];
+}
+
+// Availability and latency at a glance, one cell per hour or, zoomed out, per
+// day. Recurring bad hours of the week are picked out automatically.
+@Component({
+  selector: 'app-uptime-heatmap',
+  standalone: true,
+  imports: [CommonModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './uptime-heatmap.component.html'
+})
+export class UptimeHeatmapComponent {
+  private historyStore = inject(HistoryStoreService);
+  private maintenance = inject(MaintenanceService);
+  private settings = inject(SettingsService).settings;
+
+  // Emitted when a cell is clicked, to list its checks
+  readonly periodSelect = output<{ from: Date; to: Date }>();
+
+  readonly zoomOptions: { value: HeatmapZoom; label: string }[] = [
+    { value: 'hour', label: 'Hours' },
+    { value: 'day', label: 'Days' }
+  ];
+  readonly colorOptions: { value: HeatmapColor; label: string }[] = [
+    { value: 'availability', label: 'Availability' },
+    { value: 'latency', label: 'Median latency' }
+  ];
+  readonly zoom = signal<HeatmapZoom>('hour');
+  readonly color = signal<HeatmapColor>('availability');
+  readonly isLoading = signal<boolean>(true);
+  readonly weekdays = WEEKDAY_NAMES;
+  readonly hours = Array.from({ length: 24 }, (_, hour) => hour);
+  readonly availabilitySteps = AVAILABILITY_STEPS;
+  readonly latencyLevels = Object.values(LATENCY_LEVELS);
+  readonly analysedWeeks = DAY_VIEW_WEEKS;
+
+  private records = signal<ConnectionRecord[]>([]);
+  private aggregates = signal<HourlyAggregate[]>([]);
+  private loadedRange = signal<{ from: Date; to: Date }>(viewRange(new Date()));
+
+  private hourCells = computed(() => {
+    const { from, to } = this.loadedRange();
+    return heatmapCells(this.records(), this.aggregates(), from, to, 'hour');
+  });
+
+  // Hour zoom: one row per day, newest last
+  readonly hourRows = computed((): HeatmapRow[] => {
+    const to = this.loadedRange().to;
+    const since = new Date(to.getFullYear(), to.getMonth(), to.getDate() - HOUR_VIEW_DAYS + 1);
+    const rows = new Map<string, HeatmapRow>();
+    for (const cell of this.hourCells()) {
+      if (cell.start < since) continue;
+      const key = cell.start.toDateString();
+      const row = rows.get(key) ?? { day: new Date(cell.start.getFullYear(), cell.start.getMonth(), cell.start.getDate()), cells: [] };
+      row.cells.push(cell);
+      rows.set(key, row);
+    }
+    return [...rows.values()];
+  });
+
+  // Day zoom: laid out in weekday rows, so it starts with blanks before the first day
+  readonly dayCells = computed(() => {
+    const { from, to } = this.loadedRange();
+    return heatmapCells(this.records(), this.aggregates(), from, to, 'day');
+  });
+  readonly leadingBlanks = computed(() => Array.from({ length: this.dayCells()[0]?.start.getDay() ?? 0 }));
+
+  readonly slots = computed((): HourOfWeekSlot[] => {
+    const slowMs = this.settings().latencyWarningMs;
+    return hourOfWeek(this.hourCells(), cell => isBadHour(cell, slowMs));
+  });
+  readonly recurring = computed(() => recurringBadPeriods(this.slots()));
+
+  constructor() {
+    // Reload when the stored history is replaced or periods are excluded from it
+    effect(() => {
+      this.historyStore.revision();
+      this.maintenance.excluded();
+      untracked(() => this.load());
+    });
+  }
+
+  setZoom(zoom: HeatmapZoom): void {
+    this.zoom.set(zoom);
+  }
+
+  setColor(color: HeatmapColor): void {
+    this.color.set(color);
+  }
+
+  select(cell: HeatmapCell): void {
+    if (cell.totalChecks > 0) this.periodSelect.emit({ from: cell.start, to: cell.end });
+  }
+
+  cellClass(cell: HeatmapCell): string {
+    if (this.color() === 'latency') {
+      return cell.medianLatency !== null
+        ? LATENCY_LEVELS[latencyLevel(cell.medianLatency, this.settings())].dotClass
+        : EMPTY_CELL_CLASS;
+    }
+    if (cell.availability === null) return EMPTY_CELL_CLASS;
+    return AVAILABILITY_STEPS.find(step => cell.availability! >= step.min)!.cellClass;
+  }
+
+  // Recurring slots stand out; the rest fade with their share of bad weeks
+  slotOpacity(slot: HourOfWeekSlot): number {
+    if (slot.occurrences === 0) return 0;
+    return isRecurring(slot) ? 1 : 0.15 + 0.5 * (slot.badOccurrences / slot.occurrences);
+  }
+
+  describe(period: RecurringPeriod): string {
+    return describePeriod(period);
+  }
+
+  cellTitle(cell: HeatmapCell): string {
+    const when = this.zoom() === 'hour'
+      ? cell.start.toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+      : cell.start.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+    if (cell.totalChecks === 0) return `${when} · no checks`;
+    const latency = cell.medianLatency !== null ? ` · ${cell.medianLatency}ms median` : '';
+    return `${when} · ${cell.availability}% up · ${cell.failedChecks} of ${cell.totalChecks} checks failed${latency}`;
+  }
+
+  private async load(): Promise<void> {
+    const range = viewRange(new Date());
+    this.isLoading.set(true);
+    try {
+      const [records, aggregates] = await Promise.all([
+        this.historyStore.queryRange(range.from, range.to),
+        this.historyStore.queryAggregates(range.from, range.to)
+      ]);
+      this.records.set(this.maintenance.countedRecords(records));
+      this.aggregates.set(this.maintenance.countedAggregates(aggregates));
+      this.loadedRange.set(range);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+}
+
+// Whole days, from the start of the week DAY_VIEW_WEEKS - 1 weeks ago up to now
+function viewRange(now: Date): { from: Date; to: Date } {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - (DAY_VIEW_WEEKS - 1) * 7);
+  return { from, to: now };
+}
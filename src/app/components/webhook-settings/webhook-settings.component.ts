@@ -0,0 +1,107 @@
+import { Component, inject, ChangeDetectionStrategy, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import {
+  WebhookService,
+  WebhookSettings,
+  WebhookPayload,
+  DeliveryStatus,
+  TEMPLATE_FIELDS,
+  renderTemplate
+} from '../../services/webhook.service';
+
+type WebhookEventOption = WebhookSettings['events'][number];
+
+// Rendered in the template preview
+const SAMPLE_PAYLOAD: WebhookPayload = {
+  event: 'recovered',
+  timestamp: '2025-01-01T10:05:00.000Z',
+  state: 'online',
+  incident: { start: '2025-01-01T10:00:00.000Z', duration: 5 * 60 * 1000, lastError: 'All connectivity endpoints failed' },
+  endpoints: [
+    { endpoint: 'Google', success: true, responseTime: 42, error: null },
+    { endpoint: 'Cloudflare', success: true, responseTime: 57, error: null }
+  ],
+  reasons: []
+};
+
+export const DELIVERY_STATUS_STYLES: Record<DeliveryStatus, { label: string; textClass: string }> = {
+  pending: { label: 'Queued', textClass: 'text-yellow-300' },
+  delivered: { label: 'Delivered', textClass: 'text-green-400' },
+  failed: { label: 'Failed', textClass: 'text-red-400' }
+};
+
+@Component({
+  selector: 'app-webhook-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './webhook-settings.component.html'
+})
+export class WebhookSettingsComponent {
+  private webhookService = inject(WebhookService);
+
+  readonly settings = this.webhookService.settings;
+  readonly deliveries = this.webhookService.deliveries;
+  readonly statusStyles = DELIVERY_STATUS_STYLES;
+  // Spelled out here since braces in the template would be read as bindings
+  readonly templateFields = ['payload', ...TEMPLATE_FIELDS].map(field => `{{${field}}}`);
+  readonly templatePlaceholder = '{"text": "{{summary}}"}';
+  readonly events: { value: WebhookEventOption; label: string }[] = [
+    { value: 'offline', label: 'Connection lost' },
+    { value: 'recovered', label: 'Connection restored' },
+    { value: 'degraded', label: 'Connection degraded' }
+  ];
+
+  readonly preview = computed(() => {
+    const body = renderTemplate(this.settings().template, SAMPLE_PAYLOAD);
+    let valid = true;
+    try {
+      JSON.parse(body);
+    } catch {
+      valid = false;
+    }
+    return { body, valid };
+  });
+
+  readonly pendingCount = computed(() => this.deliveries().filter(delivery => delivery.status === 'pending').length);
+
+  setEnabled(enabled: boolean): void {
+    this.webhookService.update({ enabled });
+  }
+
+  setUrl(url: string): void {
+    if (url.trim() && !/^https?:\/\//.test(url.trim())) return;
+    this.webhookService.update({ url: url.trim() });
+  }
+
+  setEvent(event: WebhookEventOption, enabled: boolean): void {
+    const events = this.settings().events.filter(existing => existing !== event);
+    this.webhookService.update({ events: enabled ? [...events, event] : events });
+  }
+
+  setTemplate(template: string): void {
+    this.webhookService.update({ template });
+  }
+
+  setMaxAttempts(value: number | null): void {
+    if (value === null || !Number.isFinite(value) || value < 1) return;
+    this.webhookService.update({ maxAttempts: Math.round(value) });
+  }
+
+  sendTest(): void {
+    this.webhookService.sendTest();
+  }
+
+  retryNow(): void {
+    this.webhookService.retryNow();
+  }
+
+  clearLog(): void {
+    this.webhookService.clearLog();
+  }
+
+  reset(): void {
+    this.webhookService.reset();
+  }
+}
@@ -0,0 +1,73 @@
+import { ApplicationRef, createComponent, provideExperimentalZonelessChangeDetection } from '@angular/core';
+import { createApplication } from '@angular/platform-browser';
+import { provideConnectivity } from '../services/connectivity-config';
+import { ConnectivityBadgeComponent } from '../components/connectivity-badge/connectivity-badge.component';
+import { ELEMENT_ATTRIBUTES, configFromAttributes } from './element-attributes';
+
+// Hosts get a `statuschange` event whenever the connection state changes, with
+// the ConnectivityStatus as its detail
+export const STATUS_CHANGE_EVENT = 'statuschange';
+
+// <am-i-online endpoints="https://a/health https://b/health" interval="30"
+// strategy="race" quorum="2">. Each element runs its own monitor, restarted
+// whenever an attribute changes.
+export class ConnectivityElement extends HTMLElement {
+  static readonly observedAttributes = [...ELEMENT_ATTRIBUTES];
+
+  private app: ApplicationRef | null = null;
+  private started = false;
+  // Bumped on every stop so a bootstrap that finishes late is thrown away
+  private generation = 0;
+
+  connectedCallback(): void {
+    this.start();
+  }
+
+  disconnectedCallback(): void {
+    this.stop();
+  }
+
+  attributeChangedCallback(): void {
+    // Initial attributes arrive before connectedCallback
+    if (!this.started) return;
+    this.stop();
+    this.start();
+  }
+
+  private async start(): Promise<void> {
+    this.started = true;
+    const generation = this.generation;
+    const app = await createApplication({
+      providers: [provideExperimentalZonelessChangeDetection(), provideConnectivity(configFromAttributes(this))]
+    });
+    if (generation !== this.generation) {
+      app.destroy();
+      return;
+    }
+
+    // A fresh host per run: a shadow root can only be attached once
+    const host = document.createElement('app-connectivity-badge');
+    this.replaceChildren(host);
+    const badge = createComponent(ConnectivityBadgeComponent, { environmentInjector: app.injector, hostElement: host });
+    badge.instance.statusChange.subscribe(status =>
+      this.dispatchEvent(new CustomEvent(STATUS_CHANGE_EVENT, { detail: status, bubbles: true, composed: true }))
+    );
+    app.attachView(badge.hostView);
+    this.app = app;
+  }
+
+  private stop(): void {
+    this.generation++;
+    this.started = false;
+    // Destroying the application stops its checks
+    this.app?.destroy();
+    this.app = null;
+    this.replaceChildren();
+  }
+}
+
+export function defineConnectivityElement(tagName = 'am-i-online'): void {
+  if (customElements.get(tagName)) return;
+  // A subclass per tag, since a constructor can only be registered once
+  customElements.define(tagName, class extends ConnectivityElement {});
+}
@@ -0,0 +1,29 @@
+import { configFromAttributes } from './element-attributes';
+
+describe('configFromAttributes', () => {
+  const element = (attributes: Record<string, string>) => ({
+    getAttribute: (name: string) => attributes[name] ?? null
+  });
+
+  it('should read settings from attributes', () => {
+    expect(configFromAttributes(element({ interval: '15', strategy: 'race', quorum: '2' }))).toEqual({
+      settings: { checkIntervalMs: 15000, probeStrategy: 'race', quorumMinEndpoints: 2 }
+    });
+  });
+
+  it('should ignore invalid values', () => {
+    expect(configFromAttributes(element({ interval: '0', strategy: 'fastest', quorum: '1.5' }))).toEqual({ settings: {} });
+  });
+
+  it('should turn endpoint URLs into endpoints named after their host', () => {
+    const config = configFromAttributes(element({
+      endpoints: 'https://api.example.com/health, https://api.example.com/ready ftp://files.example.com not-a-url'
+    }));
+    expect(config.endpoints?.map(endpoint => endpoint.name)).toEqual(['api.example.com', 'api.example.com (2)']);
+    expect(config.endpoints?.[0]).toEqual(jasmine.objectContaining({
+      url: 'https://api.example.com/health',
+      expectedStatus: [200, 204],
+      enabled: true
+    }));
+  });
+});
@@ -0,0 +1,49 @@
+import { ConnectivityEndpoint } from '../services/connectivity.service';
+import { ConnectivityConfig } from '../services/connectivity-config';
+import { MonitorSettings, ProbeStrategy } from '../services/settings.service';
+
+export const ELEMENT_ATTRIBUTES = ['endpoints', 'interval', 'strategy', 'quorum'] as const;
+
+const STRATEGIES: ProbeStrategy[] = ['sequential', 'race', 'all'];
+
+// Invalid attribute values are ignored and leave the defaults in place
+export function configFromAttributes(element: Pick<Element, 'getAttribute'>): ConnectivityConfig {
+  const settings: Partial<MonitorSettings> = {};
+
+  const interval = Number(element.getAttribute('interval') ?? NaN);
+  if (Number.isFinite(interval) && interval >= 1) settings.checkIntervalMs = Math.round(interval * 1000);
+
+  const strategy = element.getAttribute('strategy') as ProbeStrategy | null;
+  if (strategy && STRATEGIES.includes(strategy)) settings.probeStrategy = strategy;
+
+  const quorum = Number(element.getAttribute('quorum') ?? NaN);
+  if (Number.isInteger(quorum) && quorum >= 1) settings.quorumMinEndpoints = quorum;
+
+  const endpoints = parseEndpoints(element.getAttribute('endpoints') ?? '');
+  return endpoints.length > 0 ? { settings, endpoints } : { settings };
+}
+
+// Space or comma separated URLs, named after their host
+function parseEndpoints(value: string): ConnectivityEndpoint[] {
+  const endpoints: ConnectivityEndpoint[] = [];
+  const perHost = new Map<string, number>();
+  for (const candidate of value.split(/[\s,]+/).filter(Boolean)) {
+    let url: URL;
+    try {
+      url = new URL(candidate);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') continue;
+
+    const count = (perHost.get(url.host) ?? 0) + 1;
+    perHost.set(url.host, count);
+    endpoints.push({
+      name: count > 1 ? `${url.host} (${count})` : url.host,
+      url: url.href,
+      expectedStatus: [200, 204],
+      enabled: true
+    });
+  }
+  return endpoints;
+}
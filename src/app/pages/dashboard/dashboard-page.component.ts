@@ -0,0 +1,43 @@
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { CommonModule, DatePipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { ConnectivityStatusComponent } from '../../components/connectivity-status/connectivity-status.component';
+import { GroupMatrixComponent } from '../../components/group-matrix/group-matrix.component';
+import { LATENCY_LEVELS } from '../../components/latency-chart/latency-chart.component';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { SettingsService, latencyLevel } from '../../services/settings.service';
+import { StatsService } from '../../services/stats.service';
+
+@Component({
+  selector: 'app-dashboard-page',
+  standalone: true,
+  imports: [CommonModule, DatePipe, RouterLink, ConnectivityStatusComponent, GroupMatrixComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './dashboard-page.component.html'
+})
+export class DashboardPageComponent {
+  private connectivityService = inject(ConnectivityService);
+  private settings = inject(SettingsService).settings;
+
+  readonly isOnline = this.connectivityService.isOnline;
+  readonly lastChecked = this.connectivityService.lastChecked;
+  readonly responseTime = this.connectivityService.responseTime;
+  readonly currentEndpoint = this.connectivityService.currentEndpoint;
+  readonly isChecking = this.connectivityService.isChecking;
+  readonly groups = this.connectivityService.groups;
+  // Every card on the dashboard covers the last 24 hours
+  readonly stats = inject(StatsService).day;
+  readonly latencyLevels = LATENCY_LEVELS;
+  readonly responseLevel = computed(() => {
+    const responseTime = this.responseTime();
+    return responseTime ? latencyLevel(responseTime, this.settings()) : null;
+  });
+
+  async manualCheck(): Promise<void> {
+    await this.connectivityService.manualCheck();
+  }
+
+  getCurrentEndpointInfo() {
+    return this.connectivityService.getCurrentEndpointInfo();
+  }
+}
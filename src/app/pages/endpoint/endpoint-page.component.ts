@@ -0,0 +1,99 @@
+import { Component, ChangeDetectionStrategy, inject, input, computed, signal, effect, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { ConnectivityService, ProbeResult } from '../../services/connectivity.service';
+import { EndpointRegistryService } from '../../services/endpoint-registry.service';
+import { EndpointHealthService, LATENCY_BUCKETS, latencyPercentile } from '../../services/endpoint-health.service';
+import { HistoryStoreService } from '../../services/history-store.service';
+import { EndpointStats, summarizeEndpoints } from '../../services/history-export.service';
+import { DEFAULT_ENDPOINT_TIMEOUT } from '../../services/default-endpoints';
+import { SettingsService, latencyLevel } from '../../services/settings.service';
+import { LATENCY_LEVELS } from '../../components/latency-chart/latency-chart.component';
+
+type EndpointWindow = '24h' | '7d';
+
+const WINDOW_DURATIONS: Record<EndpointWindow, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+// Probes of this endpoint listed on the page
+const RECENT_PROBE_COUNT = 20;
+
+@Component({
+  selector: 'app-endpoint-page',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './endpoint-page.component.html'
+})
+export class EndpointPageComponent {
+  private connectivityService = inject(ConnectivityService);
+  private endpointRegistry = inject(EndpointRegistryService);
+  private endpointHealth = inject(EndpointHealthService);
+  private historyStore = inject(HistoryStoreService);
+  private settings = inject(SettingsService).settings;
+
+  // Bound from the route
+  readonly name = input.required<string>();
+
+  readonly windows: EndpointWindow[] = ['24h', '7d'];
+  readonly selectedWindow = signal<EndpointWindow>('24h');
+  readonly windowStats = signal<EndpointStats | null>(null);
+  readonly recentProbes = signal<(ProbeResult & { timestamp: Date })[]>([]);
+  readonly defaultTimeout = DEFAULT_ENDPOINT_TIMEOUT;
+  readonly latencyBucketLabels = LATENCY_BUCKETS.map((bound, index) =>
+    bound === Infinity ? `>${LATENCY_BUCKETS[index - 1]}` : `≤${bound}`
+  );
+
+  readonly endpoint = computed(() =>
+    this.endpointRegistry.endpoints().find(endpoint => endpoint.name === this.name()) ?? null
+  );
+  readonly health = computed(() => this.endpointHealth.health()[this.name()] ?? null);
+  readonly p50 = computed(() => this.health() ? latencyPercentile(this.health()!, 50) : null);
+  readonly p95 = computed(() => this.health() ? latencyPercentile(this.health()!, 95) : null);
+  readonly histogramHeights = computed(() => {
+    const histogram = this.health()?.latencyHistogram ?? [];
+    const max = Math.max(1, ...histogram);
+    return histogram.map(count => Math.round((count / max) * 100));
+  });
+
+  constructor() {
+    // Reload when the endpoint or window changes and after every check
+    effect(() => {
+      const name = this.name();
+      const selected = this.selectedWindow();
+      this.connectivityService.connectionHistory();
+      untracked(() => this.load(name, selected));
+    });
+  }
+
+  selectWindow(selected: EndpointWindow): void {
+    this.selectedWindow.set(selected);
+  }
+
+  latencyClass(responseTime: number | null): string {
+    return responseTime === null
+      ? 'text-white'
+      : LATENCY_LEVELS[latencyLevel(responseTime, this.settings())].textClass;
+  }
+
+  private async load(name: string, selected: EndpointWindow): Promise<void> {
+    const to = new Date();
+    const records = await this.historyStore.queryRange(new Date(to.getTime() - WINDOW_DURATIONS[selected]), to);
+    if (this.name() !== name || this.selectedWindow() !== selected) return;
+
+    const ownRecords = records.map(record => ({
+      ...record,
+      probes: (record.probes ?? []).filter(probe => probe.endpoint === name)
+    }));
+    this.windowStats.set(summarizeEndpoints(ownRecords)[0] ?? null);
+    this.recentProbes.set(
+      ownRecords
+        .flatMap(record => record.probes.map(probe => ({ ...probe, timestamp: record.timestamp })))
+        .filter(probe => probe.errorKind !== 'abort')
+        .slice(-RECENT_PROBE_COUNT)
+        .reverse()
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { EndpointDetailsComponent } from '../../components/endpoint-details/endpoint-details.component';
+
+@Component({
+  selector: 'app-endpoints-page',
+  standalone: true,
+  imports: [EndpointDetailsComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './endpoints-page.component.html'
+})
+export class EndpointsPageComponent {}
@@ -0,0 +1,51 @@
+import { Component, ChangeDetectionStrategy, inject, input, computed } from '@angular/core';
+import { Router } from '@angular/router';
+import { NetworkStatsComponent, StatsRange, StatsWindow } from '../../components/network-stats/network-stats.component';
+import { UptimeHeatmapComponent } from '../../components/uptime-heatmap/uptime-heatmap.component';
+
+const PRESET_WINDOWS: StatsWindow[] = ['1h', '24h', '7d', '30d'];
+
+// The selected range lives in the query string (?window=24h or ?from=…&to=…)
+// so a view can be bookmarked and shared
+@Component({
+  selector: 'app-history-page',
+  standalone: true,
+  imports: [UptimeHeatmapComponent, NetworkStatsComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './history-page.component.html'
+})
+export class HistoryPageComponent {
+  private router = inject(Router);
+
+  // Bound from query params
+  readonly window = input<string>();
+  readonly from = input<string>();
+  readonly to = input<string>();
+
+  readonly range = computed((): StatsRange => {
+    const from = parseDate(this.from());
+    const to = parseDate(this.to());
+    if (from && to && from < to) return { window: 'custom', from, to };
+
+    const window = this.window() as StatsWindow;
+    return PRESET_WINDOWS.includes(window) ? { window } : { window: 'session' };
+  });
+
+  setRange(range: StatsRange): void {
+    const queryParams = range.window === 'custom'
+      ? { from: range.from?.toISOString(), to: range.to?.toISOString() }
+      : range.window === 'session' ? {} : { window: range.window };
+    this.router.navigate(['/history'], { queryParams });
+  }
+
+  // Lists the checks of a heatmap cell
+  showPeriod(period: { from: Date; to: Date }): void {
+    this.setRange({ window: 'custom', from: period.from, to: period.to });
+  }
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
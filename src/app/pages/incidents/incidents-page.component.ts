@@ -0,0 +1,11 @@
+import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { IncidentsComponent } from '../../components/incidents/incidents.component';
+
+@Component({
+  selector: 'app-incidents-page',
+  standalone: true,
+  imports: [IncidentsComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './incidents-page.component.html'
+})
+export class IncidentsPageComponent {}
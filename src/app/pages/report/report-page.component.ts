@@ -0,0 +1,59 @@
+import { Component, ChangeDetectionStrategy, inject, input, computed } from '@angular/core';
+import { Router } from '@angular/router';
+import { SlaReportComponent } from '../../components/sla-report/sla-report.component';
+import { DEFAULT_SLA_TARGET, SlaReportOptions } from '../../services/sla-report.service';
+
+// The period and target live in the query string (?from=2025-01-01&to=2025-01-31&target=99.9)
+// so a report can be bookmarked and regenerated every month
+@Component({
+  selector: 'app-report-page',
+  standalone: true,
+  imports: [SlaReportComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './report-page.component.html'
+})
+export class ReportPageComponent {
+  private router = inject(Router);
+
+  // Bound from query params; both days are included
+  readonly from = input<string>();
+  readonly to = input<string>();
+  readonly target = input<string>();
+
+  readonly options = computed((): SlaReportOptions => {
+    const from = parseDay(this.from());
+    const to = parseDay(this.to());
+    const target = Number(this.target());
+    const targetPercent = target > 0 && target < 100 ? target : DEFAULT_SLA_TARGET;
+    if (from && to && from <= to) return { from, to: nextDay(to), targetPercent };
+
+    // This month so far
+    const now = new Date();
+    return { from: new Date(now.getFullYear(), now.getMonth(), 1), to: nextDay(now), targetPercent };
+  });
+
+  setOptions(options: SlaReportOptions): void {
+    this.router.navigate(['/report'], {
+      queryParams: {
+        from: toDay(options.from),
+        to: toDay(new Date(options.to.getTime() - 1)),
+        target: options.targetPercent
+      }
+    });
+  }
+}
+
+// yyyy-MM-dd as local midnight
+function parseDay(value: string | undefined): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? '');
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+function toDay(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function nextDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
@@ -0,0 +1,14 @@
+import { Component, ChangeDetectionStrategy } from '@angular/core';
+import { MonitoringSettingsComponent } from '../../components/monitoring-settings/monitoring-settings.component';
+import { AlertSettingsComponent } from '../../components/alert-settings/alert-settings.component';
+import { WebhookSettingsComponent } from '../../components/webhook-settings/webhook-settings.component';
+import { MaintenanceSettingsComponent } from '../../components/maintenance-settings/maintenance-settings.component';
+
+@Component({
+  selector: 'app-settings-page',
+  standalone: true,
+  imports: [MonitoringSettingsComponent, AlertSettingsComponent, WebhookSettingsComponent, MaintenanceSettingsComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  templateUrl: './settings-page.component.html'
+})
+export class SettingsPageComponent {}
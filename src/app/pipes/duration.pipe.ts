@@ -0,0 +1,23 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+// Formats a duration in milliseconds as e.g. "45s", "12m 5s" or "3h 20m"
+@Pipe({
+  name: 'duration',
+  standalone: true
+})
+export class DurationPipe implements PipeTransform {
+  transform(ms: number | null | undefined): string {
+    if (ms === null || ms === undefined || !Number.isFinite(ms)) return 'N/A';
+
+    const totalSeconds = Math.round(ms / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+  }
+}
@@ -0,0 +1,20 @@
+// What other Angular apps use to embed the monitor, packaged as the am-i-online
+// library (projects/am-i-online). Non-Angular pages load the standalone bundle
+// built from src/widget.ts instead.
+export { provideConnectivity, CONNECTIVITY_CONFIG } from './services/connectivity-config';
+export type { ConnectivityConfig } from './services/connectivity-config';
+export { ConnectivityService } from './services/connectivity.service';
+export type {
+  ConnectivityStatus,
+  ConnectionState,
+  ConnectionRecord,
+  ConnectivityEndpoint,
+  ProbeResult
+} from './services/connectivity.service';
+export type { MonitorSettings, ProbeStrategy } from './services/settings.service';
+export { PROBE_TRANSPORTS } from './services/probe-transport';
+export type { EndpointTransport, ProbeTransport, ProbeTransports, TransportKind } from './services/probe-transport';
+export { FakeTransport, fakeTransports } from './services/fake-transport';
+export type { FakeAnswer } from './services/fake-transport';
+export { ConnectivityBadgeComponent } from './components/connectivity-badge/connectivity-badge.component';
+export { ConnectivityElement, defineConnectivityElement, STATUS_CHANGE_EVENT } from './embed/connectivity-element';
@@ -0,0 +1,59 @@
+import { evaluateRule, isFlapping, isQuietTime, AlertRule } from './alert.service';
+import { ConnectionRecord } from './connectivity.service';
+
+describe('AlertService rules', () => {
+  const minute = 60 * 1000;
+  const base = Date.UTC(2025, 0, 1, 10);
+
+  // One check per minute; true = online with the given latency
+  const history = (...checks: (number | false)[]): ConnectionRecord[] =>
+    checks.map((check, index) => ({
+      timestamp: new Date(base + index * minute),
+      isOnline: check !== false,
+      responseTime: check === false ? null : check,
+      endpoint: check === false ? null : 'Google'
+    }));
+
+  const offline: AlertRule = { id: 'offline', kind: 'offline', enabled: true, consecutiveChecks: 2 };
+  const recovered: AlertRule = { id: 'recovered', kind: 'recovered', enabled: true, minOutageMs: 2 * minute };
+  const latency: AlertRule = { id: 'latency', kind: 'latency', enabled: true, thresholdMs: 500, durationMs: 3 * minute };
+
+  it('should alert once after enough consecutive failures', () => {
+    expect(evaluateRule(offline, history(40, false), false).alert).toBeNull();
+
+    const result = evaluateRule(offline, history(40, false, false), false);
+    expect(result.alert?.title).toBe('You are offline');
+    expect(result.latched).toBeTrue();
+
+    expect(evaluateRule(offline, history(40, false, false, false), true).alert).toBeNull();
+    expect(evaluateRule(offline, history(40, false, false, 40), true).latched).toBeFalse();
+  });
+
+  it('should alert on recovery only after a long enough outage', () => {
+    expect(evaluateRule(recovered, history(40, false, 40), false).alert).toBeNull();
+    expect(evaluateRule(recovered, history(40, false, false, 40), false).alert?.body)
+      .toBe('The connection was down for 2 min.');
+  });
+
+  it('should alert when latency stays above the threshold for the duration', () => {
+    expect(evaluateRule(latency, history(40, 600, 700, 800), false).alert).toBeNull();
+    expect(evaluateRule(latency, history(40, 600, 700, 800, 900), false).alert?.title).toBe('Connection is slow');
+    expect(evaluateRule(latency, history(600, 700, 40, 800), false).latched).toBeFalse();
+  });
+
+  it('should detect flapping from the number of state changes in the window', () => {
+    const unstable = history(40, false, 40, false, 40, false);
+    const now = base + 5 * minute;
+    expect(isFlapping(unstable, 10 * minute, 4, now)).toBeTrue();
+    expect(isFlapping(unstable, 10 * minute, 5, now)).toBeFalse();
+    expect(isFlapping(unstable, 2 * minute, 4, now)).toBeFalse();
+  });
+
+  it('should honour quiet hours that wrap past midnight', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '07:00' };
+    expect(isQuietTime(new Date(2025, 0, 1, 23, 30), quietHours)).toBeTrue();
+    expect(isQuietTime(new Date(2025, 0, 1, 6, 59), quietHours)).toBeTrue();
+    expect(isQuietTime(new Date(2025, 0, 1, 7, 0), quietHours)).toBeFalse();
+    expect(isQuietTime(new Date(2025, 0, 1, 23, 30), { ...quietHours, enabled: false })).toBeFalse();
+  });
+});
@@ -0,0 +1,298 @@
+import { Injectable, inject, signal, effect, untracked } from '@angular/core';
+import { ConnectivityService, ConnectionRecord } from './connectivity.service';
+import { readJson, writeJson, removeKey } from '../utils/local-storage';
+import { parseClockTime } from '../utils/clock-time';
+
+const STORAGE_KEY = 'am-i-online.alerts';
+const MINUTE = 60 * 1000;
+
+// Alerts kept for the in-app log
+const ALERT_LOG_SIZE = 20;
+
+// offline: the last `consecutiveChecks` checks all failed
+// recovered: back online after an outage of at least `minOutageMs`
+// latency: every check for `durationMs` answered slower than `thresholdMs`
+export type AlertRule =
+  | { id: string; kind: 'offline'; enabled: boolean; consecutiveChecks: number }
+  | { id: string; kind: 'recovered'; enabled: boolean; minOutageMs: number }
+  | { id: string; kind: 'latency'; enabled: boolean; thresholdMs: number; durationMs: number };
+
+export interface QuietHours {
+  enabled: boolean;
+  // Local wall-clock times, "HH:mm"; may wrap past midnight
+  start: string;
+  end: string;
+}
+
+export interface AlertSettings {
+  // Desktop notifications are opt-in and need the browser's permission
+  notifications: boolean;
+  sound: boolean;
+  rules: AlertRule[];
+  // More state changes than this within the window count as flapping, which
+  // suppresses individual alerts until the link settles
+  flapWindowMs: number;
+  flapMaxTransitions: number;
+  quietHours: QuietHours;
+}
+
+export interface Alert {
+  timestamp: Date;
+  title: string;
+  body: string;
+  // Why the alert was not delivered, if it was held back
+  suppressed: 'flapping' | 'quiet-hours' | null;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  notifications: false,
+  sound: false,
+  rules: [
+    { id: 'offline', kind: 'offline', enabled: true, consecutiveChecks: 2 },
+    { id: 'recovered', kind: 'recovered', enabled: true, minOutageMs: MINUTE },
+    { id: 'latency', kind: 'latency', enabled: false, thresholdMs: 500, durationMs: 5 * MINUTE }
+  ],
+  flapWindowMs: 10 * MINUTE,
+  flapMaxTransitions: 4,
+  quietHours: { enabled: false, start: '22:00', end: '07:00' }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AlertService {
+  private connectivityService = inject(ConnectivityService);
+
+  private settingsSignal = signal<AlertSettings>(
+    { ...DEFAULT_ALERT_SETTINGS, ...readJson<Partial<AlertSettings>>(STORAGE_KEY, {}) }
+  );
+  private alertLogSignal = signal<Alert[]>([]);
+  private permissionSignal = signal<NotificationPermission | 'unsupported'>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  // Rules that fired and wait for their condition to clear before firing again
+  private latched = new Set<string>();
+  private wasFlapping = false;
+  private lastEvaluated: Date | null = null;
+  // Restored history from earlier sessions must not raise alerts
+  private readonly startedAt = Date.now();
+  private audioContext: AudioContext | null = null;
+
+  readonly settings = this.settingsSignal.asReadonly();
+  // Newest first
+  readonly alertLog = this.alertLogSignal.asReadonly();
+  readonly permission = this.permissionSignal.asReadonly();
+
+  constructor() {
+    effect(() => {
+      const history = this.connectivityService.connectionHistory();
+      untracked(() => this.evaluate(history));
+    });
+  }
+
+  update(changes: Partial<AlertSettings>): void {
+    this.settingsSignal.update(current => ({ ...current, ...changes }));
+    writeJson(STORAGE_KEY, this.settingsSignal());
+  }
+
+  updateRule(id: string, changes: Partial<AlertRule>): void {
+    this.update({
+      rules: this.settingsSignal().rules.map(rule => rule.id === id ? { ...rule, ...changes } as AlertRule : rule)
+    });
+    this.latched.delete(id);
+  }
+
+  reset(): void {
+    removeKey(STORAGE_KEY);
+    this.settingsSignal.set({ ...DEFAULT_ALERT_SETTINGS });
+    this.latched.clear();
+  }
+
+  // Turning notifications on asks for permission first; they stay off if it is denied
+  async setNotifications(enabled: boolean): Promise<void> {
+    if (enabled && this.permissionSignal() !== 'granted') {
+      if (this.permissionSignal() === 'unsupported') return;
+      this.permissionSignal.set(await Notification.requestPermission());
+      if (this.permissionSignal() !== 'granted') return;
+    }
+    this.update({ notifications: enabled });
+  }
+
+  sendTest(): void {
+    this.deliver({
+      timestamp: new Date(),
+      title: 'Am I Online? test alert',
+      body: 'Alerts will look like this.',
+      suppressed: null
+    });
+  }
+
+  // Runs every rule against the history once per new check. Checks in a
+  // maintenance window neither raise alerts nor count toward later ones.
+  private evaluate(allChecks: ConnectionRecord[]): void {
+    const latest = allChecks[allChecks.length - 1];
+    if (!latest || latest.timestamp === this.lastEvaluated || latest.timestamp.getTime() < this.startedAt) return;
+    this.lastEvaluated = latest.timestamp;
+    if (latest.maintenance) return;
+    const history = allChecks.filter(record => !record.maintenance);
+
+    const settings = this.settingsSignal();
+    const fired: Omit<Alert, 'suppressed'>[] = [];
+
+    for (const rule of settings.rules) {
+      if (!rule.enabled) continue;
+      const result = evaluateRule(rule, history, this.latched.has(rule.id));
+      if (result.latched) this.latched.add(rule.id);
+      else this.latched.delete(rule.id);
+      if (result.alert) fired.push({ timestamp: latest.timestamp, ...result.alert });
+    }
+
+    const flapping = isFlapping(history, settings.flapWindowMs, settings.flapMaxTransitions, latest.timestamp.getTime());
+    if (flapping && !this.wasFlapping) {
+      // One notice replaces the individual alerts while the link is unstable
+      fired.splice(0, fired.length, {
+        timestamp: latest.timestamp,
+        title: 'Connection is unstable',
+        body: 'The connection keeps dropping. Further alerts are paused until it settles.'
+      });
+    } else if (flapping) {
+      fired.forEach(alert => this.log({ ...alert, suppressed: 'flapping' }));
+      fired.length = 0;
+    }
+    this.wasFlapping = flapping;
+
+    const quiet = isQuietTime(latest.timestamp, settings.quietHours);
+    for (const alert of fired) {
+      if (quiet) this.log({ ...alert, suppressed: 'quiet-hours' });
+      // Every tab logs the alert, but only the one running the checks notifies
+      else if (!this.connectivityService.isLeader()) this.log({ ...alert, suppressed: null });
+      else this.deliver({ ...alert, suppressed: null });
+    }
+  }
+
+  private deliver(alert: Alert): void {
+    this.log(alert);
+    const settings = this.settingsSignal();
+
+    if (settings.notifications && this.permissionSignal() === 'granted') {
+      try {
+        new Notification(alert.title, { body: alert.body, tag: 'am-i-online' });
+      } catch (error) {
+        // Some platforms only allow notifications from a service worker
+        console.warn('Unable to show notification', error);
+      }
+    }
+    if (settings.sound) {
+      this.playChime();
+    }
+  }
+
+  private log(alert: Alert): void {
+    this.alertLogSignal.update(log => [alert, ...log].slice(0, ALERT_LOG_SIZE));
+  }
+
+  // A short synthesized tone, so no audio asset has to be shipped
+  private playChime(): void {
+    try {
+      this.audioContext ??= new AudioContext();
+      const context = this.audioContext;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.2, context.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.4);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start();
+      oscillator.stop(context.currentTime + 0.4);
+    } catch (error) {
+      console.warn('Unable to play alert sound', error);
+    }
+  }
+}
+
+export interface RuleResult {
+  alert: { title: string; body: string } | null;
+  // Whether the rule's condition currently holds
+  latched: boolean;
+}
+
+// Evaluates a rule against the history (oldest first) after a new check.
+// Rules fire once when their condition starts holding and re-arm once it clears.
+export function evaluateRule(rule: AlertRule, history: ConnectionRecord[], latched: boolean): RuleResult {
+  const latest = history[history.length - 1];
+
+  switch (rule.kind) {
+    case 'offline': {
+      const failures = trailingRun(history, record => !record.isOnline);
+      const holds = failures.length >= rule.consecutiveChecks;
+      return {
+        latched: holds,
+        alert: holds && !latched
+          ? { title: 'You are offline', body: latest.error ?? `The last ${failures.length} checks failed.` }
+          : null
+      };
+    }
+
+    case 'recovered': {
+      if (!latest.isOnline) return { latched: false, alert: null };
+      const outage = trailingRun(history.slice(0, -1), record => !record.isOnline);
+      // Only the history held in memory is known, so very long outages are measured from its start
+      const duration = outage.length > 0 ? latest.timestamp.getTime() - outage[0].timestamp.getTime() : 0;
+      return {
+        latched: false,
+        alert: outage.length > 0 && duration >= rule.minOutageMs
+          ? { title: 'Back online', body: `The connection was down for ${formatDuration(duration)}.` }
+          : null
+      };
+    }
+
+    case 'latency': {
+      const slow = trailingRun(history, record =>
+        record.isOnline && record.responseTime !== null && record.responseTime > rule.thresholdMs
+      );
+      const holds = slow.length > 0 && latest.timestamp.getTime() - slow[0].timestamp.getTime() >= rule.durationMs;
+      return {
+        latched: holds,
+        alert: holds && !latched
+          ? {
+              title: 'Connection is slow',
+              body: `Response times have been above ${rule.thresholdMs}ms for ${formatDuration(rule.durationMs)}.`
+            }
+          : null
+      };
+    }
+  }
+}
+
+// Whether the online state changed more than `maxTransitions` times within the window
+export function isFlapping(history: ConnectionRecord[], windowMs: number, maxTransitions: number, now: number): boolean {
+  const recent = history.filter(record => record.timestamp.getTime() >= now - windowMs);
+  let transitions = 0;
+  for (let i = 1; i < recent.length; i++) {
+    if (recent[i].isOnline !== recent[i - 1].isOnline) transitions++;
+  }
+  return transitions > maxTransitions;
+}
+
+export function isQuietTime(date: Date, quietHours: QuietHours): boolean {
+  if (!quietHours.enabled) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = parseClockTime(quietHours.start);
+  const end = parseClockTime(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+  // Overnight ranges such as 22:00-07:00 wrap past midnight
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// The records at the end of the history that all match
+function trailingRun(history: ConnectionRecord[], matches: (record: ConnectionRecord) => boolean): ConnectionRecord[] {
+  let start = history.length;
+  while (start > 0 && matches(history[start - 1])) start--;
+  return history.slice(start);
+}
+
+function formatDuration(ms: number): string {
+  if (ms < MINUTE) return `${Math.round(ms / 1000)}s`;
+  const minutes = Math.round(ms / MINUTE);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+}
@@ -0,0 +1,67 @@
+import { CheckScheduler, SchedulerOptions } from './check-scheduler';
+
+describe('CheckScheduler', () => {
+  const options: SchedulerOptions = {
+    intervalMs: 30000,
+    offlineRetryMs: 2000,
+    offlineRetryMaxMs: 20000,
+    hiddenBehavior: 'slow',
+    hiddenIntervalMs: 120000
+  };
+  let online: boolean;
+  let checks: number;
+  let scheduler: CheckScheduler;
+
+  const runCheck = async () => {
+    await scheduler.triggerNow('timer');
+  };
+
+  beforeEach(async () => {
+    online = false;
+    checks = 0;
+    scheduler = new CheckScheduler(async () => {
+      checks++;
+      return online;
+    }, () => options);
+    scheduler.start();
+    // Let the initial check settle
+    await new Promise(resolve => setTimeout(resolve));
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should check immediately when started', () => {
+    expect(checks).toBe(1);
+    expect(scheduler.nextCheckAt()).not.toBeNull();
+  });
+
+  it('should back off exponentially while offline up to the cap', async () => {
+    expect(scheduler.nextDelay()).toBe(2000);
+    await runCheck();
+    expect(scheduler.nextDelay()).toBe(4000);
+    await runCheck();
+    await runCheck();
+    expect(scheduler.nextDelay()).toBe(16000);
+    await runCheck();
+    expect(scheduler.nextDelay()).toBe(20000);
+  });
+
+  it('should return to the normal interval once back online', async () => {
+    online = true;
+    await runCheck();
+    expect(scheduler.nextDelay()).toBe(30000);
+  });
+
+  it('should not check while paused', async () => {
+    scheduler.pause();
+    await runCheck();
+    expect(checks).toBe(1);
+    expect(scheduler.nextCheckAt()).toBeNull();
+
+    scheduler.resume();
+    await new Promise(resolve => setTimeout(resolve));
+    expect(checks).toBe(2);
+  });
+});
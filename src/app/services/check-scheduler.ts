@@ -0,0 +1,139 @@
+import { signal } from '@angular/core';
+
+export type HiddenTabBehavior = 'normal' | 'slow' | 'pause';
+
+export interface SchedulerOptions {
+  // Delay between checks while online
+  intervalMs: number;
+  // First retry delay while offline; doubles after every failed check up to the cap
+  offlineRetryMs: number;
+  offlineRetryMaxMs: number;
+  // What to do while the tab is in the background
+  hiddenBehavior: HiddenTabBehavior;
+  hiddenIntervalMs: number;
+}
+
+// Why a check was started, for callers that want to log or debug scheduling
+export type CheckTrigger = 'start' | 'timer' | 'online' | 'offline' | 'visible' | 'resume';
+
+// Decides when the next connectivity check runs. Checks are chained with
+// setTimeout rather than a fixed interval so every delay can adapt to the last
+// result, the tab's visibility and the browser's network events.
+export class CheckScheduler {
+
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private consecutiveFailures = 0;
+  private running = false;
+  private started = false;
+  private listeners: [EventTarget, string, EventListener][] = [];
+
+  private nextCheckAtSignal = signal<Date | null>(null);
+  private pausedSignal = signal<boolean>(false);
+
+  readonly nextCheckAt = this.nextCheckAtSignal.asReadonly();
+  readonly paused = this.pausedSignal.asReadonly();
+
+  // `check` resolves to whether the connection was found to be online
+  constructor(
+    private readonly check: (trigger: CheckTrigger) => Promise<boolean>,
+    private readonly options: () => SchedulerOptions
+  ) {}
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.listen(window, 'online', () => this.triggerNow('online'));
+    this.listen(window, 'offline', () => this.triggerNow('offline'));
+    this.listen(document, 'visibilitychange', () => {
+      if (document.hidden) {
+        // Apply the background cadence right away instead of after the next check
+        this.reschedule();
+      } else {
+        this.triggerNow('visible');
+      }
+    });
+
+    this.triggerNow('start');
+  }
+
+  // Removes every timer and listener; the scheduler can be started again later
+  stop(): void {
+    this.clearTimer();
+    for (const [target, type, listener] of this.listeners) {
+      target.removeEventListener(type, listener);
+    }
+    this.listeners = [];
+    this.started = false;
+  }
+
+  pause(): void {
+    this.pausedSignal.set(true);
+    this.clearTimer();
+  }
+
+  resume(): void {
+    if (!this.pausedSignal()) return;
+    this.pausedSignal.set(false);
+    this.triggerNow('resume');
+  }
+
+  // Runs a check immediately unless one is already in flight or checks are paused
+  async triggerNow(trigger: CheckTrigger): Promise<void> {
+    if (this.running || this.pausedSignal() || !this.started) return;
+
+    this.clearTimer();
+    this.running = true;
+    try {
+      const online = await this.check(trigger);
+      this.consecutiveFailures = online ? 0 : this.consecutiveFailures + 1;
+    } catch {
+      this.consecutiveFailures++;
+    } finally {
+      this.running = false;
+    }
+    this.reschedule();
+  }
+
+  // Re-plans the pending check, e.g. after the options changed
+  reschedule(): void {
+    if (this.running || this.pausedSignal() || !this.started) return;
+
+    this.clearTimer();
+    const delay = this.nextDelay();
+    if (delay === null) return;
+
+    this.nextCheckAtSignal.set(new Date(Date.now() + delay));
+    this.timeoutId = setTimeout(() => this.triggerNow('timer'), delay);
+  }
+
+  // Delay before the next check, or null when checks should wait for the tab to be visible
+  nextDelay(): number | null {
+    const options = this.options();
+
+    if (document.hidden && options.hiddenBehavior === 'pause') return null;
+
+    let delay = options.intervalMs;
+    if (this.consecutiveFailures > 0) {
+      const backoff = options.offlineRetryMs * Math.pow(2, this.consecutiveFailures - 1);
+      delay = Math.min(backoff, options.offlineRetryMaxMs, options.intervalMs);
+    }
+    if (document.hidden && options.hiddenBehavior === 'slow') {
+      delay = Math.max(delay, options.hiddenIntervalMs);
+    }
+    return delay;
+  }
+
+  private clearTimer(): void {
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.nextCheckAtSignal.set(null);
+  }
+
+  private listen(target: EventTarget, type: string, listener: EventListener): void {
+    target.addEventListener(type, listener);
+    this.listeners.push([target, type, listener]);
+  }
+}
@@ -0,0 +1,17 @@
+import { EnvironmentProviders, InjectionToken, makeEnvironmentProviders } from '@angular/core';
+import { ConnectivityEndpoint } from './connectivity.service';
+import { MonitorSettings } from './settings.service';
+
+// Host configuration for apps that embed the monitor. It takes precedence over
+// what the full app saved on the same origin.
+export interface ConnectivityConfig {
+  settings?: Partial<MonitorSettings>;
+  // Replaces the endpoint list, including the built-in defaults restored on reset
+  endpoints?: ConnectivityEndpoint[];
+}
+
+export const CONNECTIVITY_CONFIG = new InjectionToken<ConnectivityConfig>('CONNECTIVITY_CONFIG');
+
+export function provideConnectivity(config: ConnectivityConfig = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([{ provide: CONNECTIVITY_CONFIG, useValue: config }]);
+}
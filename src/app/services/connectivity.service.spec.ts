@@ -1,6 +1,10 @@
 import { TestBed } from '@angular/core/testing';
 import { HttpClientTestingModule } from '@angular/common/http/testing';
-import { ConnectivityService } from './connectivity.service';
+import { ConnectivityService, ConnectivityEndpoint } from './connectivity.service';
+import { CONNECTIVITY_CONFIG } from './connectivity-config';
+import { PROBE_TRANSPORTS } from './probe-transport';
+import { FakeTransport, fakeTransports } from './fake-transport';
+import { EndpointHealthService } from './endpoint-health.service';
 
 describe('ConnectivityService', () => {
   let service: ConnectivityService;
@@ -45,4 +49,96 @@ describe('ConnectivityService', () => {
     const newService = TestBed.inject(ConnectivityService);
     expect(newService.isOnline()).toBe(true);
   });
+
+  describe('content verification', () => {
+    const portalCheck: ConnectivityEndpoint = {
+      name: 'Mozilla',
+      url: 'https://detectportal.firefox.com/success.txt',
+      expectedStatus: [200],
+      enabled: true,
+      verification: { mode: 'content', expectedBody: 'success' }
+    };
+
+    it('should accept a response with the expected body', async () => {
+      spyOn(window, 'fetch').and.resolveTo(new Response('success\n', { status: 200 }));
+
+      const check = await service.checkEndpoint(portalCheck);
+      expect(check.verified).toBe(true);
+    });
+
+    it('should flag a captive portal page as intercepted', async () => {
+      spyOn(window, 'fetch').and.resolveTo(new Response('<html>Please log in</html>', { status: 200 }));
+
+      await expectAsync(service.checkEndpoint(portalCheck))
+        .toBeRejectedWith(jasmine.objectContaining({ kind: 'intercepted' }));
+    });
+
+    it('should fall back to an unverified probe when CORS reads are blocked', async () => {
+      const opaque = { type: 'opaque', status: 0 } as Response;
+      spyOn(window, 'fetch').and.callFake((_url, init) =>
+        init?.mode === 'cors' ? Promise.reject(new TypeError('Failed to fetch')) : Promise.resolve(opaque)
+      );
+
+      const check = await service.checkEndpoint(portalCheck);
+      expect(check.verified).toBe(false);
+    });
+  });
+
+  describe('with a fake transport', () => {
+    let fake: FakeTransport;
+
+    const primary: ConnectivityEndpoint = { name: 'Primary', url: 'https://primary.example.com', expectedStatus: [200], timeout: 250, enabled: true };
+    const secondary: ConnectivityEndpoint = { name: 'Secondary', url: 'https://secondary.example.com', expectedStatus: [200], timeout: 250, enabled: true };
+
+    beforeEach(() => {
+      fake = new FakeTransport();
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          { provide: PROBE_TRANSPORTS, useValue: fakeTransports(fake) },
+          {
+            provide: CONNECTIVITY_CONFIG,
+            useValue: { endpoints: [primary, secondary], settings: { probeStrategy: 'sequential', quorumMinEndpoints: 1 } }
+          }
+        ]
+      });
+      service = TestBed.inject(ConnectivityService);
+    });
+
+    it('should report a timeout when the endpoint never answers', async () => {
+      fake.answer('Primary', { delayMs: null });
+
+      await expectAsync(service.checkEndpoint(primary))
+        .toBeRejectedWith(jasmine.objectContaining({ kind: 'timeout' }));
+    });
+
+    it('should pass on the transport\'s errors', async () => {
+      fake.answer('Primary', { error: { kind: 'intercepted', message: 'Redirected to portal.example.com' } });
+
+      await expectAsync(service.checkEndpoint(primary))
+        .toBeRejectedWith(jasmine.objectContaining({ kind: 'intercepted' }));
+    });
+
+    it('should fall back to the next endpoint when one fails', async () => {
+      fake.answer('Primary', { error: { kind: 'network', message: 'Failed to fetch' } });
+      fake.answer('Secondary', { verified: true, status: 200 });
+
+      const status = await service.checkConnectivity();
+      expect(fake.probed).toEqual(['Primary', 'Secondary']);
+      expect(status.isOnline).toBe(true);
+      expect(status.endpoint).toBe('Secondary');
+    });
+
+    it('should allow new checks after one fails unexpectedly', async () => {
+      fake.answer('Primary', { verified: true, status: 200 });
+      const endpointHealth = TestBed.inject(EndpointHealthService);
+      const recordCheck = spyOn(endpointHealth, 'recordCheck').and.throwError('Storage full');
+
+      await expectAsync(service.checkConnectivity()).toBeRejected();
+      expect(service.isChecking()).toBe(false);
+
+      recordCheck.and.callThrough();
+      expect((await service.checkConnectivity()).endpoint).toBe('Primary');
+    });
+  });
 });
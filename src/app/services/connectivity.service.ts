@@ -1,184 +1,277 @@
-import { Injectable } from '@angular/core';
+import { Injectable, OnDestroy, inject, effect, untracked } from '@angular/core';
 import { signal, computed } from '@angular/core';
-import { timer } from 'rxjs';
+import { Subject } from 'rxjs';
+import { EndpointRegistryService } from './endpoint-registry.service';
+import { DEFAULT_ENDPOINT_TIMEOUT } from './default-endpoints';
+import { HistoryStoreService } from './history-store.service';
+import { ProbeError, ProbeErrorKind } from './probe-error';
+import { SettingsService, ProbeStrategy } from './settings.service';
+import { EndpointHealthService } from './endpoint-health.service';
+import { CheckScheduler } from './check-scheduler';
+import { ProbeTiming, findResourceTiming, timingFromEntry } from './probe-timing';
+import { Reachability, assessReachability } from './quorum';
+import { INTERNET_GROUP, groupOf, groupNames } from './endpoint-groups';
+import { NetworkInfo, NetworkInfoService } from './network-info.service';
+import { TabElection } from './tab-election';
+import { CONNECTIVITY_CONFIG, ConnectivityConfig } from './connectivity-config';
+import { EndpointTransport, PROBE_TRANSPORTS, transportOf } from './probe-transport';
+import { MaintenanceService } from './maintenance.service';
+
+// 'none' trusts any (possibly opaque) response; the other modes read the response
+// and require it to match what the endpoint is known to serve
+export type VerificationMode = 'none' | 'status' | 'content' | 'hash';
+
+export interface EndpointVerification {
+  mode: VerificationMode;
+  // Substring the body must contain ('content' mode)
+  expectedBody?: string;
+  // Hex encoded SHA-256 of the full body ('hash' mode)
+  bodySha256?: string;
+}
+
+// 'intercepted' means something answered in place of the real endpoints,
+// typically a captive portal or a proxy block page. 'degraded' is still online,
+// but with fewer endpoints reachable than the quorum or with critical latency.
+export type ConnectionState = 'online' | 'degraded' | 'offline' | 'intercepted';
+
+export interface EndpointCheck {
+  // True when the response was readable and passed the endpoint's verification
+  verified: boolean;
+  status: number | null;
+  // The URL actually requested, when it differs from the endpoint's (e.g. with a
+  // cache buster), so its Resource Timing entry can be found
+  url?: string;
+}
 
 export interface ConnectivityEndpoint {
   name: string;
   url: string;
   expectedStatus: number[];
   timeout?: number;
+  enabled: boolean;
+  verification?: EndpointVerification;
+  // Named set of targets monitored on its own, e.g. a VPN or internal APIs;
+  // absent for the public internet
+  group?: string;
+  // How the endpoint is probed; absent means a no-cors fetch GET
+  transport?: EndpointTransport;
+}
+
+// The result of probing one endpoint during a check
+export interface ProbeResult {
+  endpoint: string;
+  success: boolean;
+  // True when the response was readable and checked against the endpoint's verification
+  verified: boolean;
+  intercepted: boolean;
+  // Latency of this request alone; null when it failed without an answer
+  responseTime: number | null;
+  error?: string;
+  errorKind?: ProbeErrorKind;
+  // Phase breakdown of a successful request, where the browser exposes it
+  timing?: ProbeTiming;
+  // Group of the endpoint when it was probed; absent for the public internet
+  group?: string;
 }
 
 export interface ConnectivityStatus {
   isOnline: boolean;
+  state: ConnectionState;
   lastChecked: Date | null;
   responseTime: number | null;
   endpoint: string | null;
   error?: string;
+  // Per-endpoint results of the check, and which endpoints they show reachable
+  probes: ProbeResult[];
+  reachability: Reachability | null;
 }
 
 export interface ConnectionRecord {
   timestamp: Date;
   isOnline: boolean;
+  // Absent on records stored before interception detection existed
+  state?: ConnectionState;
   responseTime: number | null;
   endpoint: string | null;
   error?: string;
+  // Every endpoint probed during the check (absent on older records)
+  probes?: ProbeResult[];
+  // The link the check ran over, where the browser reports it
+  network?: NetworkInfo;
+  // Label of the maintenance window the check ran in; such checks are kept but
+  // don't count toward uptime, incidents or alerts
+  maintenance?: string;
+  // Run by the service worker while the app was closed
+  background?: boolean;
+}
+
+interface ProbeOutcome {
+  probes: ProbeResult[];
+  winner: ProbeResult | null;
+  intercepted: ProbeResult | null;
 }
 
+// What the leading tab shares so every tab shows the same state
+interface SharedState {
+  status: ConnectivityStatus;
+  isChecking: boolean;
+  nextCheckAt: Date | null;
+  isPaused: boolean;
+}
+
+type TabMessage =
+  | { type: 'state'; state: SharedState }
+  | { type: 'record'; record: ConnectionRecord }
+  | { type: 'background-records'; records: ConnectionRecord[] }
+  | { type: 'state-request' }
+  | { type: 'check-request'; id: string }
+  | { type: 'check-result'; id: string; status: ConnectivityStatus }
+  | { type: 'pause' }
+  | { type: 'resume' };
+
+const IN_MEMORY_HISTORY_SIZE = 100;
+
+// A manual check requested from another tab falls back to the current status
+// if the leader does not answer within this time
+const REMOTE_CHECK_TIMEOUT_MS = 30000;
+
 @Injectable({
   providedIn: 'root'
 })
-export class ConnectivityService {
-
-  // Configuration for different connectivity endpoints
-  private endpoints: ConnectivityEndpoint[] = [
-    {
-      name: 'Google',
-      url: 'https://google.com/generate_204',
-      expectedStatus: [200, 204],
-      timeout: 3000
-    },
-    {
-      name: 'Cloudflare',
-      url: 'https://cp.cloudflare.com/generate_204',
-      expectedStatus: [200, 204],
-      timeout: 3000
-    },
-    {
-      name: 'Microsoft',
-      url: 'https://edge-http.microsoft.com/captiveportal/generate_204',
-      expectedStatus: [200, 204],
-      timeout: 3000
-    },
-    {
-      name: 'Ubuntu',
-      url: 'https://connectivity-check.ubuntu.com',
-      expectedStatus: [200],
-      timeout: 3000
-    },
-    {
-      name: 'Apple',
-      url: 'https://captive.apple.com/hotspot-detect.html',
-      expectedStatus: [200],
-      timeout: 3000
-    },
-    {
-      name: 'Mozilla',
-      url: 'https://detectportal.firefox.com/success.txt',
-      expectedStatus: [200],
-      timeout: 3000
-    }
-  ];
-
-  // Fallback HTTP endpoints for environments that don't support HTTPS
-  private fallbackEndpoints: ConnectivityEndpoint[] = [
-    {
-      name: 'Google (HTTP)',
-      url: 'http://google.com/generate_204',
-      expectedStatus: [200, 204],
-      timeout: 3000
-    },
-    {
-      name: 'Cloudflare (HTTP)',
-      url: 'http://cp.cloudflare.com/generate_204',
-      expectedStatus: [200, 204],
-      timeout: 3000
-    },
-    {
-      name: 'Microsoft (HTTP)',
-      url: 'http://edge-http.microsoft.com/captiveportal/generate_204',
-      expectedStatus: [200, 204],
-      timeout: 3000
-    },
-    {
-      name: 'Ubuntu (HTTP)',
-      url: 'http://connectivity-check.ubuntu.com',
-      expectedStatus: [200],
-      timeout: 3000
-    },
-    {
-      name: 'Apple (HTTP)',
-      url: 'http://captive.apple.com/hotspot-detect.html',
-      expectedStatus: [200],
-      timeout: 3000
-    },
-    {
-      name: 'Mozilla (HTTP)',
-      url: 'http://detectportal.firefox.com/success.txt',
-      expectedStatus: [200],
-      timeout: 3000
-    }
-  ];
+export class ConnectivityService implements OnDestroy {
+
+  private endpointRegistry = inject(EndpointRegistryService);
+  private historyStore = inject(HistoryStoreService);
+  private settings = inject(SettingsService);
+  private endpointHealth = inject(EndpointHealthService);
+  private networkInfo = inject(NetworkInfoService);
+  private config = inject(CONNECTIVITY_CONFIG, { optional: true });
+  private transports = inject(PROBE_TRANSPORTS);
+  private maintenance = inject(MaintenanceService);
+
+  // Read from the registry on every check so edits apply without a restart.
+  // HTTPS (and WSS) endpoints are primary; plain HTTP (and WS) ones are only used
+  // as fallbacks. Both span every group; checkGroup() narrows them down.
+  private readonly endpoints = computed(() =>
+    this.endpointRegistry.enabledEndpoints().filter(ep => this.isSecure(ep))
+  );
+  private readonly fallbackEndpoints = computed(() =>
+    this.endpointRegistry.enabledEndpoints().filter(ep => !this.isSecure(ep))
+  );
 
   private isOnlineSignal = signal<boolean>(navigator.onLine);
+  private stateSignal = signal<ConnectionState>(navigator.onLine ? 'online' : 'offline');
   private lastCheckedSignal = signal<Date | null>(null);
   private responseTimeSignal = signal<number | null>(null);
   private currentEndpointSignal = signal<string | null>(null);
   private errorSignal = signal<string | null>(null);
+  private probesSignal = signal<ProbeResult[]>([]);
+  private reachabilitySignal = signal<Reachability | null>(null);
   private isCheckingSignal = signal<boolean>(false);
-  private totalChecksSignal = signal<number>(0);
-  private successfulChecksSignal = signal<number>(0);
   private connectionHistorySignal = signal<ConnectionRecord[]>([]);
-  private minResponseTimeSignal = signal<number | null>(null);
-  private maxResponseTimeSignal = signal<number | null>(null);
+  private recordSubject = new Subject<ConnectionRecord>();
+  // Only the leading tab runs checks; the others mirror its results
+  private election = new TabElection<TabMessage>(message => this.receive(message), electionName(this.config));
+  private remoteNextCheckAtSignal = signal<Date | null>(null);
+  private remotePausedSignal = signal<boolean>(false);
+  private pendingRemoteChecks = new Map<string, (status: ConnectivityStatus) => void>();
+  private scheduler = new CheckScheduler(
+    async () => (await this.checkConnectivity()).isOnline,
+    () => {
+      const settings = this.settings.settings();
+      // Metered and data-saving links are checked less often
+      const backOff = settings.constrainedBackoff && this.networkInfo.isConstrained();
+      const intervalMs = backOff
+        ? Math.max(settings.checkIntervalMs, settings.constrainedIntervalMs)
+        : settings.checkIntervalMs;
+      return { ...settings, intervalMs };
+    }
+  );
 
   // Public signals
   readonly isOnline = this.isOnlineSignal.asReadonly();
+  readonly state = this.stateSignal.asReadonly();
   readonly lastChecked = this.lastCheckedSignal.asReadonly();
   readonly responseTime = this.responseTimeSignal.asReadonly();
   readonly currentEndpoint = this.currentEndpointSignal.asReadonly();
   readonly error = this.errorSignal.asReadonly();
+  readonly probes = this.probesSignal.asReadonly();
+  readonly reachability = this.reachabilitySignal.asReadonly();
   readonly isChecking = this.isCheckingSignal.asReadonly();
-  readonly totalChecks = this.totalChecksSignal.asReadonly();
-  readonly successfulChecks = this.successfulChecksSignal.asReadonly();
   readonly connectionHistory = this.connectionHistorySignal.asReadonly();
-  readonly minResponseTime = this.minResponseTimeSignal.asReadonly();
-  readonly maxResponseTime = this.maxResponseTimeSignal.asReadonly();
-
-  readonly uptimePercentage = computed(() => {
-    const total = this.totalChecksSignal();
-    const successful = this.successfulChecksSignal();
-    return total > 0 ? Math.round((successful / total) * 100) : 0;
-  });
-
-  readonly successRate = computed(() => {
-    const total = this.totalChecksSignal();
-    const successful = this.successfulChecksSignal();
-    return total > 0 ? Math.round((successful / total) * 100) : 0;
-  });
-
-  readonly averageResponseTime = computed(() => {
-    const onlineRecords = this.connectionHistorySignal().filter(r => r.isOnline && r.responseTime);
-    if (onlineRecords.length === 0) return 0;
-    const total = onlineRecords.reduce((sum, r) => sum + (r.responseTime || 0), 0);
-    return Math.round(total / onlineRecords.length);
-  });
-
-  readonly status = computed(() => ({
+
+  // Endpoint groups in display order, the public internet first
+  readonly groups = computed(() => groupNames(this.endpointRegistry.enabledEndpoints()));
+
+  // Whether this tab runs the checks for every open tab
+  readonly isLeader = this.election.isLeader;
+  readonly nextCheckAt = computed(() =>
+    this.isLeader() ? this.scheduler.nextCheckAt() : this.remoteNextCheckAtSignal()
+  );
+  readonly isPaused = computed(() => this.isLeader() ? this.scheduler.paused() : this.remotePausedSignal());
+
+  // Emits every completed check, for subsystems that react to individual results
+  readonly records$ = this.recordSubject.asObservable();
+
+  readonly status = computed((): ConnectivityStatus => ({
     isOnline: this.isOnlineSignal(),
+    state: this.stateSignal(),
     lastChecked: this.lastCheckedSignal(),
     responseTime: this.responseTimeSignal(),
     endpoint: this.currentEndpointSignal(),
-    error: this.errorSignal()
+    error: this.errorSignal() ?? undefined,
+    probes: this.probesSignal(),
+    reachability: this.reachabilitySignal()
+  }));
+
+  private readonly sharedState = computed((): SharedState => ({
+    status: this.status(),
+    isChecking: this.isCheckingSignal(),
+    nextCheckAt: this.scheduler.nextCheckAt(),
+    isPaused: this.scheduler.paused()
   }));
 
   constructor() {
-    // Listen to browser's online/offline events
-    window.addEventListener('online', () => this.isOnlineSignal.set(true));
-    window.addEventListener('offline', () => this.isOnlineSignal.set(false));
+    // Seed the in-memory history with what previous sessions recorded
+    this.restoreHistory();
+
+    // Set up periodic connectivity checks in the leading tab. The scheduler also
+    // re-checks right away on the browser's online/offline events and when the
+    // tab becomes visible.
+    this.election.start();
+    effect(() => {
+      const leading = this.isLeader();
+      untracked(() => leading ? this.lead() : this.follow());
+    });
+
+    // Keep the other tabs' signals identical to the leader's
+    effect(() => {
+      const state = this.sharedState();
+      if (this.isLeader()) untracked(() => this.election.post({ type: 'state', state }));
+    });
 
-    // Set up periodic connectivity checks
-    this.setupPeriodicChecks();
+    // Apply interval changes, and a switch to or from a metered link, to the
+    // pending check without waiting for it
+    effect(() => {
+      this.settings.settings();
+      this.networkInfo.isConstrained();
+      untracked(() => this.scheduler.reschedule());
+    });
   }
 
-  setupPeriodicChecks(): void {
-    // Check every 30 seconds, but only if not already checking
-    const checkInterval$ = timer(0, 30000);
+  ngOnDestroy(): void {
+    this.scheduler.stop();
+    this.election.stop();
+  }
 
-    checkInterval$.subscribe(() => {
-      // Only start a new check if we're not already checking
-      if (!this.isCheckingSignal()) this.checkConnectivity();
-    });
+  pauseChecks(): void {
+    if (this.isLeader()) this.scheduler.pause();
+    else this.election.post({ type: 'pause' });
+  }
+
+  resumeChecks(): void {
+    if (this.isLeader()) this.scheduler.resume();
+    else this.election.post({ type: 'resume' });
   }
 
   async checkConnectivity(): Promise<ConnectivityStatus> {
@@ -186,110 +279,266 @@ export class ConnectivityService {
     if (this.isCheckingSignal()) {
       return {
         isOnline: this.isOnlineSignal(),
+        state: this.stateSignal(),
         lastChecked: this.lastCheckedSignal(),
         responseTime: this.responseTimeSignal(),
         endpoint: this.currentEndpointSignal(),
-        error: this.errorSignal() ?? undefined
+        error: this.errorSignal() ?? undefined,
+        probes: this.probesSignal(),
+        reachability: this.reachabilitySignal()
       };
     }
 
     this.isCheckingSignal.set(true);
-    this.errorSignal.set(null);
+    // A failing step must not leave every later check blocked
+    try {
+      this.errorSignal.set(null);
+
+      const settings = this.settings.settings();
+      const quorum = settings.quorumMinEndpoints;
+      // A quorum needs every endpoint's answer, not just the first one
+      const strategy = quorum > 1 ? 'all' : settings.probeStrategy;
+
+      // Every group is checked at once; only the public internet decides the overall state
+      const [outcome, ...groupOutcomes] = await Promise.all([
+        this.checkGroup(INTERNET_GROUP, strategy),
+        ...this.groups().filter(group => group !== INTERNET_GROUP).map(group => this.checkGroup(group, strategy))
+      ]);
+      const probes = [...outcome.probes, ...groupOutcomes.flatMap(groupOutcome => groupOutcome.probes)];
+
+      this.endpointHealth.recordCheck(probes);
+
+      // Endpoints skipped by their circuit breaker still count against the quorum
+      const expected = quorum > 1
+        ? this.endpoints().filter(ep => groupOf(ep) === INTERNET_GROUP).map(ep => ep.name)
+        : [];
+      const reachability = assessReachability(outcome.probes, expected, outcome.winner?.responseTime ?? null, {
+        quorum,
+        latencyCriticalMs: settings.latencyCriticalMs
+      });
+      this.probesSignal.set(probes);
+      this.reachabilitySignal.set(reachability);
 
-    const startTime = performance.now();
+      if (outcome.intercepted) return this.markIntercepted(outcome.intercepted, probes, reachability);
+      if (outcome.winner) return this.markOnline(outcome.winner, probes, reachability);
+      return this.markOffline(probes, reachability);
+    } finally {
+      this.isCheckingSignal.set(false);
+    }
+  }
+
+  private async checkGroup(group: string, strategy: ProbeStrategy): Promise<ProbeOutcome> {
+    const inGroup = (endpoints: ConnectivityEndpoint[]) => endpoints.filter(ep => groupOf(ep) === group);
 
     // First try HTTPS endpoints
-    const httpsResult = await this.tryEndpoints(this.endpoints, startTime);
-    if (httpsResult.isOnline) {
-      this.totalChecksSignal.update(count => {
-        return count + 1;
-      });
-      this.isCheckingSignal.set(false);
-      return httpsResult;
+    const outcome = await this.tryEndpoints(this.availableEndpoints(inGroup(this.endpoints())), strategy);
+
+    // If HTTPS endpoints failed, try HTTP fallbacks (only in development or if explicitly allowed).
+    // An intercepted response is conclusive: the HTTP fallbacks would be intercepted too.
+    if (!outcome.winner && !outcome.intercepted && this.shouldTryHttpFallback()) {
+      const httpOutcome = await this.tryEndpoints(this.availableEndpoints(inGroup(this.fallbackEndpoints())), strategy);
+      return { ...httpOutcome, probes: [...outcome.probes, ...httpOutcome.probes] };
     }
+    return outcome;
+  }
 
-    // If HTTPS endpoints failed, try HTTP fallbacks (only in development or if explicitly allowed)
-    if (this.shouldTryHttpFallback()) {
-      const httpResult = await this.tryEndpoints(this.fallbackEndpoints, startTime);
-      if (httpResult.isOnline) {
-        this.totalChecksSignal.update(count => {
-          return count + 1;
+  // Skips endpoints whose circuit breaker is open. If that would leave nothing
+  // to probe, probe them all anyway rather than report a false outage.
+  private availableEndpoints(endpoints: ConnectivityEndpoint[]): ConnectivityEndpoint[] {
+    const available = endpoints.filter(ep => this.endpointHealth.isAvailable(ep.name));
+    return available.length > 0 ? available : endpoints;
+  }
+
+  private async tryEndpoints(endpoints: ConnectivityEndpoint[], strategy: ProbeStrategy): Promise<ProbeOutcome> {
+    const probes = strategy === 'sequential'
+      ? await this.probeSequentially(endpoints)
+      : await this.probeInParallel(endpoints, strategy === 'race');
+
+    const intercepted = probes.find(probe => probe.intercepted) ?? null;
+
+    // Prefer the highest priority endpoint that answered; in race mode there is only one
+    const winner = endpoints
+      .map(endpoint => probes.find(probe => probe.endpoint === endpoint.name && probe.success))
+      .find(probe => probe !== undefined) ?? null;
+
+    if (intercepted || !winner) return { probes, winner, intercepted };
+
+    // An opaque answer could have come from a captive portal, so confirm it
+    // against an endpoint whose content we can actually read
+    if (!probes.some(probe => probe.verified)) {
+      const probed = new Set(probes.map(probe => probe.endpoint));
+      const verifier = endpoints.find(ep => (ep.verification?.mode ?? 'none') !== 'none' && !probed.has(ep.name));
+      if (verifier) {
+        const verification = await this.probe(verifier);
+        probes.push(verification);
+        if (verification.intercepted) return { probes, winner: null, intercepted: verification };
+      }
+    }
+
+    return { probes, winner, intercepted: null };
+  }
+
+  private async probeSequentially(endpoints: ConnectivityEndpoint[]): Promise<ProbeResult[]> {
+    const probes: ProbeResult[] = [];
+    for (const endpoint of endpoints) {
+      // Other groups are probed alongside and don't drive the overall status
+      if (groupOf(endpoint) === INTERNET_GROUP) this.currentEndpointSignal.set(endpoint.name);
+      const result = await this.probe(endpoint);
+      probes.push(result);
+      if (result.success || result.intercepted) break;
+    }
+    return probes;
+  }
+
+  // Probes every endpoint at once. In race mode, resolves on the first success
+  // (or interception) and cancels the probes still in flight.
+  private probeInParallel(endpoints: ConnectivityEndpoint[], race: boolean): Promise<ProbeResult[]> {
+    if (endpoints.length === 0) return Promise.resolve([]);
+
+    const controller = new AbortController();
+    const probes: ProbeResult[] = [];
+
+    return new Promise<ProbeResult[]>(resolve => {
+      let settled = false;
+      for (const endpoint of endpoints) {
+        this.probe(endpoint, controller.signal).then(result => {
+          if (settled) return;
+          probes.push(result);
+
+          const decisive = race && (result.success || result.intercepted);
+          if (decisive || probes.length === endpoints.length) {
+            settled = true;
+            controller.abort();
+            resolve(probes);
+          }
         });
-        this.isCheckingSignal.set(false);
-        return httpResult;
       }
+    });
+  }
+
+  // Probes a single endpoint, timing just this request. Never throws.
+  private async probe(endpoint: ConnectivityEndpoint, signal?: AbortSignal): Promise<ProbeResult> {
+    const startTime = performance.now();
+    const group = endpoint.group ? { group: groupOf(endpoint) } : {};
+    try {
+      const check = await this.checkEndpoint(endpoint, signal);
+      const responseTime = Math.round(performance.now() - startTime);
+      const entry = await findResourceTiming(check.url ?? endpoint.url, startTime);
+      return {
+        endpoint: endpoint.name,
+        success: true,
+        verified: check.verified,
+        intercepted: false,
+        responseTime,
+        timing: timingFromEntry(entry, responseTime),
+        ...group
+      };
+    } catch (error) {
+      const errorKind = error instanceof ProbeError ? error.kind : 'network';
+      const intercepted = errorKind === 'intercepted';
+      return {
+        endpoint: endpoint.name,
+        success: false,
+        verified: intercepted,
+        intercepted,
+        responseTime: intercepted ? Math.round(performance.now() - startTime) : null,
+        error: error instanceof Error ? error.message : String(error),
+        errorKind,
+        ...group
+      };
     }
+  }
+
+  private markOnline(winner: ProbeResult, probes: ProbeResult[], reachability: Reachability): ConnectivityStatus {
+    const responseTime = winner.responseTime;
+    const state = reachability.state === 'degraded' ? 'degraded' : 'online';
+
+    this.currentEndpointSignal.set(winner.endpoint);
+    this.isOnlineSignal.set(true);
+    this.stateSignal.set(state);
+    this.lastCheckedSignal.set(new Date());
+    this.responseTimeSignal.set(responseTime);
 
-    // If all endpoints failed
+    // Add to connection history
+    this.addToHistory({
+      timestamp: new Date(),
+      isOnline: true,
+      state,
+      responseTime,
+      endpoint: winner.endpoint,
+      probes
+    });
+
+    return {
+      isOnline: true,
+      state,
+      lastChecked: new Date(),
+      responseTime,
+      endpoint: winner.endpoint,
+      probes,
+      reachability
+    };
+  }
+
+  private markIntercepted(probe: ProbeResult, probes: ProbeResult[], reachability: Reachability): ConnectivityStatus {
+    const message = `${probe.endpoint}: ${probe.error}`;
+
+    this.currentEndpointSignal.set(probe.endpoint);
     this.isOnlineSignal.set(false);
+    this.stateSignal.set('intercepted');
     this.lastCheckedSignal.set(new Date());
     this.responseTimeSignal.set(null);
-    this.errorSignal.set('All connectivity endpoints failed');
-    this.totalChecksSignal.update(count => {
-      return count + 1;
-    });
-    this.isCheckingSignal.set(false);
+    this.errorSignal.set(message);
 
-    // Add failed connection to history
     this.addToHistory({
       timestamp: new Date(),
       isOnline: false,
+      state: 'intercepted',
       responseTime: null,
-      endpoint: null,
-      error: 'All connectivity endpoints failed'
+      endpoint: probe.endpoint,
+      error: message,
+      probes
     });
 
     return {
       isOnline: false,
+      state: 'intercepted',
       lastChecked: new Date(),
       responseTime: null,
-      endpoint: null,
-      error: 'All connectivity endpoints failed'
+      endpoint: probe.endpoint,
+      error: message,
+      probes,
+      reachability
     };
   }
 
-  private async tryEndpoints(endpoints: ConnectivityEndpoint[], startTime: number): Promise<ConnectivityStatus> {
-    for (const endpoint of endpoints) {
-      try {
-        this.currentEndpointSignal.set(endpoint.name);
-
-        const response = await this.checkEndpoint(endpoint);
-        const endTime = performance.now();
-        const responseTime = Math.round(endTime - startTime);
-
-        this.updateResponseTimeTracking(responseTime);
-
-        this.isOnlineSignal.set(true);
-        this.lastCheckedSignal.set(new Date());
-        this.responseTimeSignal.set(responseTime);
-        this.successfulChecksSignal.update(count => count + 1);
-
-        // Add to connection history
-        this.addToHistory({
-          timestamp: new Date(),
-          isOnline: true,
-          responseTime,
-          endpoint: endpoint.name
-        });
-
-        return {
-          isOnline: true,
-          lastChecked: new Date(),
-          responseTime,
-          endpoint: endpoint.name
-        };
+  private markOffline(probes: ProbeResult[], reachability: Reachability): ConnectivityStatus {
+    this.isOnlineSignal.set(false);
+    this.stateSignal.set('offline');
+    this.lastCheckedSignal.set(new Date());
+    this.responseTimeSignal.set(null);
+    this.errorSignal.set('All connectivity endpoints failed');
 
-      } catch (error) {
-        continue;
-      }
-    }
+    // Add failed connection to history
+    this.addToHistory({
+      timestamp: new Date(),
+      isOnline: false,
+      state: 'offline',
+      responseTime: null,
+      endpoint: null,
+      error: 'All connectivity endpoints failed',
+      probes
+    });
 
     return {
       isOnline: false,
+      state: 'offline',
       lastChecked: new Date(),
       responseTime: null,
       endpoint: null,
-      error: 'All endpoints failed'
+      error: 'All connectivity endpoints failed',
+      probes,
+      reachability
     };
   }
 
@@ -299,68 +548,179 @@ export class ConnectivityService {
       window.location.hostname === 'localhost'
   }
 
-  updateResponseTimeTracking(responseTime: number): void {
-    // Update min response time
-    this.minResponseTimeSignal.update(current => {
-      if (current === null || responseTime < current) {
-        return responseTime;
-      }
-      return current;
+  addToHistory(check: ConnectionRecord): void {
+    // Note the link the check ran over, where the browser reports it
+    const network = this.networkInfo.info();
+    const maintenanceWindow = this.maintenance.windowAt(check.timestamp);
+    const record: ConnectionRecord = { ...check };
+    if (network) record.network = network;
+    if (maintenanceWindow) record.maintenance = maintenanceWindow.label;
+
+    this.historyStore.append(record);
+    this.remember(record);
+    this.election.post({ type: 'record', record });
+  }
+
+  // Merges checks the service worker ran while the app was closed into the stored
+  // and in-memory history. They are tagged with maintenance windows like live
+  // checks, but predate what incidents, alerts and webhooks react to.
+  async mergeBackgroundRecords(records: ConnectionRecord[]): Promise<number> {
+    if (records.length === 0) return 0;
+
+    const tagged = records.map(record => {
+      const maintenanceWindow = this.maintenance.windowAt(record.timestamp);
+      return maintenanceWindow ? { ...record, maintenance: maintenanceWindow.label } : record;
     });
+    const { added } = await this.historyStore.importRecords(tagged);
 
-    // Update max response time
-    this.maxResponseTimeSignal.update(current => {
-      if (current === null || responseTime > current) {
-        return responseTime;
-      }
-      return current;
+    this.rememberBackground(tagged);
+    // Only the tab that drained the worker's queue has them otherwise
+    this.election.post({ type: 'background-records', records: tagged });
+    return added;
+  }
+
+  // Background checks are older than the live ones, so they are sorted in
+  private rememberBackground(records: ConnectionRecord[]): void {
+    this.connectionHistorySignal.update(history => {
+      const known = new Set(history.map(record => record.timestamp.getTime()));
+      return [...history, ...records.filter(record => !known.has(record.timestamp.getTime()))]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .slice(-IN_MEMORY_HISTORY_SIZE);
     });
   }
 
-  addToHistory(record: ConnectionRecord): void {
+  private remember(record: ConnectionRecord): void {
     this.connectionHistorySignal.update(history => {
       const newHistory = [...history, record];
-      // Keep only last 100 records to prevent memory issues
-      return newHistory.slice(-100);
+      // Keep only the last 100 records in memory; the full history lives in IndexedDB
+      return newHistory.slice(-IN_MEMORY_HISTORY_SIZE);
     });
+    this.recordSubject.next(record);
   }
 
-  checkEndpoint(endpoint: ConnectivityEndpoint): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), endpoint.timeout || 3000);
+  private lead(): void {
+    // Carry over whether checks were paused while another tab was leading
+    if (this.remotePausedSignal()) this.scheduler.pause();
+    else if (this.scheduler.paused()) this.scheduler.resume();
+    this.scheduler.start();
+  }
 
-    return fetch(endpoint.url, {
-      method: 'GET',
-      mode: 'no-cors',
-      signal: controller.signal
-    }).then(response => {
-      clearTimeout(timeoutId);
+  private follow(): void {
+    this.scheduler.stop();
+    this.election.post({ type: 'state-request' });
+  }
 
-      // For no-cors requests, we can't read the status, so we assume success if we get a response
-      if (response.type === 'opaque') {
-        return response;
-      }
+  private receive(message: TabMessage): void {
+    const leading = this.isLeader();
+    switch (message.type) {
+      case 'state':
+        if (!leading) this.applyState(message.state);
+        break;
+      case 'record':
+        // The leader has already stored it
+        if (!leading) {
+          this.endpointHealth.recordCheck(message.record.probes ?? [], message.record.timestamp);
+          this.remember(message.record);
+        }
+        break;
+      case 'background-records':
+        // Already stored by the sending tab
+        this.historyStore.refresh();
+        this.rememberBackground(message.records);
+        break;
+      case 'state-request':
+        if (leading) this.election.post({ type: 'state', state: this.sharedState() });
+        break;
+      case 'check-request':
+        if (leading) {
+          this.checkConnectivity().then(status => this.election.post({ type: 'check-result', id: message.id, status }));
+        }
+        break;
+      case 'check-result':
+        this.pendingRemoteChecks.get(message.id)?.(message.status);
+        this.pendingRemoteChecks.delete(message.id);
+        break;
+      case 'pause':
+        if (leading) this.scheduler.pause();
+        break;
+      case 'resume':
+        if (leading) this.scheduler.resume();
+        break;
+    }
+  }
 
-      if (endpoint.expectedStatus.includes(response.status)) {
-        return response;
-      }
+  private applyState(state: SharedState): void {
+    const { status } = state;
+    this.isOnlineSignal.set(status.isOnline);
+    this.stateSignal.set(status.state);
+    this.lastCheckedSignal.set(status.lastChecked);
+    this.responseTimeSignal.set(status.responseTime);
+    this.currentEndpointSignal.set(status.endpoint);
+    this.errorSignal.set(status.error ?? null);
+    this.probesSignal.set(status.probes);
+    this.reachabilitySignal.set(status.reachability);
+    this.isCheckingSignal.set(state.isChecking);
+    this.remoteNextCheckAtSignal.set(state.nextCheckAt);
+    this.remotePausedSignal.set(state.isPaused);
+  }
 
-      throw new Error(`Unexpected status: ${response.status}`);
-    }).catch(error => {
-      clearTimeout(timeoutId);
-      throw error;
+  private async restoreHistory(): Promise<void> {
+    const stored = await this.historyStore.latest(IN_MEMORY_HISTORY_SIZE);
+    if (stored.length === 0) return;
+
+    this.connectionHistorySignal.update(history => {
+      // Checks may have completed while the store was loading
+      const oldestLive = history[0]?.timestamp.getTime() ?? Infinity;
+      const restored = stored.filter(record => record.timestamp.getTime() < oldestLive);
+      return [...restored, ...history].slice(-IN_MEMORY_HISTORY_SIZE);
     });
   }
 
-  // Manual check method for user-triggered checks
+  // `signal` lets callers cancel the probe early, on top of the endpoint's own timeout
+  async checkEndpoint(endpoint: ConnectivityEndpoint, signal?: AbortSignal): Promise<EndpointCheck> {
+    const timeout = endpoint.timeout || DEFAULT_ENDPOINT_TIMEOUT;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    try {
+      return await this.transports[transportOf(endpoint).kind].probe(endpoint, controller.signal);
+    } catch (error) {
+      if (error instanceof ProbeError) throw error;
+      if (timedOut) throw new ProbeError('timeout', `No response within ${timeout}ms`);
+      if (controller.signal.aborted) throw new ProbeError('abort', 'Probe cancelled');
+      throw new ProbeError('network', error instanceof Error ? error.message : 'Network request failed');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // Manual check method for user-triggered checks. Other tabs ask the leader,
+  // so a manual check never runs in parallel with its checks.
   async manualCheck(): Promise<ConnectivityStatus> {
-    return this.checkConnectivity();
+    if (this.isLeader()) return this.checkConnectivity();
+
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    return new Promise(resolve => {
+      const timeoutId = setTimeout(() => {
+        this.pendingRemoteChecks.delete(id);
+        resolve(this.status());
+      }, REMOTE_CHECK_TIMEOUT_MS);
+      this.pendingRemoteChecks.set(id, status => {
+        clearTimeout(timeoutId);
+        resolve(status);
+      });
+      this.election.post({ type: 'check-request', id });
+    });
   }
 
-  // Get available endpoints for UI display
+  // Get configured endpoints for UI display, in probe order
   getEndpoints(): ConnectivityEndpoint[] {
-    // Return HTTPS endpoints by default for production
-    return [...this.endpoints];
+    return [...this.endpointRegistry.endpoints()];
   }
 
   // Get recent connection history (last 10 records)
@@ -373,17 +733,31 @@ export class ConnectivityService {
     const current = this.currentEndpointSignal();
     if (!current) return { protocol: 'N/A', port: 'N/A' };
 
-    // Check if current endpoint is from HTTPS or HTTP list
-    const isHttpsEndpoint = this.endpoints.some(ep => ep.name === current);
-    const isHttpEndpoint = this.fallbackEndpoints.some(ep => ep.name === current);
+    const endpoint = this.endpointRegistry.find(current);
 
-    if (isHttpsEndpoint) {
-      return { protocol: 'HTTPS', port: '443' };
-    } else if (isHttpEndpoint) {
-      return { protocol: 'HTTP', port: '80' };
-    }
+    // Default to HTTPS/443 if the endpoint was removed since it was used
+    if (!endpoint) return { protocol: 'HTTPS', port: '443' };
+
+    const url = new URL(endpoint.url);
+    const secure = this.isSecure(endpoint);
+    return {
+      protocol: url.protocol.slice(0, -1).toUpperCase(),
+      port: url.port || (secure ? '443' : '80')
+    };
+  }
 
-    // Default to HTTPS/443 for most endpoints
-    return { protocol: 'HTTPS', port: '443' };
+  private isSecure(endpoint: ConnectivityEndpoint): boolean {
+    const protocol = new URL(endpoint.url).protocol;
+    return protocol === 'https:' || protocol === 'wss:';
   }
 }
+
+// Monitors set up differently, such as embedded widgets with their own
+// endpoints, elect their own leader
+function electionName(config: ConnectivityConfig | null): string {
+  if (!config) return 'am-i-online';
+  const json = JSON.stringify(config);
+  let hash = 0;
+  for (let i = 0; i < json.length; i++) hash = (hash * 31 + json.charCodeAt(i)) | 0;
+  return `am-i-online.${(hash >>> 0).toString(36)}`;
+}
@@ -0,0 +1,98 @@
+import { ConnectivityEndpoint } from './connectivity.service';
+
+export const DEFAULT_ENDPOINT_TIMEOUT = 3000;
+
+// Built-in probes used until the user customizes the list (and after a reset).
+// HTTPS endpoints are tried first; plain HTTP ones act as fallbacks. Apple and
+// Mozilla serve known bodies, so they double as captive portal detectors.
+export const DEFAULT_ENDPOINTS: ConnectivityEndpoint[] = [
+  {
+    name: 'Google',
+    url: 'https://google.com/generate_204',
+    expectedStatus: [200, 204],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Cloudflare',
+    url: 'https://cp.cloudflare.com/generate_204',
+    expectedStatus: [200, 204],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Microsoft',
+    url: 'https://edge-http.microsoft.com/captiveportal/generate_204',
+    expectedStatus: [200, 204],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Ubuntu',
+    url: 'https://connectivity-check.ubuntu.com',
+    expectedStatus: [200],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Apple',
+    url: 'https://captive.apple.com/hotspot-detect.html',
+    expectedStatus: [200],
+    timeout: 3000,
+    enabled: true,
+    verification: { mode: 'content', expectedBody: 'Success' }
+  },
+  {
+    name: 'Mozilla',
+    url: 'https://detectportal.firefox.com/success.txt',
+    expectedStatus: [200],
+    timeout: 3000,
+    enabled: true,
+    verification: { mode: 'content', expectedBody: 'success' }
+  },
+  // Fallback HTTP endpoints for environments that don't support HTTPS
+  {
+    name: 'Google (HTTP)',
+    url: 'http://google.com/generate_204',
+    expectedStatus: [200, 204],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Cloudflare (HTTP)',
+    url: 'http://cp.cloudflare.com/generate_204',
+    expectedStatus: [200, 204],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Microsoft (HTTP)',
+    url: 'http://edge-http.microsoft.com/captiveportal/generate_204',
+    expectedStatus: [200, 204],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Ubuntu (HTTP)',
+    url: 'http://connectivity-check.ubuntu.com',
+    expectedStatus: [200],
+    timeout: 3000,
+    enabled: true
+  },
+  {
+    name: 'Apple (HTTP)',
+    url: 'http://captive.apple.com/hotspot-detect.html',
+    expectedStatus: [200],
+    timeout: 3000,
+    enabled: true,
+    verification: { mode: 'content', expectedBody: 'Success' }
+  },
+  {
+    name: 'Mozilla (HTTP)',
+    url: 'http://detectportal.firefox.com/success.txt',
+    expectedStatus: [200],
+    timeout: 3000,
+    enabled: true,
+    verification: { mode: 'content', expectedBody: 'success' }
+  }
+];
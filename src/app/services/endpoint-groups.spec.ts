@@ -0,0 +1,62 @@
+import { ConnectionRecord, ConnectivityEndpoint, ProbeResult } from './connectivity.service';
+import { INTERNET_GROUP, groupHistory, groupNames, groupRecord } from './endpoint-groups';
+
+describe('endpoint group helpers', () => {
+  const endpoint = (name: string, group?: string): ConnectivityEndpoint =>
+    ({ name, url: `https://${name}.example.com`, expectedStatus: [200], enabled: true, group });
+
+  const probe = (endpoint: string, group: string | undefined, responseTime: number | null, intercepted = false): ProbeResult => ({
+    endpoint,
+    group,
+    success: responseTime !== null && !intercepted,
+    verified: intercepted,
+    intercepted,
+    responseTime,
+    error: responseTime === null || intercepted ? 'failed' : undefined
+  });
+
+  const record = (probes: ProbeResult[]): ConnectionRecord => ({
+    timestamp: new Date(Date.UTC(2025, 0, 1)),
+    isOnline: true,
+    state: 'online',
+    responseTime: 40,
+    endpoint: 'Google',
+    probes
+  });
+
+  it('should list the public internet first and other groups in endpoint order', () => {
+    expect(groupNames([endpoint('vpn', 'Corporate VPN'), endpoint('google'), endpoint('api', 'Our APIs'), endpoint('intranet', 'Corporate VPN')]))
+      .toEqual([INTERNET_GROUP, 'Corporate VPN', 'Our APIs']);
+    expect(groupNames([endpoint('google', '  ')])).toEqual([INTERNET_GROUP]);
+  });
+
+  it('should keep the record itself for the public internet', () => {
+    const check = record([probe('Google', undefined, 40)]);
+    expect(groupRecord(check, INTERNET_GROUP)).toBe(check);
+  });
+
+  it('should describe a group by its fastest answering endpoint', () => {
+    const check = record([probe('Google', undefined, 40), probe('vpn', 'VPN', 90), probe('intranet', 'VPN', 60), probe('wiki', 'VPN', null)]);
+    expect(groupRecord(check, 'VPN')).toEqual(jasmine.objectContaining({
+      isOnline: true,
+      state: 'online',
+      responseTime: 60,
+      endpoint: 'intranet'
+    }));
+    expect(groupRecord(check, 'VPN')!.probes!.length).toBe(3);
+  });
+
+  it('should report a group as offline or intercepted without inheriting the internet state', () => {
+    expect(groupRecord(record([probe('vpn', 'VPN', null)]), 'VPN')).toEqual(jasmine.objectContaining({
+      isOnline: false,
+      state: 'offline',
+      error: 'All endpoints in this group failed'
+    }));
+    expect(groupRecord(record([probe('vpn', 'VPN', 20, true)]), 'VPN')!.state).toBe('intercepted');
+  });
+
+  it('should skip checks that did not probe the group', () => {
+    const history = [record([probe('Google', undefined, 40)]), record([probe('vpn', 'VPN', 50)])];
+    expect(groupHistory(history, 'VPN').length).toBe(1);
+  });
+});
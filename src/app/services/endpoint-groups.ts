@@ -0,0 +1,49 @@
+import { ConnectionRecord, ConnectivityEndpoint, ConnectionState, ProbeResult } from './connectivity.service';
+
+// Endpoints without a group probe the public internet, which decides the overall state
+export const INTERNET_GROUP = 'Public Internet';
+
+export function groupOf(endpoint: Pick<ConnectivityEndpoint, 'group'> | Pick<ProbeResult, 'group'>): string {
+  return endpoint.group?.trim() || INTERNET_GROUP;
+}
+
+// Groups with at least one endpoint, the public internet first, the rest in endpoint order
+export function groupNames(endpoints: ConnectivityEndpoint[]): string[] {
+  const names = new Set(endpoints.map(groupOf));
+  names.delete(INTERNET_GROUP);
+  return [INTERNET_GROUP, ...names];
+}
+
+// A check as seen by one group, or null when the check probed none of its endpoints.
+// The record itself already describes the public internet.
+export function groupRecord(record: ConnectionRecord, group: string): ConnectionRecord | null {
+  if (group === INTERNET_GROUP) return record;
+
+  const probes = (record.probes ?? []).filter(probe => groupOf(probe) === group);
+  if (probes.length === 0) return null;
+
+  const intercepted = probes.find(probe => probe.intercepted);
+  const fastest = probes
+    .filter(probe => probe.success)
+    .sort((a, b) => (a.responseTime ?? Infinity) - (b.responseTime ?? Infinity))[0];
+  const state: ConnectionState = intercepted ? 'intercepted' : fastest ? 'online' : 'offline';
+
+  return {
+    timestamp: record.timestamp,
+    isOnline: state === 'online',
+    state,
+    responseTime: state === 'online' ? fastest.responseTime : null,
+    endpoint: (intercepted ?? fastest)?.endpoint ?? null,
+    error: intercepted
+      ? `${intercepted.endpoint}: ${intercepted.error}`
+      : fastest ? undefined : 'All endpoints in this group failed',
+    probes
+  };
+}
+
+// The checks that reached a group, oldest first like `records`
+export function groupHistory(records: ConnectionRecord[], group: string): ConnectionRecord[] {
+  return records
+    .map(record => groupRecord(record, group))
+    .filter((record): record is ConnectionRecord => record !== null);
+}
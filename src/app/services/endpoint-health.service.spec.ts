@@ -0,0 +1,59 @@
+import { applyProbe, emptyHealth, EndpointHealth } from './endpoint-health.service';
+import { ProbeResult } from './connectivity.service';
+
+describe('EndpointHealthService', () => {
+  const at = new Date(Date.UTC(2025, 0, 1));
+  const cooldown = 60000;
+
+  const success = (responseTime: number): ProbeResult => ({
+    endpoint: 'Google', success: true, verified: false, intercepted: false, responseTime
+  });
+  const failure: ProbeResult = {
+    endpoint: 'Google', success: false, verified: false, intercepted: false,
+    responseTime: null, error: 'No response within 3000ms', errorKind: 'timeout'
+  };
+
+  const fail = (health: EndpointHealth, times: number, countsTowardsBreaker = true): EndpointHealth => {
+    for (let i = 0; i < times; i++) {
+      health = applyProbe(health, failure, at, countsTowardsBreaker, 3, cooldown);
+    }
+    return health;
+  };
+
+  it('should count successes and bucket latency', () => {
+    const health = applyProbe(emptyHealth('Google'), success(75), at, true, 3, cooldown);
+
+    expect(health.attempts).toBe(1);
+    expect(health.successes).toBe(1);
+    expect(health.latencyHistogram[1]).toBe(1);
+    expect(health.latencySamples).toEqual([75]);
+  });
+
+  it('should record the last error kind', () => {
+    const health = fail(emptyHealth('Google'), 1);
+
+    expect(health.lastErrorKind).toBe('timeout');
+    expect(health.errorCounts.timeout).toBe(1);
+  });
+
+  it('should open the circuit after the threshold of consecutive failures', () => {
+    const health = fail(emptyHealth('Google'), 3);
+
+    expect(health.circuit).toBe('open');
+    expect(health.retestAt?.getTime()).toBe(at.getTime() + cooldown);
+  });
+
+  it('should not trip the breaker when every endpoint failed', () => {
+    const health = fail(emptyHealth('Google'), 5, false);
+
+    expect(health.circuit).toBe('closed');
+    expect(health.attempts).toBe(5);
+  });
+
+  it('should re-open a half-open circuit on the first failure and close it on success', () => {
+    const halfOpen: EndpointHealth = { ...emptyHealth('Google'), circuit: 'half-open' };
+
+    expect(fail(halfOpen, 1).circuit).toBe('open');
+    expect(applyProbe(halfOpen, success(40), at, true, 3, cooldown).circuit).toBe('closed');
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { ProbeResult } from './connectivity.service';
+import { ProbeErrorKind } from './probe-error';
+import { SettingsService } from './settings.service';
+import { percentile } from './stats.service';
+
+// Upper bounds (ms) of the latency histogram buckets; the last one catches the rest
+export const LATENCY_BUCKETS = [50, 100, 200, 500, 1000, Infinity];
+
+// Recent latencies kept per endpoint for percentiles
+const LATENCY_SAMPLE_SIZE = 100;
+
+// closed: probed normally; open: skipped until the cooldown passes;
+// half-open: cooldown passed, the next probe decides whether it closes again
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EndpointHealth {
+  endpoint: string;
+  attempts: number;
+  successes: number;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorKind: ProbeErrorKind | null;
+  errorCounts: Partial<Record<ProbeErrorKind, number>>;
+  lastSuccess: Date | null;
+  lastFailure: Date | null;
+  latencyHistogram: number[];
+  latencySamples: number[];
+  circuit: CircuitState;
+  // When a tripped endpoint will be retested
+  retestAt: Date | null;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class EndpointHealthService {
+  private settingsService = inject(SettingsService);
+
+  private healthSignal = signal<Record<string, EndpointHealth>>({});
+
+  readonly health = this.healthSignal.asReadonly();
+
+  get(endpoint: string): EndpointHealth | null {
+    return this.healthSignal()[endpoint] ?? null;
+  }
+
+  // Whether the endpoint should be probed now. Moves open circuits whose
+  // cooldown has passed to half-open so they get retested.
+  isAvailable(endpoint: string, now = Date.now()): boolean {
+    const health = this.get(endpoint);
+    if (!health || health.circuit !== 'open') return true;
+    if (health.retestAt && health.retestAt.getTime() > now) return false;
+
+    this.patch(endpoint, { circuit: 'half-open', retestAt: null });
+    return true;
+  }
+
+  // Records every probe of a check. Failures only count towards the breaker when
+  // another endpoint answered in the same check; when everything fails the
+  // problem is the connection, not the endpoint.
+  recordCheck(probes: ProbeResult[], at = new Date()): void {
+    const endpointSpecific = probes.some(probe => probe.success);
+    const { circuitBreakerThreshold, circuitBreakerCooldownMs } = this.settingsService.settings();
+
+    this.healthSignal.update(all => {
+      const next = { ...all };
+      for (const probe of probes) {
+        // Cancelled race losers say nothing about the endpoint
+        if (probe.errorKind === 'abort') continue;
+        next[probe.endpoint] = applyProbe(
+          next[probe.endpoint] ?? emptyHealth(probe.endpoint),
+          probe,
+          at,
+          endpointSpecific,
+          circuitBreakerThreshold,
+          circuitBreakerCooldownMs
+        );
+      }
+      return next;
+    });
+  }
+
+  reset(endpoint?: string): void {
+    if (endpoint === undefined) {
+      this.healthSignal.set({});
+      return;
+    }
+    this.healthSignal.update(all => {
+      const { [endpoint]: _removed, ...rest } = all;
+      return rest;
+    });
+  }
+
+  private patch(endpoint: string, changes: Partial<EndpointHealth>): void {
+    this.healthSignal.update(all => ({ ...all, [endpoint]: { ...(all[endpoint] ?? emptyHealth(endpoint)), ...changes } }));
+  }
+}
+
+export function emptyHealth(endpoint: string): EndpointHealth {
+  return {
+    endpoint,
+    attempts: 0,
+    successes: 0,
+    consecutiveFailures: 0,
+    lastError: null,
+    lastErrorKind: null,
+    errorCounts: {},
+    lastSuccess: null,
+    lastFailure: null,
+    latencyHistogram: LATENCY_BUCKETS.map(() => 0),
+    latencySamples: [],
+    circuit: 'closed',
+    retestAt: null
+  };
+}
+
+export function applyProbe(
+  health: EndpointHealth,
+  probe: ProbeResult,
+  at: Date,
+  countsTowardsBreaker: boolean,
+  threshold: number,
+  cooldownMs: number
+): EndpointHealth {
+  const next: EndpointHealth = { ...health, attempts: health.attempts + 1 };
+
+  if (probe.success) {
+    next.successes = health.successes + 1;
+    next.consecutiveFailures = 0;
+    next.lastSuccess = at;
+    next.circuit = 'closed';
+    next.retestAt = null;
+
+    if (probe.responseTime !== null) {
+      const bucket = LATENCY_BUCKETS.findIndex(bound => probe.responseTime! <= bound);
+      next.latencyHistogram = health.latencyHistogram.map((count, index) => index === bucket ? count + 1 : count);
+      next.latencySamples = [...health.latencySamples, probe.responseTime].slice(-LATENCY_SAMPLE_SIZE);
+    }
+    return next;
+  }
+
+  const kind = probe.errorKind ?? 'network';
+  next.lastError = probe.error ?? null;
+  next.lastErrorKind = kind;
+  next.errorCounts = { ...health.errorCounts, [kind]: (health.errorCounts[kind] ?? 0) + 1 };
+  next.lastFailure = at;
+
+  if (countsTowardsBreaker) {
+    next.consecutiveFailures = health.consecutiveFailures + 1;
+    // A failed retest re-opens immediately; otherwise wait for the threshold
+    if (health.circuit === 'half-open' || next.consecutiveFailures >= threshold) {
+      next.circuit = 'open';
+      next.retestAt = new Date(at.getTime() + cooldownMs);
+    }
+  }
+  return next;
+}
+
+// Nearest-rank percentile of the recent latency samples
+export function latencyPercentile(health: EndpointHealth, p: number): number | null {
+  return percentile(health.latencySamples, p);
+}
@@ -0,0 +1,113 @@
+import { TestBed } from '@angular/core/testing';
+import { EndpointRegistryService } from './endpoint-registry.service';
+import { DEFAULT_ENDPOINTS } from './default-endpoints';
+import { ConnectivityEndpoint } from './connectivity.service';
+
+describe('EndpointRegistryService', () => {
+  let registry: EndpointRegistryService;
+
+  const gateway: ConnectivityEndpoint = {
+    name: 'API Gateway',
+    url: 'https://api.example.com/health',
+    expectedStatus: [200],
+    timeout: 2000,
+    enabled: true
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem('am-i-online.endpoints');
+    TestBed.configureTestingModule({});
+    registry = TestBed.inject(EndpointRegistryService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('am-i-online.endpoints');
+    localStorage.removeItem('am-i-online.endpoints-version');
+  });
+
+  // A fresh registry reading what is in storage now
+  const reload = () => {
+    TestBed.resetTestingModule();
+    return TestBed.inject(EndpointRegistryService);
+  };
+
+  it('should start with the built-in defaults', () => {
+    expect(registry.endpoints().length).toBe(DEFAULT_ENDPOINTS.length);
+    expect(registry.isCustomized()).toBe(false);
+  });
+
+  it('should add a valid endpoint and persist it', () => {
+    expect(registry.add(gateway)).toEqual([]);
+    expect(registry.find('API Gateway')).toBeDefined();
+
+    const stored = JSON.parse(localStorage.getItem('am-i-online.endpoints') ?? '[]');
+    expect(stored.some((ep: ConnectivityEndpoint) => ep.name === 'API Gateway')).toBe(true);
+  });
+
+  it('should reject invalid endpoints', () => {
+    const errors = registry.add({ name: 'Google', url: 'ftp://x', expectedStatus: [999], timeout: 10, enabled: true });
+    expect(errors.length).toBe(4);
+    expect(registry.endpoints().length).toBe(DEFAULT_ENDPOINTS.length);
+  });
+
+  it('should only accept WebSocket URLs for the WebSocket transport', () => {
+    const socket: ConnectivityEndpoint = { ...gateway, name: 'Socket', url: 'wss://echo.example.com', transport: { kind: 'websocket', echo: 'ping' } };
+    expect(registry.add(socket)).toEqual([]);
+    expect(registry.add({ ...socket, name: 'Plain', transport: { kind: 'fetch' } })).toEqual(['URL must use http or https']);
+    expect(registry.add({ ...gateway, name: 'Wrong', transport: { kind: 'websocket' } })).toEqual(['WebSocket URLs must use ws or wss']);
+  });
+
+  it('should reject verification a transport cannot do', () => {
+    const beacon: ConnectivityEndpoint = { ...gateway, transport: { kind: 'image' }, verification: { mode: 'status' } };
+    expect(registry.add(beacon)).toEqual(['Image and WebSocket transports cannot verify responses']);
+
+    const head: ConnectivityEndpoint = { ...gateway, transport: { kind: 'fetch', method: 'HEAD' }, verification: { mode: 'content', expectedBody: 'ok' } };
+    expect(registry.add(head)).toEqual(['Content and hash verification need a GET request']);
+  });
+
+  it('should drop transport options that do not apply', () => {
+    registry.add({ ...gateway, transport: { kind: 'image', method: 'HEAD', mode: 'cors' } });
+    expect(registry.find('API Gateway')?.transport).toEqual({ kind: 'image' });
+  });
+
+  it('should allow renaming an endpoint to its own name', () => {
+    const google = registry.find('Google')!;
+    expect(registry.update('Google', { ...google, timeout: 5000 })).toEqual([]);
+    expect(registry.find('Google')?.timeout).toBe(5000);
+  });
+
+  it('should disable and reorder endpoints', () => {
+    registry.setEnabled('Google', false);
+    registry.move('Google', 1);
+
+    expect(registry.endpoints()[1].name).toBe('Google');
+    expect(registry.enabledEndpoints().some(ep => ep.name === 'Google')).toBe(false);
+  });
+
+  it('should give built-in endpoints saved before verification existed the default one', () => {
+    const saved = DEFAULT_ENDPOINTS.map(endpoint => ({ ...endpoint, verification: undefined }));
+    localStorage.setItem('am-i-online.endpoints', JSON.stringify([...saved, gateway]));
+    registry = reload();
+
+    expect(registry.find('Apple')?.verification).toEqual({ mode: 'content', expectedBody: 'Success' });
+    expect(registry.find('Google')?.verification).toBeUndefined();
+    expect(registry.find('API Gateway')?.verification).toBeUndefined();
+  });
+
+  it('should not bring back a verification removed after the migration', () => {
+    const apple = registry.find('Apple')!;
+    registry.update('Apple', { ...apple, verification: undefined });
+    registry = reload();
+
+    expect(registry.find('Apple')?.verification).toBeUndefined();
+  });
+
+  it('should reset to the defaults', () => {
+    registry.add(gateway);
+    registry.remove('Google');
+    registry.resetToDefaults();
+
+    expect(registry.endpoints()).toEqual(DEFAULT_ENDPOINTS);
+    expect(localStorage.getItem('am-i-online.endpoints')).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { ConnectivityEndpoint } from './connectivity.service';
+import { DEFAULT_ENDPOINTS } from './default-endpoints';
+import { CONNECTIVITY_CONFIG } from './connectivity-config';
+import { EndpointTransport, TRANSPORT_KINDS } from './probe-transport';
+import { readJson, writeJson, removeKey } from '../utils/local-storage';
+
+const STORAGE_KEY = 'am-i-online.endpoints';
+// Saved lists without a version are from before response verification
+const VERSION_KEY = 'am-i-online.endpoints-version';
+const STORAGE_VERSION = 2;
+
+export const MIN_ENDPOINT_TIMEOUT = 250;
+export const MAX_ENDPOINT_TIMEOUT = 60000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class EndpointRegistryService {
+
+  // Embedding apps may bring their own list, which then replaces the built-in one
+  private configured = inject(CONNECTIVITY_CONFIG, { optional: true })?.endpoints;
+  private readonly defaults = this.configured ?? DEFAULT_ENDPOINTS;
+  private endpointsSignal = signal<ConnectivityEndpoint[]>(this.load());
+
+  // Ordered by priority: earlier endpoints are probed first
+  readonly endpoints = this.endpointsSignal.asReadonly();
+
+  readonly enabledEndpoints = computed(() => this.endpointsSignal().filter(ep => ep.enabled));
+
+  readonly isCustomized = computed(() =>
+    JSON.stringify(this.endpointsSignal()) !== JSON.stringify(this.defaults)
+  );
+
+  // Returns a list of human readable problems; an empty list means the endpoint is valid.
+  // `originalName` is the name being edited, so renaming to itself isn't a duplicate.
+  validate(endpoint: ConnectivityEndpoint, originalName?: string): string[] {
+    const otherNames = this.endpointsSignal().map(ep => ep.name).filter(name => name !== originalName);
+    return validateEndpoint(endpoint, otherNames);
+  }
+
+  add(endpoint: ConnectivityEndpoint): string[] {
+    const errors = this.validate(endpoint);
+    if (errors.length === 0) {
+      this.commit([...this.endpointsSignal(), this.normalize(endpoint)]);
+    }
+    return errors;
+  }
+
+  update(originalName: string, endpoint: ConnectivityEndpoint): string[] {
+    if (!this.find(originalName)) return [`Unknown endpoint "${originalName}"`];
+
+    const errors = this.validate(endpoint, originalName);
+    if (errors.length === 0) {
+      this.commit(this.endpointsSignal().map(ep => ep.name === originalName ? this.normalize(endpoint) : ep));
+    }
+    return errors;
+  }
+
+  remove(name: string): void {
+    this.commit(this.endpointsSignal().filter(ep => ep.name !== name));
+  }
+
+  setEnabled(name: string, enabled: boolean): void {
+    this.commit(this.endpointsSignal().map(ep => ep.name === name ? { ...ep, enabled } : ep));
+  }
+
+  // Moves an endpoint up (-1) or down (+1) in the probe order
+  move(name: string, offset: number): void {
+    const list = [...this.endpointsSignal()];
+    const index = list.findIndex(ep => ep.name === name);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= list.length) return;
+
+    [list[index], list[target]] = [list[target], list[index]];
+    this.commit(list);
+  }
+
+  resetToDefaults(): void {
+    removeKey(STORAGE_KEY);
+    removeKey(VERSION_KEY);
+    this.endpointsSignal.set(structuredClone(this.defaults));
+  }
+
+  find(name: string): ConnectivityEndpoint | undefined {
+    return this.endpointsSignal().find(ep => ep.name === name);
+  }
+
+  private commit(endpoints: ConnectivityEndpoint[]): void {
+    this.endpointsSignal.set(endpoints);
+    writeJson(STORAGE_KEY, endpoints);
+    writeJson(VERSION_KEY, STORAGE_VERSION);
+  }
+
+  private normalize(endpoint: ConnectivityEndpoint): ConnectivityEndpoint {
+    return {
+      ...endpoint,
+      name: endpoint.name.trim(),
+      url: endpoint.url.trim(),
+      expectedStatus: [...new Set(endpoint.expectedStatus)],
+      // Blank means the public internet
+      group: endpoint.group?.trim() || undefined,
+      transport: endpoint.transport && normalizeTransport(endpoint.transport)
+    };
+  }
+
+  private load(): ConnectivityEndpoint[] {
+    // A host's list wins over one saved by the full app on the same origin
+    if (this.configured) return structuredClone(this.configured);
+
+    const stored = readJson<ConnectivityEndpoint[] | null>(STORAGE_KEY, null);
+    if (!Array.isArray(stored)) return structuredClone(DEFAULT_ENDPOINTS);
+
+    // Drop anything that no longer validates (e.g. hand-edited storage)
+    const valid: ConnectivityEndpoint[] = [];
+    for (const endpoint of stored) {
+      if (!endpoint || typeof endpoint !== 'object') continue;
+      const candidate = { ...endpoint, enabled: endpoint.enabled !== false };
+      if (validateEndpoint(candidate, valid.map(ep => ep.name)).length === 0) {
+        valid.push(candidate);
+      }
+    }
+
+    // Once, so a verification the user removed afterwards stays removed
+    if (readJson<number>(VERSION_KEY, 1) < STORAGE_VERSION) {
+      const migrated = valid.map(withDefaultVerification);
+      writeJson(STORAGE_KEY, migrated);
+      writeJson(VERSION_KEY, STORAGE_VERSION);
+      return migrated;
+    }
+    return valid;
+  }
+}
+
+// Built-in endpoints saved without a verification get the built-in one
+function withDefaultVerification(endpoint: ConnectivityEndpoint): ConnectivityEndpoint {
+  if (endpoint.verification) return endpoint;
+  const builtIn = DEFAULT_ENDPOINTS.find(ep => ep.url === endpoint.url);
+  return builtIn?.verification ? { ...endpoint, verification: { ...builtIn.verification } } : endpoint;
+}
+
+export function validateEndpoint(endpoint: ConnectivityEndpoint, existingNames: string[]): string[] {
+  const errors: string[] = [];
+  const name = typeof endpoint.name === 'string' ? endpoint.name.trim() : '';
+
+  if (!name) {
+    errors.push('Name is required');
+  } else if (existingNames.includes(name)) {
+    errors.push(`An endpoint named "${name}" already exists`);
+  }
+
+  const transport = endpoint.transport;
+  const kind = transport?.kind ?? 'fetch';
+  try {
+    const url = new URL(endpoint.url);
+    if (kind === 'websocket') {
+      if (url.protocol !== 'wss:' && url.protocol !== 'ws:') errors.push('WebSocket URLs must use ws or wss');
+    } else if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      errors.push('URL must use http or https');
+    }
+  } catch {
+    errors.push('URL is not valid');
+  }
+
+  if (!Array.isArray(endpoint.expectedStatus) || endpoint.expectedStatus.length === 0) {
+    errors.push('At least one expected status is required');
+  } else if (endpoint.expectedStatus.some(code => !Number.isInteger(code) || code < 100 || code > 599)) {
+    errors.push('Expected status codes must be between 100 and 599');
+  }
+
+  if (endpoint.timeout !== undefined && endpoint.timeout !== null &&
+    (!Number.isFinite(endpoint.timeout) || endpoint.timeout < MIN_ENDPOINT_TIMEOUT || endpoint.timeout > MAX_ENDPOINT_TIMEOUT)) {
+    errors.push(`Timeout must be between ${MIN_ENDPOINT_TIMEOUT} and ${MAX_ENDPOINT_TIMEOUT}ms`);
+  }
+
+  if (endpoint.group !== undefined && typeof endpoint.group !== 'string') {
+    errors.push('Group must be a name');
+  }
+
+  if (transport) {
+    if (!TRANSPORT_KINDS.includes(transport.kind)) {
+      errors.push('Unknown transport');
+    } else if (transport.method !== undefined && !['GET', 'HEAD'].includes(transport.method)) {
+      errors.push('Method must be GET or HEAD');
+    } else if (transport.mode !== undefined && !['cors', 'no-cors'].includes(transport.mode)) {
+      errors.push('Mode must be cors or no-cors');
+    } else if (transport.echo !== undefined && typeof transport.echo !== 'string') {
+      errors.push('Echo message must be text');
+    }
+  }
+
+  const verification = endpoint.verification;
+  if (verification) {
+    if (!['none', 'status', 'content', 'hash'].includes(verification.mode)) {
+      errors.push('Unknown verification mode');
+    } else if (verification.mode === 'content' && !verification.expectedBody) {
+      errors.push('Content verification needs the expected body text');
+    } else if (verification.mode === 'hash' && !/^[0-9a-f]{64}$/i.test(verification.bodySha256 ?? '')) {
+      errors.push('Hash verification needs a hex encoded SHA-256 digest');
+    }
+
+    // Image beacons and WebSockets never expose a status or body
+    if ((kind === 'image' || kind === 'websocket') && verification.mode !== 'none') {
+      errors.push('Image and WebSocket transports cannot verify responses');
+    } else if ((verification.mode === 'content' || verification.mode === 'hash') && transport?.method === 'HEAD') {
+      errors.push('Content and hash verification need a GET request');
+    }
+  }
+
+  return errors;
+}
+
+// Keeps only the options that apply to the transport's kind
+function normalizeTransport(transport: EndpointTransport): EndpointTransport {
+  switch (transport.kind) {
+    case 'fetch': return { kind: 'fetch', method: transport.method ?? 'GET', mode: transport.mode ?? 'no-cors' };
+    case 'xhr': return { kind: 'xhr', method: transport.method ?? 'GET' };
+    case 'websocket': return transport.echo ? { kind: 'websocket', echo: transport.echo } : { kind: 'websocket' };
+    case 'image': return { kind: 'image' };
+  }
+}
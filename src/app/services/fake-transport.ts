@@ -0,0 +1,52 @@
+import { ConnectivityEndpoint, EndpointCheck } from './connectivity.service';
+import { ProbeError, ProbeErrorKind } from './probe-error';
+import { ProbeTransport, ProbeTransports } from './probe-transport';
+
+// How the fake answers one endpoint
+export interface FakeAnswer {
+  // Answers after this many ms (0 by default); null never answers, so the
+  // probe runs into its timeout
+  delayMs?: number | null;
+  // Fails with this error instead of answering
+  error?: { kind: Exclude<ProbeErrorKind, 'timeout' | 'abort'>; message: string };
+  verified?: boolean;
+  status?: number | null;
+}
+
+// Answers probes from a script instead of the network, for deterministic tests.
+// Delays use setTimeout, so they follow fake clocks.
+export class FakeTransport implements ProbeTransport {
+  private answers = new Map<string, FakeAnswer>();
+
+  // Endpoint names in the order they were probed
+  readonly probed: string[] = [];
+
+  // Endpoints without an answer succeed right away, unverified
+  answer(endpoint: string, answer: FakeAnswer): this {
+    this.answers.set(endpoint, answer);
+    return this;
+  }
+
+  probe(endpoint: ConnectivityEndpoint, signal: AbortSignal): Promise<EndpointCheck> {
+    this.probed.push(endpoint.name);
+    const answer = this.answers.get(endpoint.name) ?? {};
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        if (answer.error) reject(new ProbeError(answer.error.kind, answer.error.message));
+        else resolve({ verified: answer.verified ?? false, status: answer.status ?? null });
+      };
+      const delayMs = answer.delayMs === undefined ? 0 : answer.delayMs;
+      const timeoutId = delayMs === null ? null : setTimeout(settle, delayMs);
+      signal.addEventListener('abort', () => {
+        if (timeoutId !== null) clearTimeout(timeoutId);
+        reject(new Error('Aborted'));
+      }, { once: true });
+    });
+  }
+}
+
+// Every transport kind answered by the same fake
+export function fakeTransports(fake: FakeTransport): ProbeTransports {
+  return { fetch: fake, image: fake, websocket: fake, xhr: fake };
+}
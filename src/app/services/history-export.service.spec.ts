@@ -0,0 +1,153 @@
+import { toCsv, toJson, toNdjson, parseExport, detectFormat, parseCsv, summarizeEndpoints, HistoryExport } from './history-export.service';
+import { ConnectionRecord } from './connectivity.service';
+import { computeStats } from './stats.service';
+
+describe('HistoryExportService formats', () => {
+  const base = Date.UTC(2025, 0, 1, 10);
+
+  const records: ConnectionRecord[] = [
+    {
+      timestamp: new Date(base),
+      isOnline: true,
+      state: 'online',
+      responseTime: 42,
+      endpoint: 'Google',
+      network: { type: 'wifi', effectiveType: '4g', downlink: 10, rtt: 50, saveData: false },
+      probes: [
+        { endpoint: 'Google', success: true, verified: false, intercepted: false, responseTime: 42 },
+        { endpoint: 'Cloudflare', success: false, verified: false, intercepted: false, responseTime: null, error: 'Timed out, "slow"', errorKind: 'timeout' }
+      ]
+    },
+    {
+      timestamp: new Date(base + 30000),
+      isOnline: false,
+      state: 'offline',
+      responseTime: null,
+      endpoint: null,
+      error: 'All connectivity endpoints failed'
+    }
+  ];
+
+  const data: HistoryExport = {
+    exportedAt: new Date(base + 60000),
+    from: new Date(base),
+    to: new Date(base + 60000),
+    stats: computeStats(records),
+    endpointStats: summarizeEndpoints(records),
+    records,
+    incidents: [
+      { start: new Date(base + 30000), end: new Date(base + 60000), failedChecks: 1, lastError: 'All connectivity endpoints failed' }
+    ]
+  };
+
+  it('should round-trip records and incidents through JSON', () => {
+    const text = toJson(data);
+    expect(detectFormat(text)).toBe('json');
+
+    const parsed = parseExport(text);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.records).toEqual(records);
+    expect(parsed.incidents).toEqual(data.incidents);
+  });
+
+  it('should round-trip records and incidents through NDJSON', () => {
+    const text = toNdjson(data);
+    expect(detectFormat(text)).toBe('ndjson');
+
+    const parsed = parseExport(text);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.records).toEqual(records);
+    expect(parsed.incidents).toEqual(data.incidents);
+  });
+
+  it('should round-trip records with per-endpoint results and incidents through CSV', () => {
+    const text = toCsv(data);
+    expect(detectFormat(text)).toBe('csv');
+
+    const parsed = parseExport(text);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.records).toEqual(records);
+    expect(parsed.incidents).toEqual(data.incidents);
+  });
+
+  it('should add the stats, per-endpoint results and incidents to the CSV as sections', () => {
+    const rows = parseCsv(toCsv(data));
+    const sections = rows.filter(row => row.length === 1 && row[0] === '').length + 1;
+    expect(sections).toBe(4);
+
+    expect(rows).toContain(['uptime', String(data.stats.uptime)]);
+    expect(rows).toContain(['p95_response_time', '42']);
+    expect(rows).toContain(['Cloudflare', '1', '0', '0', '', 'timeout: 1']);
+    expect(rows[rows.length - 1]).toEqual([
+      data.incidents[0].start.toISOString(),
+      data.incidents[0].end!.toISOString(),
+      '1',
+      'All connectivity endpoints failed'
+    ]);
+  });
+
+  it('should still import CSV files with only checks', () => {
+    const checksOnly = toCsv(data).split('\r\n\r\n')[0];
+    const parsed = parseExport(checksOnly);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.records).toEqual(records);
+    expect(parsed.incidents).toEqual([]);
+  });
+
+  it('should keep maintenance and background flags through every format', () => {
+    const tagged: ConnectionRecord[] = [
+      { ...records[0], maintenance: 'Router update' },
+      { ...records[1], background: true }
+    ];
+    const taggedData = { ...data, records: tagged };
+
+    expect(parseExport(toJson(taggedData)).records).toEqual(tagged);
+    expect(parseExport(toNdjson(taggedData)).records).toEqual(tagged);
+    expect(parseExport(toCsv(taggedData)).records).toEqual(tagged);
+  });
+
+  it('should tell files from before maintenance tagging apart', () => {
+    expect(parseExport(toJson(data)).untagged).toBe(false);
+    expect(parseExport(toNdjson(data)).untagged).toBe(false);
+    expect(parseExport(toCsv(data)).untagged).toBe(false);
+
+    const older = JSON.parse(toJson(data));
+    older.version = 1;
+    expect(parseExport(JSON.stringify(older)).untagged).toBe(true);
+
+    const [header, ...rows] = parseCsv(toCsv(data).split('\r\n\r\n')[0]);
+    const withoutTags = [header, ...rows].map(row => row.filter((_, index) => !['maintenance', 'background'].includes(header[index])));
+    const parsed = parseExport(withoutTags.map(row => row.map(field => `"${field.replace(/"/g, '""')}"`).join(',')).join('\r\n'));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.records).toEqual(records);
+    expect(parsed.untagged).toBe(true);
+  });
+
+    it('should skip and report invalid records', () => {
+    const document = JSON.parse(toJson(data));
+    document.records[1].timestamp = 'yesterday';
+    document.records[0].probes[0].success = 'yes';
+    document.records.push({ ...document.records[0], probes: [], maintenance: '' }, { ...document.records[0], probes: [], background: 'yes' });
+
+    const parsed = parseExport(JSON.stringify(document));
+    expect(parsed.records).toEqual([]);
+    expect(parsed.errors).toEqual([
+      'Record 1: probe 1: invalid success flag',
+      'Record 2: invalid timestamp',
+      'Record 3: invalid maintenance window',
+      'Record 4: invalid background flag'
+    ]);
+  });
+
+  it('should reject files that are not exports', () => {
+    expect(parseExport('{"hello": "world"}').errors).toEqual(['The file is not an Am I Online export']);
+    expect(parseExport('name,url\nGoogle,https://google.com').errors.length).toBe(1);
+  });
+
+  it('should summarize per-endpoint results', () => {
+    expect(data.endpointStats).toEqual([
+      { endpoint: 'Google', probes: 1, successes: 1, successRate: 100, averageResponseTime: 42, errorCounts: {} },
+      { endpoint: 'Cloudflare', probes: 1, successes: 0, successRate: 0, averageResponseTime: null, errorCounts: { timeout: 1 } }
+    ]);
+  });
+});
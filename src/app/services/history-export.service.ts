@@ -0,0 +1,724 @@
+import { Injectable, inject } from '@angular/core';
+import { ConnectionRecord, ConnectionState, ProbeResult } from './connectivity.service';
+import { NetworkInfo } from './network-info.service';
+import { HistoryStoreService } from './history-store.service';
+import { IncidentService, Incident } from './incident.service';
+import { MaintenanceService } from './maintenance.service';
+import { ConnectionStats, computeStats } from './stats.service';
+import { ProbeErrorKind } from './probe-error';
+import { ProbeTiming, TIMING_PHASES } from './probe-timing';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+// Identifies files written by this app so unrelated JSON is rejected on import
+export const EXPORT_FORMAT_ID = 'am-i-online-history';
+export const EXPORT_VERSION = 2;
+// Files from this version on say which checks ran in a maintenance window
+const MAINTENANCE_TAGGED_VERSION = 2;
+
+// Import errors beyond this many are summarised instead of listed
+const MAX_REPORTED_ERRORS = 20;
+
+const STATES: ConnectionState[] = ['online', 'degraded', 'offline', 'intercepted'];
+const ERROR_KINDS: ProbeErrorKind[] = ['timeout', 'abort', 'network', 'status', 'intercepted'];
+
+// One row per probe; checks without per-endpoint results get a single row with
+// empty probe columns
+const CSV_COLUMNS = [
+  'timestamp',
+  'state',
+  'online',
+  'response_time',
+  'endpoint',
+  'error',
+  'connection_type',
+  'effective_type',
+  'downlink',
+  'rtt',
+  'save_data',
+  'maintenance',
+  'background',
+  'probe_endpoint',
+  'probe_group',
+  'probe_success',
+  'probe_verified',
+  'probe_intercepted',
+  'probe_response_time',
+  'probe_error_kind',
+  'probe_error'
+] as const;
+
+// Columns added after the first export version; older files don't have them
+const OPTIONAL_CSV_COLUMNS: readonly string[] = [
+  'probe_group',
+  'connection_type',
+  'effective_type',
+  'downlink',
+  'rtt',
+  'save_data',
+  'maintenance',
+  'background'
+];
+
+// The CSV sections after the checks, each with its own header row and
+// separated by an empty line. Only incidents are read back on import; the
+// stats are derived from the checks.
+const CSV_STATS: [string, keyof ConnectionStats][] = [
+  ['total_checks', 'totalChecks'],
+  ['successful_checks', 'successfulChecks'],
+  ['success_rate', 'successRate'],
+  ['uptime', 'uptime'],
+  ['nines', 'nines'],
+  ['mean_response_time', 'mean'],
+  ['median_response_time', 'median'],
+  ['p95_response_time', 'p95'],
+  ['p99_response_time', 'p99'],
+  ['response_time_std_dev', 'stdDev'],
+  ['min_response_time', 'min'],
+  ['max_response_time', 'max']
+];
+const CSV_ENDPOINT_COLUMNS = ['endpoint', 'probes', 'successes', 'success_rate', 'average_response_time', 'errors'];
+const CSV_INCIDENT_COLUMNS = ['incident_start', 'incident_end', 'failed_checks', 'last_error'] as const;
+
+interface CsvSection {
+  // 1-based row number of the section's header
+  firstRow: number;
+  rows: string[][];
+}
+
+export interface EndpointStats {
+  endpoint: string;
+  probes: number;
+  successes: number;
+  successRate: number;
+  averageResponseTime: number | null;
+  errorCounts: Partial<Record<ProbeErrorKind, number>>;
+}
+
+export interface HistoryExport {
+  exportedAt: Date;
+  from: Date;
+  to: Date;
+  stats: ConnectionStats;
+  endpointStats: EndpointStats[];
+  records: ConnectionRecord[];
+  incidents: Incident[];
+}
+
+export interface ParsedImport {
+  records: ConnectionRecord[];
+  incidents: Incident[];
+  errors: string[];
+  // The file is from before checks were tagged with maintenance windows
+  untagged?: boolean;
+}
+
+export interface ImportSummary {
+  format: ExportFormat;
+  addedRecords: number;
+  duplicateRecords: number;
+  addedIncidents: number;
+  errors: string[];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryExportService {
+  private historyStore = inject(HistoryStoreService);
+  private incidentService = inject(IncidentService);
+  private maintenance = inject(MaintenanceService);
+
+  // Persisted records, stats and incidents within [from, to]. The stats cover
+  // the hourly aggregates of older history too and leave out maintenance.
+  async collect(from: Date, to: Date): Promise<HistoryExport> {
+    const [records, aggregates] = await Promise.all([
+      this.historyStore.queryRange(from, to),
+      this.historyStore.queryAggregates(from, to)
+    ]);
+    const stats = computeStats(this.maintenance.countedRecords(records), this.maintenance.countedAggregates(aggregates));
+    const incidents = this.incidentService.incidents().filter(incident =>
+      incident.start <= to && (incident.end === null || incident.end >= from)
+    );
+
+    return {
+      exportedAt: new Date(),
+      from,
+      to,
+      stats,
+      endpointStats: summarizeEndpoints(records),
+      records,
+      incidents
+    };
+  }
+
+  async export(from: Date, to: Date, format: ExportFormat): Promise<string> {
+    const data = await this.collect(from, to);
+    switch (format) {
+      case 'csv':
+        return toCsv(data);
+      case 'ndjson':
+        return toNdjson(data);
+      default:
+        return toJson(data);
+    }
+  }
+
+  // Validates a previously exported file and merges it into the stored history.
+  // Invalid entries are skipped and reported; records already stored are kept as is.
+  async import(text: string): Promise<ImportSummary> {
+    const format = detectFormat(text);
+    const parsed = parseExport(text, format);
+    // Newer files already say which checks ran in maintenance, possibly on
+    // another device with other windows, so only older ones are tagged here
+    const records = !parsed.untagged ? parsed.records : parsed.records.map(record => {
+      const maintenanceWindow = this.maintenance.windowAt(record.timestamp);
+      return maintenanceWindow ? { ...record, maintenance: maintenanceWindow.label } : record;
+    });
+
+    const { added, duplicates } = await this.historyStore.importRecords(records);
+    const addedIncidents = await this.incidentService.importIncidents(parsed.incidents);
+
+    return {
+      format,
+      addedRecords: added,
+      duplicateRecords: duplicates,
+      addedIncidents,
+      errors: limitErrors(parsed.errors)
+    };
+  }
+}
+
+export function mimeType(format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return 'text/csv';
+    case 'ndjson':
+      return 'application/x-ndjson';
+    default:
+      return 'application/json';
+  }
+}
+
+export function summarizeEndpoints(records: ConnectionRecord[]): EndpointStats[] {
+  const byEndpoint = new Map<string, { probes: number; successes: number; latencySum: number; latencyCount: number; errorCounts: Partial<Record<ProbeErrorKind, number>> }>();
+
+  for (const probe of records.flatMap(record => record.probes ?? [])) {
+    // Cancelled race losers say nothing about the endpoint
+    if (probe.errorKind === 'abort') continue;
+
+    const entry = byEndpoint.get(probe.endpoint) ?? { probes: 0, successes: 0, latencySum: 0, latencyCount: 0, errorCounts: {} };
+    entry.probes++;
+    if (probe.success) {
+      entry.successes++;
+      if (probe.responseTime !== null) {
+        entry.latencySum += probe.responseTime;
+        entry.latencyCount++;
+      }
+    } else {
+      const kind = probe.errorKind ?? 'network';
+      entry.errorCounts[kind] = (entry.errorCounts[kind] ?? 0) + 1;
+    }
+    byEndpoint.set(probe.endpoint, entry);
+  }
+
+  return [...byEndpoint.entries()].map(([endpoint, entry]) => ({
+    endpoint,
+    probes: entry.probes,
+    successes: entry.successes,
+    successRate: Math.round((entry.successes / entry.probes) * 100),
+    averageResponseTime: entry.latencyCount > 0 ? Math.round(entry.latencySum / entry.latencyCount) : null,
+    errorCounts: entry.errorCounts
+  }));
+}
+
+export function toJson(data: HistoryExport): string {
+  return JSON.stringify({ format: EXPORT_FORMAT_ID, version: EXPORT_VERSION, ...data }, null, 2);
+}
+
+// A header line with the metadata and stats, then one line per record and incident
+export function toNdjson(data: HistoryExport): string {
+  const { records, incidents, ...header } = data;
+  const lines = [
+    JSON.stringify({ type: 'header', format: EXPORT_FORMAT_ID, version: EXPORT_VERSION, ...header }),
+    ...records.map(record => JSON.stringify({ type: 'record', ...record })),
+    ...incidents.map(incident => JSON.stringify({ type: 'incident', ...incident }))
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// The checks, then sections with the window's stats, per-endpoint results and incidents
+export function toCsv(data: HistoryExport): string {
+  const sections = [
+    checkRows(data.records),
+    [
+      ['stat', 'value'],
+      ['from', data.from.toISOString()],
+      ['to', data.to.toISOString()],
+      ...CSV_STATS.map(([name, key]) => [name, data.stats[key]?.toString() ?? ''])
+    ],
+    [
+      CSV_ENDPOINT_COLUMNS,
+      ...data.endpointStats.map(entry => [
+        entry.endpoint,
+        String(entry.probes),
+        String(entry.successes),
+        String(entry.successRate),
+        entry.averageResponseTime?.toString() ?? '',
+        Object.entries(entry.errorCounts).map(([kind, count]) => `${kind}: ${count}`).join('; ')
+      ])
+    ],
+    [
+      [...CSV_INCIDENT_COLUMNS],
+      ...data.incidents.map(incident => [
+        incident.start.toISOString(),
+        incident.end?.toISOString() ?? '',
+        String(incident.failedChecks),
+        incident.lastError ?? ''
+      ])
+    ]
+  ];
+
+  return sections.map(rows => rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')).join('\r\n\r\n') + '\r\n';
+}
+
+// The header and check rows
+function checkRows(records: ConnectionRecord[]): string[][] {
+  const rows: string[][] = [[...CSV_COLUMNS]];
+
+  for (const record of records) {
+    const check = [
+      record.timestamp.toISOString(),
+      record.state ?? (record.isOnline ? 'online' : 'offline'),
+      String(record.isOnline),
+      record.responseTime?.toString() ?? '',
+      record.endpoint ?? '',
+      record.error ?? '',
+      record.network?.type ?? '',
+      record.network?.effectiveType ?? '',
+      record.network?.downlink?.toString() ?? '',
+      record.network?.rtt?.toString() ?? '',
+      record.network?.saveData?.toString() ?? '',
+      record.maintenance ?? '',
+      record.background?.toString() ?? ''
+    ];
+    const probes = record.probes ?? [];
+    if (probes.length === 0) {
+      rows.push([...check, '', '', '', '', '', '', '', '']);
+      continue;
+    }
+    for (const probe of probes) {
+      rows.push([
+        ...check,
+        probe.endpoint,
+        probe.group ?? '',
+        String(probe.success),
+        String(probe.verified),
+        String(probe.intercepted),
+        probe.responseTime?.toString() ?? '',
+        probe.errorKind ?? '',
+        probe.error ?? ''
+      ]);
+    }
+  }
+  return rows;
+}
+
+export function detectFormat(text: string): ExportFormat {
+  const trimmed = text.trimStart();
+  if (!trimmed.startsWith('{')) return 'csv';
+  try {
+    JSON.parse(trimmed);
+    return 'json';
+  } catch {
+    return 'ndjson';
+  }
+}
+
+export function parseExport(text: string, format = detectFormat(text)): ParsedImport {
+  switch (format) {
+    case 'csv':
+      return parseCsvExport(text);
+    case 'ndjson':
+      return parseNdjsonExport(text);
+    default:
+      return parseJsonExport(text);
+  }
+}
+
+function parseJsonExport(text: string): ParsedImport {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    return { records: [], incidents: [], errors: ['The file is not valid JSON'] };
+  }
+
+  const headerError = checkHeader(document);
+  if (headerError) return { records: [], incidents: [], errors: [headerError] };
+
+  const { version, records, incidents } = document as { version: number; records?: unknown; incidents?: unknown };
+  const result: ParsedImport = { records: [], incidents: [], errors: [], untagged: version < MAINTENANCE_TAGGED_VERSION };
+  if (!Array.isArray(records)) {
+    result.errors.push('The file has no "records" list');
+  } else {
+    records.forEach((value, index) => collect(result.records, result.errors, `Record ${index + 1}`, toRecord(value)));
+  }
+  if (Array.isArray(incidents)) {
+    incidents.forEach((value, index) => collect(result.incidents, result.errors, `Incident ${index + 1}`, toIncident(value)));
+  }
+  return result;
+}
+
+function parseNdjsonExport(text: string): ParsedImport {
+  const result: ParsedImport = { records: [], incidents: [], errors: [] };
+  const lines = text.split(/\r?\n/);
+  let sawHeader = false;
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return;
+    const label = `Line ${index + 1}`;
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      result.errors.push(`${label}: not valid JSON`);
+      return;
+    }
+
+    const type = isObject(entry) ? entry['type'] : undefined;
+    if (type === 'header') {
+      const headerError = checkHeader(entry);
+      if (headerError) {
+        result.errors.push(`${label}: ${headerError}`);
+      } else {
+        sawHeader = true;
+        result.untagged = (entry as { version: number }).version < MAINTENANCE_TAGGED_VERSION;
+      }
+    } else if (type === 'record') {
+      collect(result.records, result.errors, label, toRecord(entry));
+    } else if (type === 'incident') {
+      collect(result.incidents, result.errors, label, toIncident(entry));
+    } else {
+      result.errors.push(`${label}: unknown entry type`);
+    }
+  });
+
+  if (!sawHeader) {
+    return { records: [], incidents: [], errors: ['The file has no Am I Online export header', ...result.errors] };
+  }
+  return result;
+}
+
+function parseCsvExport(text: string): ParsedImport {
+  const result: ParsedImport = { records: [], incidents: [], errors: [] };
+  // Spreadsheet apps often prepend a byte order mark when saving
+  const [checkSection, ...sections] = csvSections(parseCsv(text.replace(/^\uFEFF/, '')));
+  const [header, ...rows] = checkSection?.rows ?? [];
+
+  const missing = CSV_COLUMNS.filter(column => !OPTIONAL_CSV_COLUMNS.includes(column) && !header?.includes(column));
+  if (!header || missing.length > 0) {
+    return { records: [], incidents: [], errors: [`The CSV file is missing columns: ${missing.join(', ')}`] };
+  }
+  const column = (row: string[], name: typeof CSV_COLUMNS[number]) => row[header.indexOf(name)] ?? '';
+  // CSV files carry no version; the column came with maintenance tagging
+  result.untagged = !header.includes('maintenance');
+
+  // Rows of the same check share a timestamp and follow each other
+  const checks = new Map<string, { row: number; record: Record<string, unknown>; probes: unknown[] }>();
+  rows.forEach((row, index) => {
+    const timestamp = column(row, 'timestamp');
+
+    let check = checks.get(timestamp);
+    if (!check) {
+      check = {
+        row: checkSection.firstRow + index + 1,
+        record: {
+          timestamp,
+          state: column(row, 'state') || undefined,
+          isOnline: parseBoolean(column(row, 'online')),
+          responseTime: parseNullableNumber(column(row, 'response_time')),
+          endpoint: column(row, 'endpoint') || null,
+          error: column(row, 'error') || undefined,
+          maintenance: column(row, 'maintenance') || undefined,
+          background: column(row, 'background') === '' ? undefined : parseBoolean(column(row, 'background'))
+        },
+        probes: []
+      };
+      checks.set(timestamp, check);
+
+      const network = {
+        type: column(row, 'connection_type') || undefined,
+        effectiveType: column(row, 'effective_type') || undefined,
+        downlink: parseOptionalNumber(column(row, 'downlink')),
+        rtt: parseOptionalNumber(column(row, 'rtt')),
+        saveData: column(row, 'save_data') === '' ? undefined : parseBoolean(column(row, 'save_data'))
+      };
+      if (Object.values(network).some(value => value !== undefined)) check.record['network'] = network;
+    }
+
+    if (column(row, 'probe_endpoint') !== '') {
+      check.probes.push({
+        endpoint: column(row, 'probe_endpoint'),
+        group: column(row, 'probe_group') || undefined,
+        success: parseBoolean(column(row, 'probe_success')),
+        verified: parseBoolean(column(row, 'probe_verified')),
+        intercepted: parseBoolean(column(row, 'probe_intercepted')),
+        responseTime: parseNullableNumber(column(row, 'probe_response_time')),
+        errorKind: column(row, 'probe_error_kind') || undefined,
+        error: column(row, 'probe_error') || undefined
+      });
+    }
+  });
+
+  for (const check of checks.values()) {
+    const value = check.probes.length > 0 ? { ...check.record, probes: check.probes } : check.record;
+    collect(result.records, result.errors, `Row ${check.row}`, toRecord(value));
+  }
+
+  const incidents = sections.find(section => section.rows[0][0] === CSV_INCIDENT_COLUMNS[0]);
+  if (incidents) {
+    const [incidentHeader, ...incidentRows] = incidents.rows;
+    const field = (row: string[], name: typeof CSV_INCIDENT_COLUMNS[number]) => row[incidentHeader.indexOf(name)] ?? '';
+    incidentRows.forEach((row, index) => {
+      collect(result.incidents, result.errors, `Row ${incidents.firstRow + index + 1}`, toIncident({
+        start: field(row, 'incident_start'),
+        end: field(row, 'incident_end') || null,
+        failedChecks: parseNullableNumber(field(row, 'failed_checks')),
+        lastError: field(row, 'last_error') || null
+      }));
+    });
+  }
+  return result;
+}
+
+// Splits the rows at empty lines; files from before the sections were added
+// are a single section of checks
+function csvSections(rows: string[][]): CsvSection[] {
+  const sections: CsvSection[] = [];
+  let current: CsvSection | null = null;
+  rows.forEach((row, index) => {
+    if (row.length === 1 && row[0] === '') {
+      current = null;
+    } else if (current) {
+      current.rows.push(row);
+    } else {
+      current = { firstRow: index + 1, rows: [row] };
+      sections.push(current);
+    }
+  });
+  return sections;
+}
+
+function checkHeader(value: unknown): string | null {
+  if (!isObject(value) || value['format'] !== EXPORT_FORMAT_ID) {
+    return 'The file is not an Am I Online export';
+  }
+  if (typeof value['version'] !== 'number' || value['version'] > EXPORT_VERSION) {
+    return `Unsupported export version ${String(value['version'])}`;
+  }
+  return null;
+}
+
+// A validated record, or a description of what is wrong with it
+function toRecord(value: unknown): ConnectionRecord | string {
+  if (!isObject(value)) return 'not an object';
+
+  const timestamp = parseDate(value['timestamp']);
+  if (!timestamp) return 'invalid timestamp';
+  if (typeof value['isOnline'] !== 'boolean') return 'invalid online flag';
+  if (value['state'] !== undefined && !STATES.includes(value['state'] as ConnectionState)) return 'invalid state';
+  if (!isNullableNumber(value['responseTime'])) return 'invalid response time';
+  if (value['endpoint'] !== null && typeof value['endpoint'] !== 'string') return 'invalid endpoint';
+  if (value['error'] !== undefined && typeof value['error'] !== 'string') return 'invalid error';
+  if (value['maintenance'] !== undefined && (typeof value['maintenance'] !== 'string' || value['maintenance'] === '')) {
+    return 'invalid maintenance window';
+  }
+  if (value['background'] !== undefined && typeof value['background'] !== 'boolean') return 'invalid background flag';
+
+  const record: ConnectionRecord = {
+    timestamp,
+    isOnline: value['isOnline'],
+    responseTime: value['responseTime'] as number | null,
+    endpoint: value['endpoint'] as string | null
+  };
+  if (value['state'] !== undefined) record.state = value['state'] as ConnectionState;
+  if (value['error'] !== undefined) record.error = value['error'] as string;
+  if (value['maintenance'] !== undefined) record.maintenance = value['maintenance'] as string;
+  if (value['background'] !== undefined) record.background = value['background'] as boolean;
+
+  if (value['network'] !== undefined) {
+    const network = toNetwork(value['network']);
+    if (typeof network === 'string') return `network: ${network}`;
+    record.network = network;
+  }
+
+  if (value['probes'] !== undefined) {
+    if (!Array.isArray(value['probes'])) return 'invalid probes';
+    const probes: ProbeResult[] = [];
+    for (const probe of value['probes']) {
+      const parsed = toProbe(probe);
+      if (typeof parsed === 'string') return `probe ${probes.length + 1}: ${parsed}`;
+      probes.push(parsed);
+    }
+    record.probes = probes;
+  }
+  return record;
+}
+
+function toProbe(value: unknown): ProbeResult | string {
+  if (!isObject(value)) return 'not an object';
+  if (typeof value['endpoint'] !== 'string' || value['endpoint'] === '') return 'invalid endpoint';
+  for (const flag of ['success', 'verified', 'intercepted']) {
+    if (typeof value[flag] !== 'boolean') return `invalid ${flag} flag`;
+  }
+  if (!isNullableNumber(value['responseTime'])) return 'invalid response time';
+  if (value['errorKind'] !== undefined && !ERROR_KINDS.includes(value['errorKind'] as ProbeErrorKind)) return 'invalid error kind';
+  if (value['error'] !== undefined && typeof value['error'] !== 'string') return 'invalid error';
+  if (value['timing'] !== undefined && !isTiming(value['timing'])) return 'invalid timing';
+  if (value['group'] !== undefined && typeof value['group'] !== 'string') return 'invalid group';
+
+  const probe: ProbeResult = {
+    endpoint: value['endpoint'],
+    success: value['success'] as boolean,
+    verified: value['verified'] as boolean,
+    intercepted: value['intercepted'] as boolean,
+    responseTime: value['responseTime'] as number | null
+  };
+  if (value['errorKind'] !== undefined) probe.errorKind = value['errorKind'] as ProbeErrorKind;
+  if (value['error'] !== undefined) probe.error = value['error'] as string;
+  if (value['timing'] !== undefined) probe.timing = value['timing'] as ProbeTiming;
+  if (value['group'] !== undefined) probe.group = value['group'] as string;
+  return probe;
+}
+
+function toNetwork(value: unknown): NetworkInfo | string {
+  if (!isObject(value)) return 'not an object';
+  for (const field of ['type', 'effectiveType']) {
+    if (value[field] !== undefined && typeof value[field] !== 'string') return `invalid ${field}`;
+  }
+  for (const field of ['downlink', 'rtt']) {
+    if (value[field] !== undefined && !(typeof value[field] === 'number' && isNullableNumber(value[field]))) {
+      return `invalid ${field}`;
+    }
+  }
+  if (value['saveData'] !== undefined && typeof value['saveData'] !== 'boolean') return 'invalid saveData flag';
+
+  const network: NetworkInfo = {};
+  if (value['type'] !== undefined) network.type = value['type'] as string;
+  if (value['effectiveType'] !== undefined) network.effectiveType = value['effectiveType'] as string;
+  if (value['downlink'] !== undefined) network.downlink = value['downlink'] as number;
+  if (value['rtt'] !== undefined) network.rtt = value['rtt'] as number;
+  if (value['saveData'] !== undefined) network.saveData = value['saveData'] as boolean;
+  return network;
+}
+
+function isTiming(value: unknown): boolean {
+  if (!isObject(value) || !isObject(value['phases'])) return false;
+  const phases = value['phases'];
+  const isDuration = (ms: unknown) => typeof ms === 'number' && isNullableNumber(ms);
+  return typeof value['detailed'] === 'boolean' && isDuration(value['total']) &&
+    TIMING_PHASES.every(phase => isDuration(phases[phase]));
+}
+
+function toIncident(value: unknown): Incident | string {
+  if (!isObject(value)) return 'not an object';
+
+  const start = parseDate(value['start']);
+  if (!start) return 'invalid start';
+  const end = value['end'] === null ? null : parseDate(value['end']);
+  if (end === undefined || (end && end < start)) return 'invalid end';
+  if (typeof value['failedChecks'] !== 'number' || value['failedChecks'] < 0) return 'invalid failed check count';
+  if (value['lastError'] !== null && typeof value['lastError'] !== 'string') return 'invalid last error';
+
+  return { start, end, failedChecks: value['failedChecks'], lastError: value['lastError'] as string | null };
+}
+
+function collect<T>(valid: T[], errors: string[], label: string, parsed: T | string): void {
+  if (typeof parsed === 'string') errors.push(`${label}: ${parsed}`);
+  else valid.push(parsed);
+}
+
+function limitErrors(errors: string[]): string[] {
+  if (errors.length <= MAX_REPORTED_ERRORS) return errors;
+  return [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${errors.length - MAX_REPORTED_ERRORS} more`];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNullableNumber(value: unknown): boolean {
+  return value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+// undefined when the value is not a valid date
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Leaves anything unrecognised as is so validation reports it
+function parseBoolean(value: string): boolean | string {
+  return value === 'true' ? true : value === 'false' ? false : value;
+}
+
+function parseNullableNumber(value: string): number | null | string {
+  if (value === '') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+// undefined for an empty field
+function parseOptionalNumber(value: string): number | string | undefined {
+  if (value === '') return undefined;
+  const number = Number(value);
+  return Number.isNaN(number) ? value : number;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180: quoted fields may contain commas, line breaks and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
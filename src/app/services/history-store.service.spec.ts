@@ -0,0 +1,92 @@
+import { TestBed } from '@angular/core/testing';
+import { HistoryStoreService, aggregateHourly, mergeAggregates } from './history-store.service';
+import { ConnectionRecord } from './connectivity.service';
+
+describe('HistoryStoreService helpers', () => {
+  const hour = 60 * 60 * 1000;
+  const base = Date.UTC(2025, 0, 1, 10);
+
+  const record = (offset: number, isOnline: boolean, responseTime: number | null): ConnectionRecord => ({
+    timestamp: new Date(base + offset),
+    isOnline,
+    responseTime,
+    endpoint: isOnline ? 'Google' : null
+  });
+
+  it('should bucket records by hour', () => {
+    const aggregates = aggregateHourly([
+      record(0, true, 40),
+      record(10 * 60 * 1000, false, null),
+      record(hour + 5, true, 80)
+    ]);
+
+    expect(aggregates.length).toBe(2);
+    expect(aggregates[0]).toEqual({
+      hour: base,
+      totalChecks: 2,
+      successfulChecks: 1,
+      responseTimeSum: 40,
+      responseTimeCount: 1,
+      minResponseTime: 40,
+      maxResponseTime: 40
+    });
+    expect(aggregates[1].hour).toBe(base + hour);
+  });
+
+  it('should merge aggregates without losing extremes', () => {
+    const [a] = aggregateHourly([record(0, true, 40)]);
+    const [b] = aggregateHourly([record(1, true, 120), record(2, false, null)]);
+    const merged = mergeAggregates(a, b);
+
+    expect(merged.totalChecks).toBe(3);
+    expect(merged.minResponseTime).toBe(40);
+    expect(merged.maxResponseTime).toBe(120);
+  });
+});
+
+describe('HistoryStoreService imports', () => {
+  const day = 24 * 60 * 60 * 1000;
+  let store: HistoryStoreService;
+
+  // A colleague's capture from two weeks ago, older than the raw window, all in one hour
+  const twoWeeksAgo = Math.floor((Date.now() - 14 * day) / (60 * 60 * 1000)) * 60 * 60 * 1000;
+  const capture: ConnectionRecord[] = [0, 1, 2].map(minute => ({
+    timestamp: new Date(twoWeeksAgo + minute * 60 * 1000),
+    isOnline: minute !== 1,
+    responseTime: minute !== 1 ? 50 : null,
+    endpoint: minute !== 1 ? 'Google' : null
+  }));
+  const from = new Date(twoWeeksAgo - day);
+  const to = new Date();
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({});
+    store = TestBed.inject(HistoryStoreService);
+    await store.clear();
+  });
+
+  afterEach(async () => {
+    await store.clear();
+  });
+
+  it('should keep old imported checks raw for the raw window', async () => {
+    expect(await store.importRecords(capture)).toEqual({ added: 3, duplicates: 0 });
+    await store.applyRetention();
+
+    expect((await store.queryRange(from, to)).length).toBe(3);
+    expect(await store.queryAggregates(from, to)).toEqual([]);
+  });
+
+  it('should not count an export imported twice twice', async () => {
+    await store.importRecords(capture);
+    // A week and a day later the imported checks are folded into an aggregate
+    await store.applyRetention(Date.now() + 8 * day);
+    const aggregates = await store.queryAggregates(from, to);
+    expect(aggregates.map(aggregate => aggregate.totalChecks)).toEqual([3]);
+
+    expect(await store.importRecords(capture)).toEqual({ added: 0, duplicates: 3 });
+    await store.applyRetention(Date.now() + 8 * day);
+    expect(await store.queryAggregates(from, to)).toEqual(aggregates);
+    expect(await store.queryRange(from, to)).toEqual([]);
+  });
+});
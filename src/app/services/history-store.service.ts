@@ -0,0 +1,285 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { ConnectionRecord } from './connectivity.service';
+import { openDatabase, requestAsPromise, transactionDone, STORES } from '../utils/indexed-db';
+import { readJson, writeJson } from '../utils/local-storage';
+import { MaintenanceService } from './maintenance.service';
+
+const RETENTION_KEY = 'am-i-online.retention';
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface RetentionPolicy {
+  // Raw checks older than this are folded into hourly aggregates
+  rawRetentionDays: number;
+  // Hourly aggregates older than this are deleted
+  aggregateRetentionDays: number;
+}
+
+export interface HourlyAggregate {
+  hour: number;
+  totalChecks: number;
+  successfulChecks: number;
+  responseTimeSum: number;
+  responseTimeCount: number;
+  minResponseTime: number | null;
+  maxResponseTime: number | null;
+}
+
+export interface HistoryPage {
+  records: ConnectionRecord[];
+  // Pass as `before` to fetch the next (older) page; null when exhausted
+  nextCursor: number | null;
+}
+
+// Records are stored with numeric timestamps so they can be used as keys.
+// Imported ones note when, as they stay raw for the raw window counted from then.
+type StoredRecord = Omit<ConnectionRecord, 'timestamp'> & { timestamp: number; importedAt?: number };
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  rawRetentionDays: 7,
+  aggregateRetentionDays: 90
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryStoreService {
+  private maintenance = inject(MaintenanceService);
+
+  private retentionPolicySignal = signal<RetentionPolicy>(
+    { ...DEFAULT_RETENTION_POLICY, ...readJson<Partial<RetentionPolicy>>(RETENTION_KEY, {}) }
+  );
+  private lastRetentionRun = 0;
+  private revisionSignal = signal<number>(0);
+
+  readonly retentionPolicy = this.retentionPolicySignal.asReadonly();
+  // Bumped when stored history changes other than by new checks (imports,
+  // clearing, background checks merged by another tab)
+  readonly revision = this.revisionSignal.asReadonly();
+
+  async append(record: ConnectionRecord): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.records, 'readwrite');
+      tx.objectStore(STORES.records).put(this.serialize(record));
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('Unable to persist connection record', error);
+      return;
+    }
+
+    if (Date.now() - this.lastRetentionRun > HOUR) {
+      await this.applyRetention();
+    }
+  }
+
+  // Merges records from elsewhere (e.g. an imported export), kept check by
+  // check however old they are. Records whose timestamp is already stored, or
+  // whose hour was already folded into an aggregate, are left out.
+  async importRecords(records: ConnectionRecord[]): Promise<{ added: number; duplicates: number }> {
+    if (records.length === 0) return { added: 0, duplicates: 0 };
+
+    const importedAt = Date.now();
+    let added = 0;
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction([STORES.records, STORES.hourly], 'readwrite');
+      const store = tx.objectStore(STORES.records);
+      const existing = new Set(await requestAsPromise(store.getAllKeys()) as number[]);
+      // An aggregate already counts every check of its hour, so adding more would count them twice
+      const folded = new Set(await requestAsPromise(tx.objectStore(STORES.hourly).getAllKeys()) as number[]);
+
+      for (const record of records) {
+        const stored = { ...this.serialize(record), importedAt };
+        if (existing.has(stored.timestamp) || folded.has(hourOf(stored.timestamp))) continue;
+        existing.add(stored.timestamp);
+        store.put(stored);
+        added++;
+      }
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('Unable to import connection history', error);
+      return { added: 0, duplicates: 0 };
+    }
+
+    this.revisionSignal.update(revision => revision + 1);
+    return { added, duplicates: records.length - added };
+  }
+
+  // Reloads what reads the store, after another tab changed it
+  refresh(): void {
+    this.revisionSignal.update(revision => revision + 1);
+  }
+
+  // Newest first, `pageSize` at a time, within [from, to]
+  async queryPage(from: Date, to: Date, pageSize = 50, before?: number): Promise<HistoryPage> {
+    const upper = before !== undefined ? Math.min(before, to.getTime()) : to.getTime();
+    const excludeUpper = before !== undefined && before <= to.getTime();
+    if (upper < from.getTime()) return { records: [], nextCursor: null };
+
+    try {
+      const db = await openDatabase();
+      const range = IDBKeyRange.bound(from.getTime(), upper, false, excludeUpper);
+      const store = db.transaction(STORES.records).objectStore(STORES.records);
+      const records: ConnectionRecord[] = [];
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.openCursor(range, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          // Read one extra record to know whether another page exists
+          if (!cursor || records.length > pageSize) {
+            resolve();
+            return;
+          }
+          records.push(this.deserialize(cursor.value as StoredRecord));
+          cursor.continue();
+        };
+      });
+
+      const hasMore = records.length > pageSize;
+      const page = records.slice(0, pageSize);
+      return {
+        records: page,
+        nextCursor: hasMore ? page[page.length - 1].timestamp.getTime() : null
+      };
+    } catch (error) {
+      console.warn('Unable to read connection history', error);
+      return { records: [], nextCursor: null };
+    }
+  }
+
+  // All raw records within [from, to], oldest first
+  async queryRange(from: Date, to: Date): Promise<ConnectionRecord[]> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.records).objectStore(STORES.records);
+      const stored = await requestAsPromise(store.getAll(IDBKeyRange.bound(from.getTime(), to.getTime())));
+      return (stored as StoredRecord[]).map(record => this.deserialize(record));
+    } catch (error) {
+      console.warn('Unable to read connection history', error);
+      return [];
+    }
+  }
+
+  async queryAggregates(from: Date, to: Date): Promise<HourlyAggregate[]> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.hourly).objectStore(STORES.hourly);
+      return await requestAsPromise(store.getAll(IDBKeyRange.bound(from.getTime(), to.getTime()))) as HourlyAggregate[];
+    } catch (error) {
+      console.warn('Unable to read hourly aggregates', error);
+      return [];
+    }
+  }
+
+  // Most recent records, oldest first, used to seed the in-memory history on startup
+  async latest(count: number): Promise<ConnectionRecord[]> {
+    const page = await this.queryPage(new Date(0), new Date(), count);
+    return page.records.reverse();
+  }
+
+  setRetentionPolicy(policy: RetentionPolicy): void {
+    this.retentionPolicySignal.set(policy);
+    writeJson(RETENTION_KEY, policy);
+    this.applyRetention();
+  }
+
+  // Folds raw records past the raw window into hourly buckets and drops expired buckets
+  async applyRetention(now = Date.now()): Promise<void> {
+    this.lastRetentionRun = now;
+    const policy = this.retentionPolicySignal();
+    const rawCutoff = now - policy.rawRetentionDays * DAY;
+    const aggregateCutoff = now - policy.aggregateRetentionDays * DAY;
+
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction([STORES.records, STORES.hourly], 'readwrite');
+      const records = tx.objectStore(STORES.records);
+      const hourly = tx.objectStore(STORES.hourly);
+
+      const expiredRange = IDBKeyRange.upperBound(rawCutoff, true);
+      const expired = (await requestAsPromise(records.getAll(expiredRange)) as StoredRecord[])
+        .filter(record => (record.importedAt ?? 0) < rawCutoff);
+
+      // Aggregates only serve uptime and latency, so checks that don't count toward them are dropped
+      const counted = this.maintenance.countedRecords(expired.map(record => this.deserialize(record)));
+      for (const aggregate of aggregateHourly(counted)) {
+        const existing = await requestAsPromise(hourly.get(aggregate.hour)) as HourlyAggregate | undefined;
+        hourly.put(existing ? mergeAggregates(existing, aggregate) : aggregate);
+      }
+      for (const record of expired) records.delete(record.timestamp);
+      hourly.delete(IDBKeyRange.upperBound(aggregateCutoff, true));
+
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('Unable to apply history retention', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction([STORES.records, STORES.hourly], 'readwrite');
+      tx.objectStore(STORES.records).clear();
+      tx.objectStore(STORES.hourly).clear();
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('Unable to clear connection history', error);
+    }
+    this.revisionSignal.update(revision => revision + 1);
+  }
+
+  private serialize(record: ConnectionRecord): StoredRecord {
+    return { ...record, timestamp: record.timestamp.getTime() };
+  }
+
+  private deserialize({ importedAt, ...record }: StoredRecord): ConnectionRecord {
+    return { ...record, timestamp: new Date(record.timestamp) };
+  }
+}
+
+export function aggregateHourly(records: ConnectionRecord[]): HourlyAggregate[] {
+  const buckets = new Map<number, HourlyAggregate>();
+
+  for (const record of records) {
+    const hour = hourOf(record.timestamp.getTime());
+    const responseTime = record.isOnline ? record.responseTime : null;
+    const single: HourlyAggregate = {
+      hour,
+      totalChecks: 1,
+      successfulChecks: record.isOnline ? 1 : 0,
+      responseTimeSum: responseTime ?? 0,
+      responseTimeCount: responseTime !== null ? 1 : 0,
+      minResponseTime: responseTime,
+      maxResponseTime: responseTime
+    };
+    const existing = buckets.get(hour);
+    buckets.set(hour, existing ? mergeAggregates(existing, single) : single);
+  }
+
+  return [...buckets.values()].sort((a, b) => a.hour - b.hour);
+}
+
+export function mergeAggregates(a: HourlyAggregate, b: HourlyAggregate): HourlyAggregate {
+  return {
+    hour: a.hour,
+    totalChecks: a.totalChecks + b.totalChecks,
+    successfulChecks: a.successfulChecks + b.successfulChecks,
+    responseTimeSum: a.responseTimeSum + b.responseTimeSum,
+    responseTimeCount: a.responseTimeCount + b.responseTimeCount,
+    minResponseTime: pickExtreme(a.minResponseTime, b.minResponseTime, Math.min),
+    maxResponseTime: pickExtreme(a.maxResponseTime, b.maxResponseTime, Math.max)
+  };
+}
+
+function hourOf(timestamp: number): number {
+  return Math.floor(timestamp / HOUR) * HOUR;
+}
+
+function pickExtreme(a: number | null, b: number | null, pick: (x: number, y: number) => number): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return pick(a, b);
+}
@@ -0,0 +1,57 @@
+import { computeIncidentMetrics, incidentDuration, Incident } from './incident.service';
+
+describe('IncidentService metrics', () => {
+  const minute = 60 * 1000;
+  const day = 24 * 60 * minute;
+  const periodStart = Date.UTC(2025, 0, 1);
+  const periodEnd = periodStart + 2 * day;
+
+  const incident = (startOffset: number, durationMs: number | null, failedChecks = 2): Incident => ({
+    start: new Date(periodStart + startOffset),
+    end: durationMs === null ? null : new Date(periodStart + startOffset + durationMs),
+    failedChecks,
+    lastError: 'All connectivity endpoints failed'
+  });
+
+  it('should report no metrics without incidents', () => {
+    const metrics = computeIncidentMetrics([], periodStart, periodEnd);
+    expect(metrics.incidentCount).toBe(0);
+    expect(metrics.mtbf).toBeNull();
+    expect(metrics.mttr).toBeNull();
+    expect(metrics.longestOutage).toBeNull();
+    expect(metrics.incidentsPerDay).toBe(0);
+  });
+
+  it('should compute MTTR, MTBF and the longest outage', () => {
+    const short = incident(60 * minute, 5 * minute);
+    const long = incident(day, 15 * minute);
+    const metrics = computeIncidentMetrics([long, short], periodStart, periodEnd);
+
+    expect(metrics.incidentCount).toBe(2);
+    expect(metrics.totalDowntime).toBe(20 * minute);
+    expect(metrics.mttr).toBe(10 * minute);
+    expect(metrics.mtbf).toBe((2 * day - 20 * minute) / 2);
+    expect(metrics.longestOutage).toBe(long);
+    expect(metrics.incidentsPerDay).toBe(1);
+  });
+
+  it('should count an ongoing incident up to the end of the period without affecting MTTR', () => {
+    const resolved = incident(0, 10 * minute);
+    const ongoing = incident(2 * day - 30 * minute, null);
+    const metrics = computeIncidentMetrics([ongoing, resolved], periodStart, periodEnd);
+
+    expect(metrics.totalDowntime).toBe(40 * minute);
+    expect(metrics.mttr).toBe(10 * minute);
+    expect(metrics.longestOutage).toBe(ongoing);
+  });
+
+  it('should ignore incidents outside the period', () => {
+    const before = incident(-day, 5 * minute);
+    expect(computeIncidentMetrics([before], periodStart, periodEnd).incidentCount).toBe(0);
+  });
+
+  it('should measure duration until now for ongoing incidents', () => {
+    const ongoing = incident(0, null);
+    expect(incidentDuration(ongoing, periodStart + 3 * minute)).toBe(3 * minute);
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { ConnectivityService, ConnectionRecord } from './connectivity.service';
+import { HistoryStoreService } from './history-store.service';
+import { MaintenanceService } from './maintenance.service';
+import { openDatabase, requestAsPromise, transactionDone, STORES } from '../utils/indexed-db';
+import { readJson, writeJson } from '../utils/local-storage';
+
+const TRACKING_SINCE_KEY = 'am-i-online.tracking-since';
+const DAY = 24 * 60 * 60 * 1000;
+
+// Metrics are reported over this trailing window
+export const INCIDENT_METRICS_DAYS = 30;
+
+export interface Incident {
+  start: Date;
+  // null while the outage is still ongoing
+  end: Date | null;
+  failedChecks: number;
+  lastError: string | null;
+}
+
+export interface IncidentMetrics {
+  incidentCount: number;
+  totalDowntime: number;
+  // Mean time between failures / to recovery, in ms; null without enough data
+  mtbf: number | null;
+  mttr: number | null;
+  longestOutage: Incident | null;
+  incidentsPerDay: number;
+}
+
+type StoredIncident = Omit<Incident, 'start' | 'end'> & { start: number; end: number | null };
+
+@Injectable({
+  providedIn: 'root'
+})
+export class IncidentService {
+  private connectivityService = inject(ConnectivityService);
+  private historyStore = inject(HistoryStoreService);
+  private maintenance = inject(MaintenanceService);
+
+  private incidentsSignal = signal<Incident[]>([]);
+  private trackingSince = readJson<number | null>(TRACKING_SINCE_KEY, null);
+
+  // Newest first
+  readonly incidents = this.incidentsSignal.asReadonly();
+
+  readonly activeIncident = computed(() => this.incidentsSignal().find(incident => incident.end === null) ?? null);
+
+  readonly metrics = computed(() => {
+    // Re-evaluate on every check so an ongoing outage's duration stays current
+    const now = this.connectivityService.lastChecked()?.getTime() ?? Date.now();
+    const windowStart = now - INCIDENT_METRICS_DAYS * DAY;
+    const periodStart = Math.max(windowStart, this.trackingSince ?? now);
+    const counted = this.incidentsSignal().filter(incident => !this.isExcluded(incident));
+    return computeIncidentMetrics(counted, periodStart, now);
+  });
+
+  constructor() {
+    this.load();
+    this.connectivityService.records$.subscribe(record => this.handleRecord(record));
+  }
+
+  // Opens an incident on the first failed check and closes it on the first success.
+  // A maintenance window closes it too, as its downtime is planned.
+  handleRecord(record: ConnectionRecord): void {
+    if (this.trackingSince === null) {
+      this.trackingSince = record.timestamp.getTime();
+      writeJson(TRACKING_SINCE_KEY, this.trackingSince);
+    }
+
+    const active = this.activeIncident();
+
+    if (record.maintenance) {
+      if (active) this.save({ ...active, end: record.timestamp });
+    } else if (!record.isOnline) {
+      const incident: Incident = active
+        ? { ...active, failedChecks: active.failedChecks + 1, lastError: record.error ?? active.lastError }
+        : { start: record.timestamp, end: null, failedChecks: 1, lastError: record.error ?? null };
+      this.save(incident);
+    } else if (active) {
+      this.save({ ...active, end: record.timestamp });
+    }
+  }
+
+  // Merges incidents from an imported export, skipping any that start at the same
+  // time as a known one. Returns how many were added.
+  async importIncidents(incidents: Incident[]): Promise<number> {
+    const known = new Set(this.incidentsSignal().map(incident => incident.start.getTime()));
+    // An imported outage without an end would never be closed here
+    const added = incidents.filter(incident => incident.end !== null && !known.has(incident.start.getTime()));
+    if (added.length === 0) return 0;
+
+    this.incidentsSignal.update(current =>
+      [...current, ...added].sort((a, b) => b.start.getTime() - a.start.getTime())
+    );
+    await Promise.all(added.map(incident => this.persist(incident)));
+    return added.length;
+  }
+
+  // Outages inside an excluded period are listed but left out of the metrics
+  isExcluded(incident: Incident): boolean {
+    return this.maintenance.isExcludedSpan(incident.start, incident.end);
+  }
+
+  // Checks recorded during an incident, plus the recovering check, for its timeline
+  getTimeline(incident: Incident): Promise<ConnectionRecord[]> {
+    return this.historyStore.queryRange(incident.start, incident.end ?? new Date());
+  }
+
+  private save(incident: Incident): void {
+    this.incidentsSignal.update(incidents => {
+      const others = incidents.filter(existing => existing.start.getTime() !== incident.start.getTime());
+      return [incident, ...others].sort((a, b) => b.start.getTime() - a.start.getTime());
+    });
+    this.persist(incident);
+  }
+
+  private async persist(incident: Incident): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.incidents, 'readwrite');
+      tx.objectStore(STORES.incidents).put(this.serialize(incident));
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('Unable to persist incident', error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const store = db.transaction(STORES.incidents).objectStore(STORES.incidents);
+      const stored = await requestAsPromise(store.getAll()) as StoredIncident[];
+      const loaded = stored.map(incident => this.deserialize(incident));
+
+      this.incidentsSignal.update(live => {
+        // Incidents opened or updated while loading take precedence
+        const liveStarts = new Set(live.map(incident => incident.start.getTime()));
+        return [...live, ...loaded.filter(incident => !liveStarts.has(incident.start.getTime()))]
+          .sort((a, b) => b.start.getTime() - a.start.getTime());
+      });
+    } catch (error) {
+      console.warn('Unable to load incidents', error);
+    }
+  }
+
+  private serialize(incident: Incident): StoredIncident {
+    return { ...incident, start: incident.start.getTime(), end: incident.end?.getTime() ?? null };
+  }
+
+  private deserialize(incident: StoredIncident): Incident {
+    return { ...incident, start: new Date(incident.start), end: incident.end !== null ? new Date(incident.end) : null };
+  }
+}
+
+export function incidentDuration(incident: Incident, now = Date.now()): number {
+  return (incident.end?.getTime() ?? now) - incident.start.getTime();
+}
+
+// Reliability metrics for incidents overlapping [periodStart, periodEnd]
+export function computeIncidentMetrics(incidents: Incident[], periodStart: number, periodEnd: number): IncidentMetrics {
+  const inPeriod = incidents.filter(incident =>
+    incident.start.getTime() <= periodEnd && (incident.end?.getTime() ?? periodEnd) >= periodStart
+  );
+
+  const durations = inPeriod.map(incident => incidentDuration(incident, periodEnd));
+  const totalDowntime = durations.reduce((sum, duration) => sum + duration, 0);
+  const resolvedDurations = inPeriod.filter(incident => incident.end !== null).map(incident => incidentDuration(incident));
+  const observed = Math.max(0, periodEnd - periodStart);
+
+  let longestOutage: Incident | null = null;
+  inPeriod.forEach((incident, index) => {
+    if (!longestOutage || durations[index] > incidentDuration(longestOutage, periodEnd)) {
+      longestOutage = incident;
+    }
+  });
+
+  return {
+    incidentCount: inPeriod.length,
+    totalDowntime,
+    mtbf: inPeriod.length > 0 ? Math.max(0, observed - totalDowntime) / inPeriod.length : null,
+    mttr: resolvedDurations.length > 0
+      ? resolvedDurations.reduce((sum, duration) => sum + duration, 0) / resolvedDurations.length
+      : null,
+    longestOutage,
+    incidentsPerDay: observed > 0 ? inPeriod.length / Math.max(1, observed / DAY) : 0
+  };
+}
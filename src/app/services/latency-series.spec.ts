@@ -0,0 +1,65 @@
+import { ConnectionRecord } from './connectivity.service';
+import { latencyLevel } from './settings.service';
+import { toLatencySeries, offlineSpans, zoomSpan, panSpan } from './latency-series';
+
+describe('latency series helpers', () => {
+  const start = Date.UTC(2025, 0, 1);
+  const minute = 60 * 1000;
+
+  function record(minutes: number, responseTime: number | null, error?: string): ConnectionRecord {
+    return {
+      timestamp: new Date(start + minutes * minute),
+      isOnline: responseTime !== null,
+      responseTime,
+      endpoint: responseTime !== null ? 'Cloudflare' : null,
+      error
+    };
+  }
+
+  it('should keep one point per check when they fit', () => {
+    const series = toLatencySeries([record(0, 40), record(1, null, 'timeout'), record(2, 60)],
+      { from: start, to: start + 10 * minute }, 10);
+    expect(series.map(point => point.responseTime)).toEqual([40, null, 60]);
+    expect(series[1].error).toBe('timeout');
+  });
+
+  it('should merge checks into buckets beyond the point limit', () => {
+    const records = [record(0, 40), record(1, 60), record(2, null, 'timeout'), record(6, 100)];
+    const series = toLatencySeries(records, { from: start, to: start + 10 * minute }, 2);
+    expect(series.length).toBe(2);
+    expect(series[0]).toEqual(jasmine.objectContaining({ responseTime: 50, isOnline: false, checks: 3, error: 'timeout' }));
+    expect(series[1]).toEqual(jasmine.objectContaining({ responseTime: 100, checks: 1 }));
+  });
+
+  it('should leave out checks outside the span', () => {
+    expect(toLatencySeries([record(0, 40), record(20, 60)], { from: start, to: start + 10 * minute }, 10).length).toBe(1);
+  });
+
+  it('should find offline periods lasting until the next success', () => {
+    const records = [record(0, 40), record(1, null), record(2, null), record(3, 50), record(4, null)];
+    expect(offlineSpans(records)).toEqual([
+      { from: start + minute, to: start + 3 * minute },
+      { from: start + 4 * minute, to: start + 4 * minute }
+    ]);
+  });
+
+  it('should zoom around the focus within the bounds', () => {
+    const bounds = { from: 0, to: 1000 };
+    expect(zoomSpan(bounds, 0.5, 0.5, bounds, 10)).toEqual({ from: 250, to: 750 });
+    expect(zoomSpan({ from: 0, to: 100 }, 0, 0.01, bounds, 10)).toEqual({ from: 0, to: 10 });
+    expect(zoomSpan({ from: 800, to: 1000 }, 1, 4, bounds, 10)).toEqual({ from: 200, to: 1000 });
+  });
+
+  it('should pan without leaving the bounds', () => {
+    const bounds = { from: 0, to: 1000 };
+    expect(panSpan({ from: 100, to: 200 }, 50, bounds)).toEqual({ from: 150, to: 250 });
+    expect(panSpan({ from: 100, to: 200 }, -500, bounds)).toEqual({ from: 0, to: 100 });
+  });
+
+  it('should grade response times against the thresholds', () => {
+    const thresholds = { latencyWarningMs: 100, latencyCriticalMs: 300 };
+    expect(latencyLevel(99, thresholds)).toBe('good');
+    expect(latencyLevel(100, thresholds)).toBe('warning');
+    expect(latencyLevel(300, thresholds)).toBe('critical');
+  });
+});
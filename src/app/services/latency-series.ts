@@ -0,0 +1,99 @@
+import { ConnectionRecord } from './connectivity.service';
+
+// One point of the latency chart; several checks are merged into one point
+// when the visible range holds more checks than the chart can draw
+export interface LatencyPoint {
+  time: number;
+  // Mean of the successful checks; null when every merged check failed
+  responseTime: number | null;
+  isOnline: boolean;
+  // From the most recent merged check
+  endpoint: string | null;
+  error: string | null;
+  checks: number;
+}
+
+export interface TimeSpan {
+  from: number;
+  to: number;
+}
+
+// Records (oldest first) as chart points, merged into equal time buckets
+// when there are more than `maxPoints`
+export function toLatencySeries(records: ConnectionRecord[], span: TimeSpan, maxPoints: number): LatencyPoint[] {
+  const visible = records.filter(record => {
+    const time = record.timestamp.getTime();
+    return time >= span.from && time <= span.to;
+  });
+  if (visible.length <= maxPoints) {
+    return visible.map(record => toPoint([record]));
+  }
+
+  const bucketMs = (span.to - span.from) / maxPoints;
+  const buckets = new Map<number, ConnectionRecord[]>();
+  for (const record of visible) {
+    const index = Math.min(maxPoints - 1, Math.floor((record.timestamp.getTime() - span.from) / bucketMs));
+    const bucket = buckets.get(index);
+    if (bucket) bucket.push(record);
+    else buckets.set(index, [record]);
+  }
+  return [...buckets.values()].map(toPoint);
+}
+
+// Runs of consecutive failed checks (oldest first), each lasting until the next
+// successful check
+export function offlineSpans(records: ConnectionRecord[]): TimeSpan[] {
+  const spans: TimeSpan[] = [];
+  let start: number | null = null;
+
+  for (const record of records) {
+    const time = record.timestamp.getTime();
+    if (!record.isOnline && start === null) {
+      start = time;
+    } else if (record.isOnline && start !== null) {
+      spans.push({ from: start, to: time });
+      start = null;
+    }
+  }
+  if (start !== null) {
+    spans.push({ from: start, to: records[records.length - 1].timestamp.getTime() });
+  }
+  return spans;
+}
+
+// Zooms by `factor` (below 1 zooms in) around `focus`, a fraction of the span,
+// keeping the result within `bounds` and at least `minSpanMs` wide
+export function zoomSpan(span: TimeSpan, focus: number, factor: number, bounds: TimeSpan, minSpanMs: number): TimeSpan {
+  const width = Math.min(bounds.to - bounds.from, Math.max(minSpanMs, (span.to - span.from) * factor));
+  const pivot = span.from + (span.to - span.from) * focus;
+  return clampSpan({ from: pivot - width * focus, to: pivot - width * focus + width }, bounds);
+}
+
+// Shifts the span by `deltaMs`, stopping at the bounds
+export function panSpan(span: TimeSpan, deltaMs: number, bounds: TimeSpan): TimeSpan {
+  return clampSpan({ from: span.from + deltaMs, to: span.to + deltaMs }, bounds);
+}
+
+function clampSpan(span: TimeSpan, bounds: TimeSpan): TimeSpan {
+  const width = span.to - span.from;
+  if (span.from < bounds.from) return { from: bounds.from, to: bounds.from + width };
+  if (span.to > bounds.to) return { from: bounds.to - width, to: bounds.to };
+  return span;
+}
+
+function toPoint(records: ConnectionRecord[]): LatencyPoint {
+  const latest = records[records.length - 1];
+  const times = records
+    .filter(record => record.isOnline && record.responseTime !== null)
+    .map(record => record.responseTime!);
+  return {
+    time: records.length === 1
+      ? latest.timestamp.getTime()
+      : Math.round((records[0].timestamp.getTime() + latest.timestamp.getTime()) / 2),
+    responseTime: times.length > 0 ? Math.round(times.reduce((sum, time) => sum + time, 0) / times.length) : null,
+    isOnline: records.every(record => record.isOnline),
+    endpoint: latest.endpoint ?? null,
+    error: [...records].reverse().find(record => record.error)?.error ?? null,
+    checks: records.length
+  };
+}
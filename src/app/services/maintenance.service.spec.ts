@@ -0,0 +1,104 @@
+import { ConnectionRecord } from './connectivity.service';
+import { HourlyAggregate } from './history-store.service';
+import {
+  ExcludedPeriod,
+  MaintenanceWindow,
+  countedAggregates,
+  countsTowardUptime,
+  describeWindow,
+  validateWindow,
+  windowAt
+} from './maintenance.service';
+
+describe('maintenance helpers', () => {
+  const hour = 60 * 60 * 1000;
+
+  // Saturdays from 23:30 for an hour, so each occurrence runs into Sunday
+  const weekly: MaintenanceWindow = {
+    id: 'w',
+    kind: 'weekly',
+    label: 'Backups',
+    enabled: true,
+    days: [6],
+    startTime: '23:30',
+    durationMinutes: 60
+  };
+  const once: MaintenanceWindow = {
+    id: 'o',
+    kind: 'once',
+    label: 'ISP works',
+    enabled: true,
+    start: new Date(2025, 0, 8, 9, 0),
+    end: new Date(2025, 0, 8, 11, 0)
+  };
+
+  describe('windowAt', () => {
+    it('should find weekly windows, including past midnight', () => {
+      // 4 January 2025 is a Saturday
+      expect(windowAt([weekly], new Date(2025, 0, 4, 23, 45))).toBe(weekly);
+      expect(windowAt([weekly], new Date(2025, 0, 5, 0, 15))).toBe(weekly);
+      expect(windowAt([weekly], new Date(2025, 0, 5, 0, 30))).toBeNull();
+      expect(windowAt([weekly], new Date(2025, 0, 4, 0, 15))).toBeNull();
+    });
+
+    it('should find one-off windows', () => {
+      expect(windowAt([weekly, once], new Date(2025, 0, 8, 10, 0))).toBe(once);
+      expect(windowAt([weekly, once], new Date(2025, 0, 8, 11, 0))).toBeNull();
+    });
+
+    it('should skip disabled windows', () => {
+      expect(windowAt([{ ...once, enabled: false }], new Date(2025, 0, 8, 10, 0))).toBeNull();
+    });
+  });
+
+  describe('exclusions', () => {
+    const start = new Date(2025, 0, 1).getTime();
+    const excluded: ExcludedPeriod[] = [{ id: 'e', from: new Date(start), to: new Date(start + 2 * hour), note: 'Reboot' }];
+
+    const record = (at: number, maintenance?: string): ConnectionRecord => ({
+      timestamp: new Date(at),
+      isOnline: false,
+      responseTime: null,
+      endpoint: null,
+      ...(maintenance ? { maintenance } : {})
+    });
+
+    it('should leave out tagged and excluded checks', () => {
+      expect(countsTowardUptime(record(start + hour), excluded)).toBe(false);
+      expect(countsTowardUptime(record(start + 3 * hour), excluded)).toBe(true);
+      expect(countsTowardUptime(record(start + 3 * hour, 'Backups'), excluded)).toBe(false);
+    });
+
+    it('should only leave out hours an exclusion covers completely', () => {
+      const aggregate = (at: number): HourlyAggregate => ({
+        hour: at,
+        totalChecks: 60,
+        successfulChecks: 0,
+        responseTimeSum: 0,
+        responseTimeCount: 0,
+        minResponseTime: null,
+        maxResponseTime: null
+      });
+      const hours = [aggregate(start), aggregate(start + hour), aggregate(start + 2 * hour)];
+      expect(countedAggregates(hours, excluded).map(entry => entry.hour)).toEqual([start + 2 * hour]);
+      expect(countedAggregates(hours, [{ ...excluded[0], to: new Date(start + 90 * 60 * 1000) }]).length).toBe(2);
+    });
+  });
+
+  describe('validateWindow', () => {
+    it('should accept valid windows', () => {
+      expect(validateWindow(weekly)).toEqual([]);
+      expect(validateWindow(once)).toEqual([]);
+    });
+
+    it('should report each problem', () => {
+      expect(validateWindow({ ...weekly, label: ' ', days: [], startTime: '25:00', durationMinutes: 0 }).length).toBe(4);
+      expect(validateWindow({ ...once, end: once.start })).toEqual(['The window must end after it starts']);
+    });
+  });
+
+  it('should describe weekly windows', () => {
+    expect(describeWindow(weekly)).toBe('Sat 23:30–00:30');
+    expect(describeWindow({ ...weekly, days: [0, 1, 2, 3, 4, 5, 6] })).toBe('Daily 23:30–00:30');
+  });
+});
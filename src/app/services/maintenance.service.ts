@@ -0,0 +1,233 @@
+import { Injectable, signal } from '@angular/core';
+import { ConnectionRecord } from './connectivity.service';
+import { HourlyAggregate } from './history-store.service';
+import { readJson, writeJson } from '../utils/local-storage';
+import { parseClockTime } from '../utils/clock-time';
+
+const STORAGE_KEY = 'am-i-online.maintenance';
+const HOUR = 60 * 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface WindowBase {
+  id: string;
+  label: string;
+  enabled: boolean;
+}
+
+// A single planned outage
+export interface OneOffWindow extends WindowBase {
+  kind: 'once';
+  start: Date;
+  end: Date;
+}
+
+// On each of `days` (0 is Sunday) from the local time `startTime`, possibly
+// running past midnight
+export interface WeeklyWindow extends WindowBase {
+  kind: 'weekly';
+  days: number[];
+  startTime: string;
+  durationMinutes: number;
+}
+
+export type MaintenanceWindow = OneOffWindow | WeeklyWindow;
+
+export type NewMaintenanceWindow = Omit<OneOffWindow, 'id'> | Omit<WeeklyWindow, 'id'>;
+
+// Recorded history left out afterwards, e.g. a reboot nobody announced
+export interface ExcludedPeriod {
+  id: string;
+  from: Date;
+  to: Date;
+  note: string;
+}
+
+// Dates are stored as numbers
+interface StoredMaintenance {
+  windows: ((Omit<OneOffWindow, 'start' | 'end'> & { start: number; end: number }) | WeeklyWindow)[];
+  excluded: (Omit<ExcludedPeriod, 'from' | 'to'> & { from: number; to: number })[];
+}
+
+// Planned maintenance and excluded periods. Checks still run through both, but
+// don't count toward uptime, incidents or alerts.
+@Injectable({
+  providedIn: 'root'
+})
+export class MaintenanceService {
+
+  private windowsSignal = signal<MaintenanceWindow[]>([]);
+  private excludedSignal = signal<ExcludedPeriod[]>([]);
+
+  readonly windows = this.windowsSignal.asReadonly();
+  // Oldest first
+  readonly excluded = this.excludedSignal.asReadonly();
+
+  constructor() {
+    const stored = readJson<StoredMaintenance>(STORAGE_KEY, { windows: [], excluded: [] });
+    this.windowsSignal.set(stored.windows.map(window =>
+      window.kind === 'once' ? { ...window, start: new Date(window.start), end: new Date(window.end) } : window
+    ));
+    this.excludedSignal.set(stored.excluded.map(period => ({ ...period, from: new Date(period.from), to: new Date(period.to) })));
+  }
+
+  // Returns a list of human readable problems; an empty list means the window was added
+  addWindow(window: NewMaintenanceWindow): string[] {
+    const errors = validateWindow(window);
+    if (errors.length === 0) {
+      this.windowsSignal.update(windows => [...windows, { ...window, label: window.label.trim(), id: newId() }]);
+      this.persist();
+    }
+    return errors;
+  }
+
+  setWindowEnabled(id: string, enabled: boolean): void {
+    this.windowsSignal.update(windows => windows.map(window => window.id === id ? { ...window, enabled } : window));
+    this.persist();
+  }
+
+  removeWindow(id: string): void {
+    this.windowsSignal.update(windows => windows.filter(window => window.id !== id));
+    this.persist();
+  }
+
+  exclude(from: Date, to: Date, note: string): string[] {
+    const errors: string[] = [];
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      errors.push('The period must end after it starts');
+    } else if (from.getTime() > Date.now()) {
+      errors.push('Only recorded history can be excluded; plan future outages as a maintenance window');
+    }
+    if (errors.length === 0) {
+      this.excludedSignal.update(periods =>
+        [...periods, { id: newId(), from, to, note: note.trim() }].sort((a, b) => a.from.getTime() - b.from.getTime())
+      );
+      this.persist();
+    }
+    return errors;
+  }
+
+  removeExclusion(id: string): void {
+    this.excludedSignal.update(periods => periods.filter(period => period.id !== id));
+    this.persist();
+  }
+
+  // The enabled window `date` falls in, for tagging checks
+  windowAt(date: Date): MaintenanceWindow | null {
+    return windowAt(this.windowsSignal(), date);
+  }
+
+  // Reads the exclusions, so computations that use these re-run when they change
+  countedRecords(records: ConnectionRecord[]): ConnectionRecord[] {
+    const periods = this.excludedSignal();
+    return records.filter(record => countsTowardUptime(record, periods));
+  }
+
+  countedAggregates(aggregates: HourlyAggregate[]): HourlyAggregate[] {
+    return countedAggregates(aggregates, this.excludedSignal());
+  }
+
+  // Why a check doesn't count: its maintenance window, or the excluded period's note
+  exclusionReason(record: ConnectionRecord): string | null {
+    if (record.maintenance) return record.maintenance;
+    const period = this.excludedSignal().find(period => isInPeriod(period, record.timestamp));
+    return period ? period.note || 'Excluded' : null;
+  }
+
+  // Whether an outage lies entirely within an excluded period
+  isExcludedSpan(start: Date, end: Date | null): boolean {
+    return end !== null && this.excludedSignal().some(period => period.from <= start && period.to >= end);
+  }
+
+  private persist(): void {
+    writeJson<StoredMaintenance>(STORAGE_KEY, {
+      windows: this.windowsSignal().map(window =>
+        window.kind === 'once' ? { ...window, start: window.start.getTime(), end: window.end.getTime() } : window
+      ),
+      excluded: this.excludedSignal().map(period => ({ ...period, from: period.from.getTime(), to: period.to.getTime() }))
+    });
+  }
+}
+
+export function windowAt(windows: MaintenanceWindow[], date: Date): MaintenanceWindow | null {
+  return windows.find(window => window.enabled && isWithin(window, date)) ?? null;
+}
+
+// Checks tagged with a maintenance window or recorded during an excluded period don't count
+export function countsTowardUptime(record: ConnectionRecord, excluded: ExcludedPeriod[]): boolean {
+  return !record.maintenance && !excluded.some(period => isInPeriod(period, record.timestamp));
+}
+
+// Hourly aggregates hold no per-check times, so only hours an exclusion
+// covers completely can be left out
+export function countedAggregates(aggregates: HourlyAggregate[], excluded: ExcludedPeriod[]): HourlyAggregate[] {
+  return aggregates.filter(aggregate => !excluded.some(period =>
+    period.from.getTime() <= aggregate.hour && period.to.getTime() >= aggregate.hour + HOUR
+  ));
+}
+
+export function validateWindow(window: NewMaintenanceWindow): string[] {
+  const errors: string[] = [];
+  if (!window.label?.trim()) errors.push('Label is required');
+
+  if (window.kind === 'once') {
+    if (Number.isNaN(window.start.getTime()) || Number.isNaN(window.end.getTime()) || window.start >= window.end) {
+      errors.push('The window must end after it starts');
+    }
+  } else if (window.kind === 'weekly') {
+    if (window.days.length === 0 || window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      errors.push('Pick at least one day');
+    }
+    if (parseClockTime(window.startTime) === null) errors.push('Start time must look like 02:00');
+    if (!Number.isInteger(window.durationMinutes) || window.durationMinutes < 1 || window.durationMinutes > DAY_MINUTES) {
+      errors.push('Duration must be between 1 minute and 24 hours');
+    }
+  } else {
+    errors.push('Unknown schedule');
+  }
+  return errors;
+}
+
+// "Sun 02:00–03:00", "Daily 23:30–00:30" or the one-off dates
+export function describeWindow(window: MaintenanceWindow): string {
+  if (window.kind === 'once') {
+    return `${formatDateTime(window.start)} – ${formatDateTime(window.end)}`;
+  }
+  const start = parseClockTime(window.startTime) ?? 0;
+  const days = window.days.length === 7
+    ? 'Daily'
+    : [...window.days].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day]).join(', ');
+  return `${days} ${formatClockTime(start)}–${formatClockTime(start + window.durationMinutes)}`;
+}
+
+function isInPeriod(period: ExcludedPeriod, date: Date): boolean {
+  return date >= period.from && date <= period.to;
+}
+
+function isWithin(window: MaintenanceWindow, date: Date): boolean {
+  if (window.kind === 'once') return date >= window.start && date < window.end;
+
+  const start = parseClockTime(window.startTime);
+  if (start === null) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  // An occurrence may have started the day before and run past midnight
+  return [0, 1].some(daysBack => {
+    const offset = minutes + daysBack * DAY_MINUTES - start;
+    return window.days.includes((date.getDay() - daysBack + 7) % 7) && offset >= 0 && offset < window.durationMinutes;
+  });
+}
+
+function formatClockTime(minutes: number): string {
+  const wrapped = minutes % DAY_MINUTES;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(Math.floor(wrapped / 60))}:${pad(wrapped % 60)}`;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function newId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,35 @@
+import { connectionKind, describeNetwork, isConstrained, isSignificantChange, readNetworkInfo } from './network-info.service';
+
+describe('NetworkInfoService helpers', () => {
+  it('should copy only the reported fields', () => {
+    const connection = { effectiveType: '4g', downlink: 10, rtt: 50, saveData: false, onchange: null };
+    expect(readNetworkInfo(connection)).toEqual({ effectiveType: '4g', downlink: 10, rtt: 50, saveData: false });
+    expect(readNetworkInfo({})).toEqual({});
+  });
+
+  it('should treat cellular and data saver links as constrained', () => {
+    expect(isConstrained({ type: 'cellular' })).toBeTrue();
+    expect(isConstrained({ type: 'wifi', saveData: true })).toBeTrue();
+    expect(isConstrained({ type: 'wifi', saveData: false })).toBeFalse();
+    expect(isConstrained(null)).toBeFalse();
+  });
+
+  it('should only count link changes as significant, not new estimates', () => {
+    const wifi = { type: 'wifi', effectiveType: '4g', downlink: 10, rtt: 50 };
+    expect(isSignificantChange(wifi, { ...wifi, downlink: 8.5, rtt: 75 })).toBeFalse();
+    expect(isSignificantChange(wifi, { ...wifi, effectiveType: '3g' })).toBeTrue();
+    expect(isSignificantChange(wifi, { ...wifi, type: 'cellular' })).toBeTrue();
+    expect(isSignificantChange(null, wifi)).toBeTrue();
+  });
+
+  it('should group checks without link details as unknown', () => {
+    expect(connectionKind({ type: 'wifi' })).toBe('wifi');
+    expect(connectionKind({ effectiveType: '4g' })).toBe('unknown');
+    expect(connectionKind(undefined)).toBe('unknown');
+  });
+
+  it('should describe what is known about the link', () => {
+    expect(describeNetwork({ type: 'wifi', effectiveType: '4g', downlink: 10, rtt: 50 })).toBe('Wi-Fi · 4g · 10 Mbit/s · 50ms');
+    expect(describeNetwork({ type: 'cellular', saveData: true })).toBe('Cellular · data saver');
+  });
+});
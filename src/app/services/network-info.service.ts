@@ -0,0 +1,138 @@
+import { Injectable, OnDestroy, signal, computed } from '@angular/core';
+import { readJson, writeJson } from '../utils/local-storage';
+
+const STORAGE_KEY = 'am-i-online.network-changes';
+
+// Older change entries are dropped beyond this many
+const MAX_CHANGES = 200;
+
+// What the Network Information API reports about the current link. Every field
+// is optional: support varies by browser, and `type` is mostly only known on Android.
+export interface NetworkInfo {
+  // 'wifi', 'cellular', 'ethernet', ...
+  type?: string;
+  // 'slow-2g', '2g', '3g' or '4g', estimated from recent round trips and throughput
+  effectiveType?: string;
+  // Estimated bandwidth in Mbit/s
+  downlink?: number;
+  // Estimated round trip in ms
+  rtt?: number;
+  // The user asked for reduced data usage
+  saveData?: boolean;
+}
+
+export interface NetworkChange {
+  timestamp: Date;
+  // null when the link was not known before
+  from: NetworkInfo | null;
+  to: NetworkInfo;
+}
+
+type StoredChange = Omit<NetworkChange, 'timestamp'> & { timestamp: number };
+
+// navigator.connection, where the browser has it
+interface NetworkInformation extends EventTarget, NetworkInfo {}
+
+export const CONNECTION_TYPE_LABELS: Record<string, string> = {
+  wifi: 'Wi-Fi',
+  cellular: 'Cellular',
+  ethernet: 'Ethernet',
+  bluetooth: 'Bluetooth',
+  wimax: 'WiMAX',
+  mixed: 'Mixed',
+  other: 'Other',
+  none: 'None',
+  unknown: 'Unknown'
+};
+
+// Link details of the current connection, tracked through `change` events
+@Injectable({
+  providedIn: 'root'
+})
+export class NetworkInfoService implements OnDestroy {
+  private connection = (navigator as Navigator & { connection?: NetworkInformation }).connection ?? null;
+  private infoSignal = signal<NetworkInfo | null>(this.connection ? readNetworkInfo(this.connection) : null);
+  private changesSignal = signal<NetworkChange[]>(loadChanges());
+
+  readonly isSupported = this.connection !== null;
+  readonly info = this.infoSignal.asReadonly();
+  // Oldest first
+  readonly changes = this.changesSignal.asReadonly();
+  // Metered or data-saving links, where checks and tests should be sparing
+  readonly isConstrained = computed(() => isConstrained(this.infoSignal()));
+
+  constructor() {
+    this.connection?.addEventListener('change', this.onChange);
+  }
+
+  ngOnDestroy(): void {
+    this.connection?.removeEventListener('change', this.onChange);
+  }
+
+  clearChanges(): void {
+    this.changesSignal.set([]);
+    writeJson<StoredChange[]>(STORAGE_KEY, []);
+  }
+
+  private onChange = (): void => {
+    const from = this.infoSignal();
+    const to = readNetworkInfo(this.connection!);
+    this.infoSignal.set(to);
+
+    // The estimates move with every few requests; only log actual link changes
+    if (!isSignificantChange(from, to)) return;
+    this.changesSignal.update(changes => [...changes, { timestamp: new Date(), from, to }].slice(-MAX_CHANGES));
+    writeJson<StoredChange[]>(STORAGE_KEY, this.changesSignal().map(change => ({
+      ...change,
+      timestamp: change.timestamp.getTime()
+    })));
+  };
+}
+
+// Copies the fields out of the live object, which keeps changing
+export function readNetworkInfo(connection: NetworkInfo): NetworkInfo {
+  const info: NetworkInfo = {};
+  if (typeof connection.type === 'string') info.type = connection.type;
+  if (typeof connection.effectiveType === 'string') info.effectiveType = connection.effectiveType;
+  if (typeof connection.downlink === 'number') info.downlink = connection.downlink;
+  if (typeof connection.rtt === 'number') info.rtt = connection.rtt;
+  if (typeof connection.saveData === 'boolean') info.saveData = connection.saveData;
+  return info;
+}
+
+// Cellular links are treated as metered
+export function isConstrained(info: NetworkInfo | null): boolean {
+  return info?.saveData === true || info?.type === 'cellular';
+}
+
+// A different link type, speed class or data saving preference
+export function isSignificantChange(from: NetworkInfo | null, to: NetworkInfo): boolean {
+  return !from ||
+    from.type !== to.type ||
+    from.effectiveType !== to.effectiveType ||
+    from.saveData !== to.saveData;
+}
+
+// Groups checks recorded without link details under 'unknown'
+export function connectionKind(info: NetworkInfo | null | undefined): string {
+  return info?.type ?? 'unknown';
+}
+
+export function connectionLabel(kind: string): string {
+  return CONNECTION_TYPE_LABELS[kind] ?? kind;
+}
+
+// "Wi-Fi · 4g · 10 Mbit/s · 50ms", leaving out what is not known
+export function describeNetwork(info: NetworkInfo): string {
+  return [
+    info.type ? connectionLabel(info.type) : null,
+    info.effectiveType ?? null,
+    info.downlink !== undefined ? `${info.downlink} Mbit/s` : null,
+    info.rtt !== undefined ? `${info.rtt}ms` : null,
+    info.saveData ? 'data saver' : null
+  ].filter(part => part !== null).join(' · ');
+}
+
+function loadChanges(): NetworkChange[] {
+  return readJson<StoredChange[]>(STORAGE_KEY, []).map(change => ({ ...change, timestamp: new Date(change.timestamp) }));
+}
@@ -0,0 +1,53 @@
+import { Injectable, inject, effect } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { Title } from '@angular/platform-browser';
+import { ConnectivityService, ConnectionState } from './connectivity.service';
+
+const APP_TITLE = 'Am I Online?';
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  online: 'Online',
+  degraded: 'Degraded',
+  offline: 'Offline',
+  intercepted: 'Login required'
+};
+
+const STATE_COLORS: Record<ConnectionState, string> = {
+  online: '#4ade80',
+  degraded: '#fb923c',
+  offline: '#f87171',
+  intercepted: '#fbbf24'
+};
+
+// Mirrors the connection state in the page title and favicon so it can be
+// read from a background tab
+@Injectable({
+  providedIn: 'root'
+})
+export class PageStatusService {
+  private connectivityService = inject(ConnectivityService);
+  private title = inject(Title);
+  private document = inject(DOCUMENT);
+
+  constructor() {
+    effect(() => {
+      // Keep the static title and icon until the first check has finished
+      if (!this.connectivityService.lastChecked()) return;
+      const state = this.connectivityService.state();
+      this.title.setTitle(`${STATE_LABELS[state]} · ${APP_TITLE}`);
+      this.setFavicon(STATE_COLORS[state]);
+    });
+  }
+
+  private setFavicon(color: string): void {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><circle cx="16" cy="16" r="14" fill="${color}"/></svg>`;
+    let link = this.document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+    if (!link) {
+      link = this.document.createElement('link');
+      link.rel = 'icon';
+      this.document.head.appendChild(link);
+    }
+    link.type = 'image/svg+xml';
+    link.href = `data:image/svg+xml,${encodeURIComponent(svg)}`;
+  }
+}
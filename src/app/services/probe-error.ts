@@ -0,0 +1,15 @@
+// Why a single probe failed:
+// - timeout: no answer within the endpoint's timeout
+// - abort: cancelled by the caller (e.g. another endpoint won a race)
+// - network: the request itself failed (DNS, TCP, TLS, CORS, offline)
+// - status: the endpoint answered with an unexpected status
+// - intercepted: the endpoint answered but the response was not the one it is
+//   known to serve (captive portal, proxy block page)
+export type ProbeErrorKind = 'timeout' | 'abort' | 'network' | 'status' | 'intercepted';
+
+export class ProbeError extends Error {
+  constructor(readonly kind: ProbeErrorKind, message: string) {
+    super(message);
+    this.name = 'ProbeError';
+  }
+}
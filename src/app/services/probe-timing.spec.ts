@@ -0,0 +1,80 @@
+import { ConnectionRecord } from './connectivity.service';
+import { ProbeTiming, ResourceTimingEntry, diagnoseTimings, timingFromEntry, winnerTiming } from './probe-timing';
+
+describe('probe timing helpers', () => {
+  // A fresh HTTPS connection: 20ms DNS, 30ms TCP, 40ms TLS, 50ms waiting, 10ms download
+  const entry: ResourceTimingEntry = {
+    duration: 150,
+    domainLookupStart: 100,
+    domainLookupEnd: 120,
+    connectStart: 120,
+    secureConnectionStart: 150,
+    connectEnd: 190,
+    requestStart: 190,
+    responseStart: 240,
+    responseEnd: 250
+  };
+
+  function timing(phases: Partial<ProbeTiming['phases']>, detailed = true): ProbeTiming {
+    const full = { dns: 0, connect: 0, tls: 0, request: 0, response: 0, ...phases };
+    return { phases: full, total: Object.values(full).reduce((a, b) => a + b, 0), detailed };
+  }
+
+  function record(probeTiming: ProbeTiming): ConnectionRecord {
+    return {
+      timestamp: new Date(Date.UTC(2025, 0, 1)),
+      isOnline: true,
+      responseTime: probeTiming.total,
+      endpoint: 'A',
+      probes: [{ endpoint: 'A', success: true, verified: false, intercepted: false, responseTime: probeTiming.total, timing: probeTiming }]
+    };
+  }
+
+  it('should split an entry into phases', () => {
+    expect(timingFromEntry(entry, 999)).toEqual({
+      phases: { dns: 20, connect: 30, tls: 40, request: 50, response: 10 },
+      total: 150,
+      detailed: true
+    });
+  });
+
+  it('should count the whole handshake as connect time over plain HTTP', () => {
+    expect(timingFromEntry({ ...entry, secureConnectionStart: 0 }, 999).phases).toEqual(
+      jasmine.objectContaining({ connect: 70, tls: 0 })
+    );
+  });
+
+  it('should fall back to the total for restricted cross-origin entries', () => {
+    const restricted = { ...entry, domainLookupStart: 0, domainLookupEnd: 0, connectStart: 0, connectEnd: 0,
+      secureConnectionStart: 0, requestStart: 0, responseStart: 0 };
+    expect(timingFromEntry(restricted, 999)).toEqual(jasmine.objectContaining({ total: 150, detailed: false }));
+    expect(timingFromEntry(null, 120)).toEqual(jasmine.objectContaining({ total: 120, detailed: false }));
+  });
+
+  it('should pick the timing of the probe that answered the check', () => {
+    const answered = record(timing({ request: 40 }));
+    expect(winnerTiming(answered)?.phases.request).toBe(40);
+    expect(winnerTiming({ ...answered, probes: undefined })).toBeNull();
+  });
+
+  it('should name a dominating phase as the bottleneck', () => {
+    const diagnosis = diagnoseTimings([
+      record(timing({ dns: 200, request: 40 })),
+      record(timing({ dns: 300, request: 60 }))
+    ]);
+    expect(diagnosis.bottleneck).toBe('dns');
+    expect(diagnosis.averages?.dns).toBe(250);
+    expect(diagnosis.findings[0]).toContain('DNS is the bottleneck');
+  });
+
+  it('should not blame a phase of a fast or balanced request', () => {
+    expect(diagnoseTimings([record(timing({ dns: 10, request: 5 }))]).bottleneck).toBeNull();
+    expect(diagnoseTimings([record(timing({ dns: 50, connect: 50, tls: 50, request: 50 }))]).bottleneck).toBeNull();
+  });
+
+  it('should explain when no phase detail is available', () => {
+    const diagnosis = diagnoseTimings([record(timing({ request: 80 }, false))]);
+    expect(diagnosis.samples).toBe(0);
+    expect(diagnosis.findings[0]).toContain('Timing-Allow-Origin');
+  });
+});
@@ -0,0 +1,147 @@
+import { ConnectionRecord } from './connectivity.service';
+
+// Phases of a single request, in ms, from its Resource Timing entry:
+// - dns: domain lookup
+// - connect: TCP handshake
+// - tls: TLS handshake
+// - request: request sent until the first response byte (server time)
+// - response: first to last response byte
+export type TimingPhase = 'dns' | 'connect' | 'tls' | 'request' | 'response';
+
+export const TIMING_PHASES: TimingPhase[] = ['dns', 'connect', 'tls', 'request', 'response'];
+
+export interface ProbeTiming {
+  phases: Record<TimingPhase, number>;
+  total: number;
+  // False when the browser withheld phase detail, e.g. for cross-origin
+  // endpoints without Timing-Allow-Origin; only `total` is meaningful then
+  detailed: boolean;
+}
+
+export interface TimingDiagnosis {
+  // Probes with phase detail the diagnosis is based on
+  samples: number;
+  averages: Record<TimingPhase, number> | null;
+  bottleneck: TimingPhase | null;
+  findings: string[];
+}
+
+// Fields of PerformanceResourceTiming used here, so tests can pass plain objects
+export type ResourceTimingEntry = Pick<
+  PerformanceResourceTiming,
+  'duration' | 'domainLookupStart' | 'domainLookupEnd' | 'connectStart' | 'connectEnd' |
+  'secureConnectionStart' | 'requestStart' | 'responseStart' | 'responseEnd'
+>;
+
+// A phase must take at least this share of the request to count as the bottleneck
+const BOTTLENECK_SHARE = 0.4;
+// ...and at least this long, so a 5ms request doesn't get "slow DNS"
+const BOTTLENECK_MIN_MS = 30;
+
+const BOTTLENECK_FINDINGS: Record<TimingPhase, (ms: number) => string> = {
+  dns: ms => `DNS is the bottleneck: lookups take ${ms}ms on average. A faster resolver may help.`,
+  connect: ms => `Connecting is the bottleneck: TCP handshakes take ${ms}ms on average, which points at network latency.`,
+  tls: ms => `TLS is the bottleneck: handshakes take ${ms}ms on average, which points at network latency or a slow proxy.`,
+  request: ms => `The servers are the bottleneck: they take ${ms}ms on average to start answering.`,
+  response: ms => `Transfers are the bottleneck: responses take ${ms}ms on average to arrive, so bandwidth may be saturated.`
+};
+
+let bufferFullHandled = false;
+
+// The most recent Resource Timing entry for `url` that started at or after `since`
+// (a performance.now() timestamp). Entries can be queued slightly after the
+// response resolves, so one macrotask is allowed for it to appear.
+export async function findResourceTiming(url: string, since: number): Promise<PerformanceResourceTiming | null> {
+  if (typeof performance === 'undefined' || typeof performance.getEntriesByName !== 'function') return null;
+  keepResourceTimingBufferOpen();
+
+  const absolute = new URL(url, globalThis.location?.href).href;
+  const lookup = () => {
+    const entries = performance.getEntriesByName(absolute, 'resource') as PerformanceResourceTiming[];
+    return entries.filter(entry => entry.startTime >= since).pop() ?? null;
+  };
+
+  return lookup() ?? await new Promise(resolve => setTimeout(() => resolve(lookup())));
+}
+
+export function timingFromEntry(entry: ResourceTimingEntry | null, fallbackTotal: number): ProbeTiming {
+  // Restricted entries report zero for everything between fetchStart and responseEnd
+  if (!entry || entry.requestStart <= 0 || entry.responseStart <= 0) {
+    return { phases: emptyPhases(), total: Math.round(entry?.duration || fallbackTotal), detailed: false };
+  }
+
+  const secure = entry.secureConnectionStart > 0;
+  return {
+    phases: {
+      dns: round(entry.domainLookupEnd - entry.domainLookupStart),
+      connect: round((secure ? entry.secureConnectionStart : entry.connectEnd) - entry.connectStart),
+      tls: secure ? round(entry.connectEnd - entry.secureConnectionStart) : 0,
+      request: round(entry.responseStart - entry.requestStart),
+      response: round(entry.responseEnd - entry.responseStart)
+    },
+    total: round(entry.duration),
+    detailed: true
+  };
+}
+
+// The timing of the probe that answered each check
+export function winnerTiming(record: ConnectionRecord): ProbeTiming | null {
+  return record.probes?.find(probe => probe.success && probe.endpoint === record.endpoint)?.timing ?? null;
+}
+
+// Averages the phases of successful probes and names the slowest phase
+export function diagnoseTimings(records: ConnectionRecord[]): TimingDiagnosis {
+  const timings = records
+    .flatMap(record => record.probes ?? [])
+    .filter(probe => probe.success && probe.timing)
+    .map(probe => probe.timing!);
+  const detailed = timings.filter(timing => timing.detailed);
+
+  if (detailed.length === 0) {
+    return {
+      samples: 0,
+      averages: null,
+      bottleneck: null,
+      findings: timings.length > 0
+        ? ['No phase detail is available: the endpoints do not send Timing-Allow-Origin, so only total times are known.']
+        : ['No timed checks yet.']
+    };
+  }
+
+  const averages = emptyPhases();
+  for (const phase of TIMING_PHASES) {
+    averages[phase] = round(detailed.reduce((sum, timing) => sum + timing.phases[phase], 0) / detailed.length);
+  }
+  const total = detailed.reduce((sum, timing) => sum + timing.total, 0) / detailed.length;
+  const slowest = TIMING_PHASES.reduce((a, b) => averages[b] > averages[a] ? b : a);
+  const bottleneck = averages[slowest] >= BOTTLENECK_MIN_MS && averages[slowest] >= total * BOTTLENECK_SHARE
+    ? slowest
+    : null;
+
+  const findings: string[] = [];
+  if (bottleneck) {
+    findings.push(BOTTLENECK_FINDINGS[bottleneck](averages[bottleneck]));
+  } else {
+    findings.push(`No single phase dominates; requests take ${round(total)}ms on average.`);
+  }
+  if (detailed.length < timings.length) {
+    findings.push(`${timings.length - detailed.length} of ${timings.length} probes had no phase detail and are left out.`);
+  }
+  return { samples: detailed.length, averages, bottleneck, findings };
+}
+
+// Clears the Resource Timing buffer when it fills up; otherwise the browser
+// stops recording new entries after a few hundred requests
+function keepResourceTimingBufferOpen(): void {
+  if (bufferFullHandled) return;
+  bufferFullHandled = true;
+  performance.addEventListener?.('resourcetimingbufferfull', () => performance.clearResourceTimings());
+}
+
+function emptyPhases(): Record<TimingPhase, number> {
+  return { dns: 0, connect: 0, tls: 0, request: 0, response: 0 };
+}
+
+function round(ms: number): number {
+  return Math.max(0, Math.round(ms));
+}
@@ -0,0 +1,94 @@
+import { ConnectivityEndpoint } from './connectivity.service';
+import { describeTransport, transportOf, verifyAnswer, withCacheBuster } from './probe-transport';
+import { FakeTransport } from './fake-transport';
+
+describe('probe transports', () => {
+  const endpoint: ConnectivityEndpoint = {
+    name: 'Mozilla',
+    url: 'https://detectportal.firefox.com/success.txt',
+    expectedStatus: [200],
+    enabled: true,
+    verification: { mode: 'content', expectedBody: 'success' }
+  };
+
+  const answer = (body: string, status = 200, url = endpoint.url) => ({ status, url, text: async () => body });
+
+  describe('transportOf', () => {
+    it('should default to a no-cors fetch GET', () => {
+      expect(transportOf(endpoint)).toEqual({ kind: 'fetch', method: 'GET', mode: 'no-cors' });
+    });
+
+    it('should keep the endpoint\'s options', () => {
+      expect(transportOf({ transport: { kind: 'fetch', method: 'HEAD' } }))
+        .toEqual({ kind: 'fetch', method: 'HEAD', mode: 'no-cors' });
+    });
+  });
+
+  it('should describe transports', () => {
+    expect(describeTransport({ kind: 'fetch', method: 'HEAD', mode: 'cors' })).toBe('fetch HEAD (cors)');
+    expect(describeTransport({ kind: 'websocket', echo: 'ping' })).toBe('WebSocket echo');
+    expect(describeTransport({ kind: 'image' })).toBe('image beacon');
+  });
+
+  describe('verifyAnswer', () => {
+    it('should accept the expected content', async () => {
+      await expectAsync(verifyAnswer(endpoint, answer('success\n'))).toBeResolved();
+    });
+
+    it('should flag a portal page as intercepted', async () => {
+      await expectAsync(verifyAnswer(endpoint, answer('<html>Please log in</html>')))
+        .toBeRejectedWith(jasmine.objectContaining({ kind: 'intercepted' }));
+    });
+
+    it('should flag a redirect to another origin as intercepted', async () => {
+      await expectAsync(verifyAnswer(endpoint, answer('success', 200, 'https://portal.example.com/login')))
+        .toBeRejectedWith(jasmine.objectContaining({ kind: 'intercepted' }));
+    });
+
+    it('should report server errors as a bad status', async () => {
+      await expectAsync(verifyAnswer(endpoint, answer('', 503)))
+        .toBeRejectedWith(jasmine.objectContaining({ kind: 'status' }));
+    });
+  });
+
+  it('should add a cache buster to the query', () => {
+    expect(withCacheBuster('https://example.com/favicon.ico?size=16', 36))
+      .toBe('https://example.com/favicon.ico?size=16&_=10');
+  });
+
+  describe('FakeTransport', () => {
+    beforeEach(() => {
+      jasmine.clock().install();
+    });
+
+    afterEach(() => {
+      jasmine.clock().uninstall();
+    });
+
+    it('should answer after the scripted delay', async () => {
+      const fake = new FakeTransport().answer('Mozilla', { delayMs: 100, verified: true, status: 200 });
+      const probe = fake.probe(endpoint, new AbortController().signal);
+
+      jasmine.clock().tick(100);
+      await expectAsync(probe).toBeResolvedTo({ verified: true, status: 200 });
+      expect(fake.probed).toEqual(['Mozilla']);
+    });
+
+    it('should give up on abort when it never answers', async () => {
+      const fake = new FakeTransport().answer('Mozilla', { delayMs: null });
+      const controller = new AbortController();
+      const probe = fake.probe(endpoint, controller.signal);
+
+      controller.abort();
+      await expectAsync(probe).toBeRejected();
+    });
+
+    it('should fail with the scripted error', async () => {
+      const fake = new FakeTransport().answer('Mozilla', { error: { kind: 'network', message: 'Failed to fetch' } });
+      const probe = fake.probe(endpoint, new AbortController().signal);
+
+      jasmine.clock().tick(0);
+      await expectAsync(probe).toBeRejectedWith(jasmine.objectContaining({ kind: 'network' }));
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { InjectionToken } from '@angular/core';
+import { ConnectivityEndpoint, EndpointCheck } from './connectivity.service';
+import { ProbeError } from './probe-error';
+
+// How an endpoint is probed:
+// - fetch: a GET or HEAD request, in cors or no-cors mode (the default transport)
+// - image: loads the URL as an image, e.g. a favicon; works where CSP or a proxy
+//   blocks fetch but allows images
+// - websocket: opens a WebSocket (ws:// or wss://) and optionally waits for a
+//   message to be echoed back
+// - xhr: an XMLHttpRequest, for environments that block or wrap fetch; needs CORS
+export type TransportKind = 'fetch' | 'image' | 'websocket' | 'xhr';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['fetch', 'image', 'websocket', 'xhr'];
+
+export interface EndpointTransport {
+  kind: TransportKind;
+  // fetch and xhr
+  method?: 'GET' | 'HEAD';
+  // fetch; no-cors can't read the response, so only content verification falls back to cors
+  mode?: 'cors' | 'no-cors';
+  // websocket: sent once connected; the endpoint must send it back
+  echo?: string;
+}
+
+// Probes one endpoint. Resolves when the endpoint answered as expected and
+// rejects otherwise, with a ProbeError where the cause is known. Must give up
+// promptly once `signal` aborts; timeouts and cancellation are reported by the caller.
+export interface ProbeTransport {
+  probe(endpoint: ConnectivityEndpoint, signal: AbortSignal): Promise<EndpointCheck>;
+}
+
+export type ProbeTransports = Record<TransportKind, ProbeTransport>;
+
+// Replace to probe without touching the network, e.g. with FakeTransport in tests
+export const PROBE_TRANSPORTS = new InjectionToken<ProbeTransports>('PROBE_TRANSPORTS', {
+  providedIn: 'root',
+  factory: () => ({
+    fetch: new FetchTransport(),
+    image: new ImageTransport(),
+    websocket: new WebSocketTransport(),
+    xhr: new XhrTransport()
+  })
+});
+
+const DEFAULT_TRANSPORT: EndpointTransport = { kind: 'fetch', method: 'GET', mode: 'no-cors' };
+
+export function transportOf(endpoint: Pick<ConnectivityEndpoint, 'transport'>): EndpointTransport {
+  return { ...DEFAULT_TRANSPORT, ...endpoint.transport };
+}
+
+// "fetch HEAD (cors)", "image beacon", "WebSocket echo"
+export function describeTransport(transport: EndpointTransport): string {
+  switch (transport.kind) {
+    case 'fetch': return `fetch ${transport.method ?? 'GET'} (${transport.mode ?? 'no-cors'})`;
+    case 'xhr': return `XHR ${transport.method ?? 'GET'}`;
+    case 'websocket': return transport.echo ? 'WebSocket echo' : 'WebSocket';
+    case 'image': return 'image beacon';
+  }
+}
+
+// A response whose status and body can be read. Fetch responses fit as they are.
+export interface ReadableAnswer {
+  status: number;
+  // Final URL after redirects; empty when unknown
+  url: string;
+  text(): Promise<string>;
+}
+
+// Checks an answer against the endpoint's verification, for endpoints that have one
+export async function verifyAnswer(endpoint: ConnectivityEndpoint, answer: ReadableAnswer): Promise<void> {
+  const verification = endpoint.verification ?? { mode: 'status' };
+
+  if (answer.url && new URL(answer.url).origin !== new URL(endpoint.url).origin) {
+    throw new ProbeError('intercepted', `Redirected to ${new URL(answer.url).host}`);
+  }
+
+  if (!endpoint.expectedStatus.includes(answer.status)) {
+    // Portals typically answer 200 with their own page or redirect; 4xx/5xx is just a broken endpoint
+    const kind = answer.status < 400 ? 'intercepted' : 'status';
+    throw new ProbeError(kind, `Unexpected status: ${answer.status}`);
+  }
+
+  if (verification.mode === 'content') {
+    const body = await answer.text();
+    if (!body.includes(verification.expectedBody ?? '')) {
+      throw new ProbeError('intercepted', 'Response body did not match the expected content');
+    }
+  } else if (verification.mode === 'hash') {
+    const digest = await sha256Hex(await answer.text());
+    // crypto.subtle is unavailable outside secure contexts; the status check above still applies
+    if (digest !== null && digest !== verification.bodySha256?.toLowerCase()) {
+      throw new ProbeError('intercepted', 'Response body hash did not match');
+    }
+  }
+}
+
+// For readable answers of endpoints without verification
+export function expectStatus(endpoint: ConnectivityEndpoint, status: number): void {
+  if (!endpoint.expectedStatus.includes(status)) {
+    throw new ProbeError('status', `Unexpected status: ${status}`);
+  }
+}
+
+// A unique query parameter, so beacons are not answered from the cache
+export function withCacheBuster(url: string, now = Date.now()): string {
+  const busted = new URL(url, globalThis.location?.href);
+  busted.searchParams.set('_', now.toString(36));
+  return busted.href;
+}
+
+export class FetchTransport implements ProbeTransport {
+  async probe(endpoint: ConnectivityEndpoint, signal: AbortSignal): Promise<EndpointCheck> {
+    const { method, mode } = transportOf(endpoint);
+    const verifying = (endpoint.verification?.mode ?? 'none') !== 'none';
+
+    if (mode === 'cors') {
+      const response = await fetch(endpoint.url, { method, mode: 'cors', cache: 'no-store', signal });
+      if (verifying) await verifyAnswer(endpoint, response);
+      else expectStatus(endpoint, response.status);
+      return { verified: verifying, status: response.status };
+    }
+
+    if (verifying) {
+      const readable = await this.fetchReadable(endpoint, method!, signal);
+      if (readable) {
+        await verifyAnswer(endpoint, readable);
+        return { verified: true, status: readable.status };
+      }
+      // Endpoint doesn't allow CORS reads; fall back to an unverified probe
+    }
+
+    const response = await fetch(endpoint.url, { method, mode: 'no-cors', signal });
+
+    // For no-cors requests, we can't read the status, so we assume success if we get a response
+    if (response.type === 'opaque') {
+      return { verified: false, status: null };
+    }
+
+    expectStatus(endpoint, response.status);
+    return { verified: false, status: response.status };
+  }
+
+  // A CORS request whose response we can inspect, or null when the endpoint doesn't allow it
+  private async fetchReadable(endpoint: ConnectivityEndpoint, method: string, signal: AbortSignal): Promise<Response | null> {
+    try {
+      return await fetch(endpoint.url, { method, mode: 'cors', cache: 'no-store', signal });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      return null;
+    }
+  }
+}
+
+export class XhrTransport implements ProbeTransport {
+  probe(endpoint: ConnectivityEndpoint, signal: AbortSignal): Promise<EndpointCheck> {
+    const { method } = transportOf(endpoint);
+    const verifying = (endpoint.verification?.mode ?? 'none') !== 'none';
+
+    return new Promise<XMLHttpRequest>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(method!, endpoint.url);
+      xhr.onload = () => resolve(xhr);
+      // Status 0: the request failed or CORS hid the response
+      xhr.onerror = () => reject(new Error('XHR request failed'));
+      xhr.onabort = () => reject(new Error('XHR request aborted'));
+      signal.addEventListener('abort', () => xhr.abort(), { once: true });
+      xhr.send();
+    }).then(async xhr => {
+      if (verifying) {
+        await verifyAnswer(endpoint, { status: xhr.status, url: xhr.responseURL, text: async () => xhr.responseText });
+      } else {
+        expectStatus(endpoint, xhr.status);
+      }
+      return { verified: verifying, status: xhr.status };
+    });
+  }
+}
+
+// Only tells whether an image arrived; the status and body are never readable
+export class ImageTransport implements ProbeTransport {
+  probe(endpoint: ConnectivityEndpoint, signal: AbortSignal): Promise<EndpointCheck> {
+    const url = withCacheBuster(endpoint.url);
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      const finish = () => {
+        image.onload = image.onerror = null;
+        image.src = '';
+      };
+      image.onload = () => {
+        finish();
+        resolve({ verified: false, status: null, url });
+      };
+      // Also fires when the URL answers with something other than an image
+      image.onerror = () => {
+        finish();
+        reject(new Error('Image failed to load'));
+      };
+      signal.addEventListener('abort', () => {
+        finish();
+        reject(new Error('Image load aborted'));
+      }, { once: true });
+      image.src = url;
+    });
+  }
+}
+
+// Connects and, with an echo message, waits for it to come back. A connection
+// closed before it opened is reported as a network error.
+export class WebSocketTransport implements ProbeTransport {
+  probe(endpoint: ConnectivityEndpoint, signal: AbortSignal): Promise<EndpointCheck> {
+    const { echo } = transportOf(endpoint);
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(endpoint.url);
+      let settled = false;
+      const settle = (outcome: () => void) => {
+        if (settled) return;
+        settled = true;
+        socket.close();
+        outcome();
+      };
+
+      socket.onopen = () => {
+        if (echo === undefined) settle(() => resolve({ verified: false, status: null }));
+        else socket.send(echo);
+      };
+      socket.onmessage = event => {
+        if (event.data === echo) settle(() => resolve({ verified: true, status: null }));
+        else settle(() => reject(new ProbeError('status', 'The echoed message did not match')));
+      };
+      socket.onerror = () => settle(() => reject(new Error('WebSocket connection failed')));
+      socket.onclose = event => settle(() => reject(new Error(`WebSocket closed with code ${event.code}`)));
+      signal.addEventListener('abort', () => settle(() => reject(new Error('WebSocket aborted'))), { once: true });
+    });
+  }
+}
+
+async function sha256Hex(text: string): Promise<string | null> {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
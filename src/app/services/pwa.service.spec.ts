@@ -0,0 +1,32 @@
+import { ConnectivityEndpoint } from './connectivity.service';
+import { backgroundEndpoints } from './pwa.service';
+
+describe('backgroundEndpoints', () => {
+  const endpoint = (name: string, url: string, extra: Partial<ConnectivityEndpoint> = {}): ConnectivityEndpoint => ({
+    name,
+    url,
+    expectedStatus: [204],
+    enabled: true,
+    ...extra
+  });
+
+  const endpoints = [
+    endpoint('Google', 'https://google.com/generate_204'),
+    endpoint('Google (HTTP)', 'http://google.com/generate_204'),
+    endpoint('Echo', 'wss://echo.example.com', { transport: { kind: 'websocket' } }),
+    endpoint('Beacon', 'https://example.com/favicon.ico', { transport: { kind: 'image' } }),
+    endpoint('VPN', 'https://intranet.example.com/health', { group: 'VPN' }),
+    endpoint('API', 'https://api.example.com/health', { timeout: 8000, transport: { kind: 'xhr', method: 'HEAD' } })
+  ];
+
+  it('should keep public endpoints the worker can fetch, in order', () => {
+    expect(backgroundEndpoints(endpoints, 'https:')).toEqual([
+      { name: 'Google', url: 'https://google.com/generate_204', method: 'GET', mode: 'no-cors', expectedStatus: [204], timeout: 3000 },
+      { name: 'API', url: 'https://api.example.com/health', method: 'HEAD', mode: 'cors', expectedStatus: [204], timeout: 8000 }
+    ]);
+  });
+
+  it('should only keep plain HTTP endpoints on plain HTTP pages', () => {
+    expect(backgroundEndpoints(endpoints, 'http:').map(entry => entry.name)).toEqual(['Google', 'Google (HTTP)', 'API']);
+  });
+});
@@ -0,0 +1,150 @@
+import { Injectable, inject, signal, effect, isDevMode } from '@angular/core';
+import { ConnectivityEndpoint, ConnectivityService, ConnectionRecord } from './connectivity.service';
+import { EndpointRegistryService } from './endpoint-registry.service';
+import { DEFAULT_ENDPOINT_TIMEOUT } from './default-endpoints';
+import { transportOf } from './probe-transport';
+
+// Must match SYNC_TAG in public/sw.js
+const SYNC_TAG = 'connectivity-check';
+// The shortest interval asked for; browsers pick the actual one, often hours
+const BACKGROUND_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// 'unsupported' without periodic background sync; 'not-allowed' until the
+// browser grants it, which usually takes installing the app
+export type BackgroundCheckState = 'unsupported' | 'not-allowed' | 'active';
+
+// What the service worker needs to probe an endpoint
+export interface BackgroundEndpoint {
+  name: string;
+  url: string;
+  method: 'GET' | 'HEAD';
+  mode: RequestMode;
+  expectedStatus: number[];
+  timeout: number;
+}
+
+// Background checks as the service worker queues them
+type QueuedRecord = Omit<ConnectionRecord, 'timestamp'> & { timestamp: number };
+
+type WorkerMessage =
+  | { type: 'config'; config: { endpoints: BackgroundEndpoint[] } }
+  | { type: 'cache'; urls: string[] }
+  | { type: 'drain' };
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+}
+
+// Registers the service worker that lets the app open offline and, where the
+// browser allows it, keeps checking while the app is closed
+@Injectable({
+  providedIn: 'root'
+})
+export class PwaService {
+  private connectivityService = inject(ConnectivityService);
+  private endpointRegistry = inject(EndpointRegistryService);
+
+  private workerSignal = signal<ServiceWorker | null>(null);
+  private backgroundChecksSignal = signal<BackgroundCheckState>('unsupported');
+  private mergedChecksSignal = signal<number>(0);
+
+  // Service workers stay off in development, where they would serve stale builds
+  readonly isSupported = !isDevMode() && typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+  readonly backgroundChecks = this.backgroundChecksSignal.asReadonly();
+  // Background checks merged into the history when the app opened
+  readonly mergedChecks = this.mergedChecksSignal.asReadonly();
+
+  constructor() {
+    if (!this.isSupported) return;
+
+    // Keep the worker's endpoints in step with the registry
+    effect(() => {
+      const worker = this.workerSignal();
+      const endpoints = backgroundEndpoints(this.endpointRegistry.enabledEndpoints(), location.protocol);
+      if (worker) post(worker, { type: 'config', config: { endpoints } });
+    });
+    this.register();
+  }
+
+  private async register(): Promise<void> {
+    try {
+      // Relative to the base href, so the worker's scope covers every route
+      await navigator.serviceWorker.register(new URL('sw.js', document.baseURI).href);
+      const registration = await navigator.serviceWorker.ready;
+      const worker = registration.active;
+      if (!worker) return;
+
+      this.workerSignal.set(worker);
+      post(worker, { type: 'cache', urls: loadedResources() });
+      this.backgroundChecksSignal.set(await registerPeriodicSync(registration));
+
+      const queued = await drain(worker);
+      const added = await this.connectivityService.mergeBackgroundRecords(
+        queued.map(record => ({ ...record, timestamp: new Date(record.timestamp) }))
+      );
+      this.mergedChecksSignal.set(added);
+    } catch (error) {
+      console.warn('Unable to set up the service worker', error);
+    }
+  }
+}
+
+// Public internet endpoints the worker can reach with fetch, in probe order.
+// Plain HTTP is left out on HTTPS pages, where it would be blocked as mixed content.
+export function backgroundEndpoints(endpoints: ConnectivityEndpoint[], pageProtocol: string): BackgroundEndpoint[] {
+  return endpoints
+    .filter(endpoint => {
+      const kind = transportOf(endpoint).kind;
+      const protocol = new URL(endpoint.url).protocol;
+      return !endpoint.group &&
+        (kind === 'fetch' || kind === 'xhr') &&
+        (protocol === 'https:' || (protocol === 'http:' && pageProtocol === 'http:'));
+    })
+    .map(endpoint => {
+      const { kind, method, mode } = transportOf(endpoint);
+      return {
+        name: endpoint.name,
+        url: endpoint.url,
+        method: method ?? 'GET',
+        // XHR reads the response, like a CORS fetch
+        mode: kind === 'xhr' ? 'cors' : mode ?? 'no-cors',
+        expectedStatus: endpoint.expectedStatus,
+        timeout: endpoint.timeout || DEFAULT_ENDPOINT_TIMEOUT
+      };
+    });
+}
+
+async function registerPeriodicSync(registration: ServiceWorkerRegistration): Promise<BackgroundCheckState> {
+  const periodicSync = (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+  if (!periodicSync) return 'unsupported';
+
+  try {
+    const permission = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (permission.state !== 'granted') return 'not-allowed';
+    await periodicSync.register(SYNC_TAG, { minInterval: BACKGROUND_CHECK_INTERVAL_MS });
+    return 'active';
+  } catch {
+    return 'not-allowed';
+  }
+}
+
+// Scripts and styles loaded before the worker took over, which it hasn't cached yet
+function loadedResources(): string[] {
+  return performance.getEntriesByType('resource')
+    .map(entry => new URL(entry.name))
+    .filter(url => url.origin === location.origin && !url.search && /\.(js|css|svg|ico|woff2?)$/.test(url.pathname))
+    .map(url => url.href);
+}
+
+function drain(worker: ServiceWorker): Promise<QueuedRecord[]> {
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = event => resolve(Array.isArray(event.data) ? event.data : []);
+    worker.postMessage({ type: 'drain' } satisfies WorkerMessage, [channel.port2]);
+  });
+}
+
+function post(worker: ServiceWorker, message: WorkerMessage): void {
+  worker.postMessage(message);
+}
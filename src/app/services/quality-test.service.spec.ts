@@ -0,0 +1,39 @@
+import { gradeQuality, jitter, toMbps, QualityResult } from './quality-test.service';
+
+describe('QualityTestService helpers', () => {
+  const healthy: Omit<QualityResult, 'grade'> = {
+    timestamp: new Date(Date.UTC(2025, 0, 1)),
+    downloadMbps: 50,
+    uploadMbps: 10,
+    latency: 25,
+    jitter: 3,
+    probesSent: 20,
+    probesLost: 0,
+    lossPercent: 0,
+    errors: []
+  };
+
+  it('should compute jitter as the mean difference between consecutive round trips', () => {
+    expect(jitter([20, 30, 25, 45])).toBe(12);
+    expect(jitter([20])).toBeNull();
+  });
+
+  it('should convert bytes over time to Mbit/s', () => {
+    expect(toMbps(1000 * 1000, 1000)).toBe(8);
+  });
+
+  it('should grade a healthy connection as good', () => {
+    expect(gradeQuality(healthy)).toBe('good');
+  });
+
+  it('should grade an online but lossy or jittery connection as unfit for calls', () => {
+    expect(gradeQuality({ ...healthy, jitter: 35 })).toBe('fair');
+    expect(gradeQuality({ ...healthy, jitter: 80 })).toBe('poor');
+    expect(gradeQuality({ ...healthy, lossPercent: 12 })).toBe('unusable');
+    expect(gradeQuality({ ...healthy, downloadMbps: 0.5 })).toBe('unusable');
+  });
+
+  it('should not penalise transfers that could not be measured', () => {
+    expect(gradeQuality({ ...healthy, downloadMbps: null, uploadMbps: null })).toBe('good');
+  });
+});
@@ -0,0 +1,281 @@
+import { Injectable, OnDestroy, inject, signal, computed, effect } from '@angular/core';
+import { ConnectivityService, ConnectivityEndpoint } from './connectivity.service';
+import { HistoryStoreService } from './history-store.service';
+import { SettingsService } from './settings.service';
+import { median } from './stats.service';
+import { NetworkInfoService } from './network-info.service';
+import { openDatabase, requestAsPromise, transactionDone, STORES } from '../utils/indexed-db';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Upper bound for a single download or upload
+const TRANSFER_TIMEOUT = 30000;
+
+// crypto.getRandomValues fills at most this many bytes per call
+const RANDOM_CHUNK_BYTES = 65536;
+
+// good: fine for video calls; fair: usable with the odd glitch;
+// poor: calls will stutter; unusable: online, but not for real-time use
+export type QualityGrade = 'good' | 'fair' | 'poor' | 'unusable';
+
+export interface QualityResult {
+  timestamp: Date;
+  // Mbit/s; null when that part of the test failed
+  downloadMbps: number | null;
+  uploadMbps: number | null;
+  // Median round trip of the probe burst; null when every probe was lost
+  latency: number | null;
+  // Mean difference between consecutive round trips
+  jitter: number | null;
+  probesSent: number;
+  probesLost: number;
+  lossPercent: number;
+  grade: QualityGrade;
+  errors: string[];
+}
+
+type StoredResult = Omit<QualityResult, 'timestamp'> & { timestamp: number };
+
+@Injectable({
+  providedIn: 'root'
+})
+export class QualityTestService implements OnDestroy {
+  private connectivityService = inject(ConnectivityService);
+  private historyStore = inject(HistoryStoreService);
+  private settingsService = inject(SettingsService);
+  private networkInfo = inject(NetworkInfoService);
+
+  private resultsSignal = signal<QualityResult[]>([]);
+  private isRunningSignal = signal<boolean>(false);
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private intervalMs = computed(() => this.settingsService.settings().qualityIntervalMs);
+
+  // Oldest first
+  readonly results = this.resultsSignal.asReadonly();
+  readonly isRunning = this.isRunningSignal.asReadonly();
+  readonly latest = computed(() => {
+    const results = this.resultsSignal();
+    return results.length > 0 ? results[results.length - 1] : null;
+  });
+
+  constructor() {
+    this.load();
+
+    effect(() => {
+      const intervalMs = this.intervalMs();
+      this.stopInterval();
+      if (intervalMs > 0) {
+        this.intervalId = setInterval(() => {
+          // A quality test cannot tell anything new while offline, and its
+          // transfers are too costly on metered links. With several tabs open,
+          // the one running the checks also runs the tests.
+          if (!this.connectivityService.isOnline() || !this.connectivityService.isLeader()) return;
+          if (this.settingsService.settings().constrainedBackoff && this.networkInfo.isConstrained()) return;
+          this.run();
+        }, intervalMs);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.stopInterval();
+  }
+
+  async run(): Promise<QualityResult | null> {
+    if (this.isRunningSignal()) return null;
+    this.isRunningSignal.set(true);
+
+    try {
+      const settings = this.settingsService.settings();
+      const errors: string[] = [];
+      const timestamp = new Date();
+
+      // Latency-sensitive part first, before the transfers load the link
+      const burst = await this.probeBurst(settings.qualityBurstSize);
+      const windowProbes = this.connectivityService.connectionHistory()
+        .filter(record => record.timestamp.getTime() >= timestamp.getTime() - settings.qualityLossWindowMs)
+        .flatMap(record => record.probes ?? [])
+        // Cancelled race losers were not lost
+        .filter(probe => probe.errorKind !== 'abort');
+      const probesSent = burst.length + windowProbes.length;
+      const probesLost = burst.filter(rtt => rtt === null).length + windowProbes.filter(probe => !probe.success).length;
+      const roundTrips = burst.filter((rtt): rtt is number => rtt !== null);
+
+      const downloadMbps = await this.measure('Download', errors, () =>
+        this.measureDownload(settings.qualityDownloadUrl, settings.qualityPayloadBytes)
+      );
+      const uploadMbps = await this.measure('Upload', errors, () =>
+        this.measureUpload(settings.qualityUploadUrl, settings.qualityPayloadBytes)
+      );
+
+      const partial = {
+        timestamp,
+        downloadMbps,
+        uploadMbps,
+        latency: median(roundTrips),
+        jitter: jitter(roundTrips),
+        probesSent,
+        probesLost,
+        lossPercent: probesSent > 0 ? Math.round((probesLost / probesSent) * 1000) / 10 : 0,
+        errors
+      };
+      const result: QualityResult = { ...partial, grade: gradeQuality(partial) };
+
+      this.resultsSignal.update(results => [...results, result]);
+      await this.persist(result);
+      return result;
+    } finally {
+      this.isRunningSignal.set(false);
+    }
+  }
+
+  // Round trips of back-to-back probes to the preferred endpoint; null for a lost probe
+  private async probeBurst(count: number): Promise<(number | null)[]> {
+    const endpoint = this.burstEndpoint();
+    if (!endpoint) return [];
+
+    const roundTrips: (number | null)[] = [];
+    for (let i = 0; i < count; i++) {
+      const start = performance.now();
+      try {
+        await this.connectivityService.checkEndpoint(endpoint);
+        roundTrips.push(Math.round(performance.now() - start));
+      } catch {
+        roundTrips.push(null);
+      }
+    }
+    return roundTrips;
+  }
+
+  // The endpoint that answered the last check, or the first enabled one
+  private burstEndpoint(): ConnectivityEndpoint | null {
+    const enabled = this.connectivityService.getEndpoints().filter(endpoint => endpoint.enabled);
+    return enabled.find(endpoint => endpoint.name === this.connectivityService.currentEndpoint())
+      ?? enabled[0]
+      ?? null;
+  }
+
+  private async measure(label: string, errors: string[], test: () => Promise<number>): Promise<number | null> {
+    try {
+      return await test();
+    } catch (error) {
+      errors.push(`${label} test failed: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  private async measureDownload(urlTemplate: string, bytes: number): Promise<number> {
+    const start = performance.now();
+    const response = await fetch(urlTemplate.replace('{bytes}', String(bytes)), {
+      cache: 'no-store',
+      signal: AbortSignal.timeout(TRANSFER_TIMEOUT)
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`unexpected status ${response.status}`);
+    }
+
+    // Count what actually arrived rather than trusting Content-Length
+    const reader = response.body.getReader();
+    let received = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+    }
+    return toMbps(received, performance.now() - start);
+  }
+
+  private async measureUpload(url: string, bytes: number): Promise<number> {
+    const payload = randomPayload(bytes);
+    const start = performance.now();
+    const response = await fetch(url, {
+      method: 'POST',
+      body: payload,
+      cache: 'no-store',
+      signal: AbortSignal.timeout(TRANSFER_TIMEOUT)
+    });
+    if (!response.ok) {
+      throw new Error(`unexpected status ${response.status}`);
+    }
+    return toMbps(bytes, performance.now() - start);
+  }
+
+  private stopInterval(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private async persist(result: QualityResult): Promise<void> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.quality, 'readwrite');
+      tx.objectStore(STORES.quality).put({ ...result, timestamp: result.timestamp.getTime() });
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('Unable to persist quality result', error);
+    }
+  }
+
+  // Results are kept as long as the hourly history aggregates
+  private async load(): Promise<void> {
+    const cutoff = Date.now() - this.historyStore.retentionPolicy().aggregateRetentionDays * DAY;
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.quality, 'readwrite');
+      const store = tx.objectStore(STORES.quality);
+      store.delete(IDBKeyRange.upperBound(cutoff, true));
+      const stored = await requestAsPromise(store.getAll(IDBKeyRange.lowerBound(cutoff))) as StoredResult[];
+      await transactionDone(tx);
+
+      const loaded = stored.map(result => ({ ...result, timestamp: new Date(result.timestamp) }));
+      this.resultsSignal.update(live => [...loaded, ...live]);
+    } catch (error) {
+      console.warn('Unable to load quality results', error);
+    }
+  }
+}
+
+// Thresholds follow common guidance for video calls: under 1% loss, 30ms
+// jitter and 150ms latency is comfortable, a few Mbit/s each way is enough
+export function gradeQuality(result: Omit<QualityResult, 'grade'>): QualityGrade {
+  const { downloadMbps, uploadMbps, latency, jitter, lossPercent, probesSent } = result;
+
+  if ((probesSent > 0 && latency === null) || lossPercent >= 10 ||
+      (downloadMbps !== null && downloadMbps < 1) || (uploadMbps !== null && uploadMbps < 0.5)) {
+    return 'unusable';
+  }
+  if (lossPercent >= 3 || (jitter ?? 0) >= 50 || (latency ?? 0) >= 300 ||
+      (downloadMbps !== null && downloadMbps < 2) || (uploadMbps !== null && uploadMbps < 1)) {
+    return 'poor';
+  }
+  if (lossPercent >= 1 || (jitter ?? 0) >= 30 || (latency ?? 0) >= 150 ||
+      (downloadMbps !== null && downloadMbps < 5) || (uploadMbps !== null && uploadMbps < 2)) {
+    return 'fair';
+  }
+  return 'good';
+}
+
+// Mean absolute difference between consecutive round trips (as in RFC 3550)
+export function jitter(roundTrips: number[]): number | null {
+  if (roundTrips.length < 2) return null;
+  let total = 0;
+  for (let i = 1; i < roundTrips.length; i++) {
+    total += Math.abs(roundTrips[i] - roundTrips[i - 1]);
+  }
+  return Math.round(total / (roundTrips.length - 1));
+}
+
+export function toMbps(bytes: number, elapsedMs: number): number {
+  return Math.round(((bytes * 8) / Math.max(1, elapsedMs) / 1000) * 10) / 10;
+}
+
+// Random bytes so compression along the path cannot inflate the result
+function randomPayload(bytes: number): Uint8Array {
+  const payload = new Uint8Array(bytes);
+  for (let offset = 0; offset < bytes; offset += RANDOM_CHUNK_BYTES) {
+    crypto.getRandomValues(payload.subarray(offset, Math.min(bytes, offset + RANDOM_CHUNK_BYTES)));
+  }
+  return payload;
+}
@@ -0,0 +1,56 @@
+import { ProbeResult } from './connectivity.service';
+import { assessReachability } from './quorum';
+
+describe('assessReachability', () => {
+  const options = { quorum: 2, latencyCriticalMs: 300 };
+
+  const success = (endpoint: string, responseTime = 50): ProbeResult =>
+    ({ endpoint, success: true, verified: false, intercepted: false, responseTime });
+  const failure = (endpoint: string, errorKind: ProbeResult['errorKind'] = 'network'): ProbeResult =>
+    ({ endpoint, success: false, verified: false, intercepted: false, responseTime: null, error: 'failed', errorKind });
+
+  it('should be online when the quorum is met in time', () => {
+    const result = assessReachability([success('Google'), success('Cloudflare'), failure('Microsoft')],
+      ['Google', 'Cloudflare', 'Microsoft'], 50, options);
+    expect(result.state).toBe('online');
+    expect(result.reachable).toEqual(['Google', 'Cloudflare']);
+    expect(result.unreachable).toEqual(['Microsoft']);
+    expect(result.reasons).toEqual([]);
+  });
+
+  it('should be degraded below the quorum and name the blocked endpoints', () => {
+    const result = assessReachability([success('Google'), failure('Cloudflare'), failure('Microsoft')],
+      ['Google', 'Cloudflare', 'Microsoft'], 50, options);
+    expect(result.state).toBe('degraded');
+    expect(result.reasons).toEqual(['1 of 3 endpoints reachable, 2 required; Cloudflare, Microsoft are blocked or down']);
+  });
+
+  it('should count expected endpoints that were not probed as unreachable', () => {
+    const result = assessReachability([success('Google')], ['Google', 'Cloudflare'], 50, options);
+    expect(result.state).toBe('degraded');
+    expect(result.unreachable).toEqual(['Cloudflare']);
+  });
+
+  it('should be degraded at the critical latency', () => {
+    const result = assessReachability([success('Google', 300), success('Cloudflare')], [], 300, options);
+    expect(result.state).toBe('degraded');
+    expect(result.reasons).toEqual(['Responses take 300ms, above the 300ms critical threshold']);
+  });
+
+  it('should cap the quorum at the number of known endpoints', () => {
+    const result = assessReachability([success('Google')], ['Google'], 50, { ...options, quorum: 3 });
+    expect(result.state).toBe('online');
+  });
+
+  it('should ignore probes cancelled after a race was won', () => {
+    const result = assessReachability([success('Google'), failure('Cloudflare', 'abort')], [], 50, options);
+    expect(result.unreachable).toEqual([]);
+    expect(result.state).toBe('online');
+  });
+
+  it('should be offline when nothing answers', () => {
+    const result = assessReachability([failure('Google'), failure('Cloudflare')], [], null, options);
+    expect(result.state).toBe('offline');
+    expect(result.unreachable).toEqual(['Google', 'Cloudflare']);
+  });
+});
@@ -0,0 +1,57 @@
+import { ProbeResult } from './connectivity.service';
+
+// degraded: some endpoints answer, but fewer than the quorum or too slowly
+export type ReachabilityState = 'online' | 'degraded' | 'offline';
+
+export interface QuorumOptions {
+  // Endpoints that must answer for the connection to count as fully online
+  quorum: number;
+  latencyCriticalMs: number;
+}
+
+export interface Reachability {
+  state: ReachabilityState;
+  reachable: string[];
+  // Includes endpoints skipped by their circuit breaker, which is how a
+  // persistently blocked vendor usually shows up
+  unreachable: string[];
+  // Why the connection is degraded; empty otherwise
+  reasons: string[];
+}
+
+// Decides the state of a check from its probes. `expected` lists endpoints the
+// check meant to reach even if they were not probed (left empty when probing
+// stops at the first answer); a quorum larger than all known endpoints is capped.
+export function assessReachability(
+  probes: ProbeResult[],
+  expected: string[],
+  responseTime: number | null,
+  options: QuorumOptions
+): Reachability {
+  const reachable = unique(probes.filter(probe => probe.success).map(probe => probe.endpoint));
+  // Race losers were cancelled, not refused, so they tell nothing about reachability
+  const answered = probes.filter(probe => probe.errorKind !== 'abort').map(probe => probe.endpoint);
+  const unreachable = unique([...expected, ...answered]).filter(name => !reachable.includes(name));
+
+  if (reachable.length === 0) {
+    return { state: 'offline', reachable, unreachable, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  const quorum = Math.min(options.quorum, reachable.length + unreachable.length);
+  if (reachable.length < quorum) {
+    reasons.push(
+      `${reachable.length} of ${reachable.length + unreachable.length} endpoints reachable, ` +
+      `${quorum} required; ${unreachable.join(', ')} ${unreachable.length === 1 ? 'is' : 'are'} blocked or down`
+    );
+  }
+  if (responseTime !== null && responseTime >= options.latencyCriticalMs) {
+    reasons.push(`Responses take ${responseTime}ms, above the ${options.latencyCriticalMs}ms critical threshold`);
+  }
+
+  return { state: reasons.length > 0 ? 'degraded' : 'online', reachable, unreachable, reasons };
+}
+
+function unique(names: string[]): string[] {
+  return [...new Set(names)];
+}
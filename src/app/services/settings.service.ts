@@ -0,0 +1,101 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { readJson, writeJson, removeKey } from '../utils/local-storage';
+import { HiddenTabBehavior } from './check-scheduler';
+import { CONNECTIVITY_CONFIG } from './connectivity-config';
+
+const STORAGE_KEY = 'am-i-online.settings';
+
+// sequential: one endpoint at a time, stop at the first success
+// race: all endpoints at once, stop at the first success
+// all: all endpoints at once, wait for every result
+export type ProbeStrategy = 'sequential' | 'race' | 'all';
+
+// How a response time compares to the configured thresholds
+export type LatencyLevel = 'good' | 'warning' | 'critical';
+
+export interface MonitorSettings {
+  probeStrategy: ProbeStrategy;
+  // Consecutive endpoint-specific failures before an endpoint is skipped
+  circuitBreakerThreshold: number;
+  // How long a tripped endpoint is skipped before it is retested
+  circuitBreakerCooldownMs: number;
+  checkIntervalMs: number;
+  offlineRetryMs: number;
+  offlineRetryMaxMs: number;
+  hiddenBehavior: HiddenTabBehavior;
+  hiddenIntervalMs: number;
+  // On metered or data-saving links, checks run at most this often and
+  // scheduled quality tests are skipped
+  constrainedBackoff: boolean;
+  constrainedIntervalMs: number;
+  // Quality tests; `{bytes}` in the download URL is replaced by the payload size
+  qualityDownloadUrl: string;
+  qualityUploadUrl: string;
+  qualityPayloadBytes: number;
+  // Back-to-back probes used to measure jitter
+  qualityBurstSize: number;
+  // Trailing window over which probe loss is counted
+  qualityLossWindowMs: number;
+  // 0 runs quality tests only on demand
+  qualityIntervalMs: number;
+  // Response times at or above these are shown as slow and very slow
+  latencyWarningMs: number;
+  latencyCriticalMs: number;
+  // Endpoints that must answer for the connection to count as fully online;
+  // above 1, every endpoint is probed on each check
+  quorumMinEndpoints: number;
+}
+
+export const DEFAULT_SETTINGS: MonitorSettings = {
+  probeStrategy: 'sequential',
+  circuitBreakerThreshold: 3,
+  circuitBreakerCooldownMs: 5 * 60 * 1000,
+  checkIntervalMs: 30000,
+  offlineRetryMs: 2000,
+  offlineRetryMaxMs: 30000,
+  hiddenBehavior: 'slow',
+  hiddenIntervalMs: 2 * 60 * 1000,
+  constrainedBackoff: true,
+  constrainedIntervalMs: 2 * 60 * 1000,
+  qualityDownloadUrl: 'https://speed.cloudflare.com/__down?bytes={bytes}',
+  qualityUploadUrl: 'https://speed.cloudflare.com/__up',
+  qualityPayloadBytes: 5 * 1000 * 1000,
+  qualityBurstSize: 10,
+  qualityLossWindowMs: 15 * 60 * 1000,
+  qualityIntervalMs: 0,
+  latencyWarningMs: 100,
+  latencyCriticalMs: 300,
+  quorumMinEndpoints: 1
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SettingsService {
+
+  // Settings an embedding app passed to provideConnectivity(); they override saved ones
+  private configured = inject(CONNECTIVITY_CONFIG, { optional: true })?.settings;
+  private settingsSignal = signal<MonitorSettings>(
+    { ...DEFAULT_SETTINGS, ...readJson<Partial<MonitorSettings>>(STORAGE_KEY, {}), ...this.configured }
+  );
+
+  readonly settings = this.settingsSignal.asReadonly();
+
+  update(changes: Partial<MonitorSettings>): void {
+    this.settingsSignal.update(current => ({ ...current, ...changes }));
+    writeJson(STORAGE_KEY, this.settingsSignal());
+  }
+
+  reset(): void {
+    removeKey(STORAGE_KEY);
+    this.settingsSignal.set({ ...DEFAULT_SETTINGS, ...this.configured });
+  }
+}
+
+export function latencyLevel(
+  responseTime: number,
+  thresholds: Pick<MonitorSettings, 'latencyWarningMs' | 'latencyCriticalMs'>
+): LatencyLevel {
+  if (responseTime >= thresholds.latencyCriticalMs) return 'critical';
+  return responseTime >= thresholds.latencyWarningMs ? 'warning' : 'good';
+}
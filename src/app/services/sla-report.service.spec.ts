@@ -0,0 +1,70 @@
+import { ConnectionRecord } from './connectivity.service';
+import { Incident } from './incident.service';
+import { buildSlaReport, dailyUptime, renderSlaReportHtml, worstHours } from './sla-report.service';
+
+describe('SLA report helpers', () => {
+  // Local midnight, so days line up with the report's
+  const start = new Date(2025, 0, 1).getTime();
+  const minute = 60 * 1000;
+  const day = 24 * 60 * minute;
+
+  const record = (minutes: number, responseTime: number | null): ConnectionRecord => ({
+    timestamp: new Date(start + minutes * minute),
+    isOnline: responseTime !== null,
+    responseTime,
+    endpoint: responseTime !== null ? 'Google' : null
+  });
+
+  // A check every minute for 100 minutes; the one at minute 30 failed
+  const records = Array.from({ length: 101 }, (_, i) => record(i, i === 30 ? null : 40 + i));
+  const period = { from: new Date(start), to: new Date(start + 2 * day) };
+
+  it('should compare the downtime with what the target allows', () => {
+    const missed = buildSlaReport(records, [], [], { ...period, targetPercent: 99.9 });
+    expect(missed.availability).toBe(99);
+    expect(missed.monitoredMs).toBe(100 * minute);
+    expect(missed.downtimeMs).toBe(minute);
+    expect(missed.allowedDowntimeMs).toBe(6000);
+    expect(missed.met).toBe(false);
+
+    const met = buildSlaReport(records, [], [], { ...period, targetPercent: 99 });
+    expect(met.allowedDowntimeMs).toBe(minute);
+    expect(met.met).toBe(true);
+  });
+
+  it('should not report a result without any checks', () => {
+    const report = buildSlaReport([], [], [], { ...period, targetPercent: 99.9 });
+    expect(report.availability).toBeNull();
+    expect(report.met).toBe(false);
+  });
+
+  it('should cut incidents to the period', () => {
+    const incident: Incident = { start: new Date(start - 10 * minute), end: new Date(start + 5 * minute), failedChecks: 3, lastError: null };
+    const report = buildSlaReport(records, [], [incident], { ...period, targetPercent: 99.9 });
+    expect(report.incidents.length).toBe(1);
+    expect(report.incidents[0].downtimeMs).toBe(5 * minute);
+  });
+
+  it('should break uptime down by day', () => {
+    const days = dailyUptime(records, [], period.from, period.to);
+    expect(days.map(entry => entry.day.getTime())).toEqual([start, start + day]);
+    expect(days[0].totalChecks).toBe(101);
+    expect(days[0].downtimeMs).toBe(minute);
+    expect(days[1].uptime).toBeNull();
+  });
+
+  it('should rank hours by failed checks first', () => {
+    const hours = worstHours(records, []);
+    expect(hours[0].failedChecks).toBe(1);
+    expect(hours[0].hour.getTime()).toBeLessThanOrEqual(start + 30 * minute);
+  });
+
+  it('should render a standalone page with escaped content', () => {
+    const incident: Incident = { start: new Date(start + 30 * minute), end: new Date(start + 31 * minute), failedChecks: 1, lastError: '<script>' };
+    const html = renderSlaReportHtml(buildSlaReport(records, [], [incident], { ...period, targetPercent: 99.9 }));
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('Missed');
+    expect(html).toContain('&#60;script&#62;');
+    expect(html).not.toContain('<script>');
+  });
+});
@@ -0,0 +1,287 @@
+import { Injectable, inject } from '@angular/core';
+import { ConnectionRecord } from './connectivity.service';
+import { HistoryStoreService, HourlyAggregate, aggregateHourly, mergeAggregates } from './history-store.service';
+import { Incident, IncidentService } from './incident.service';
+import { ConnectionStats, computeStats, monitoredTime } from './stats.service';
+import { MaintenanceService } from './maintenance.service';
+import { DurationPipe } from '../pipes/duration.pipe';
+
+// Hours listed in the report's worst hours table
+const WORST_HOURS = 5;
+
+export const DEFAULT_SLA_TARGET = 99.9;
+
+export interface SlaReportOptions {
+  from: Date;
+  to: Date;
+  // Availability promised by the SLA, in percent
+  targetPercent: number;
+}
+
+// An outage overlapping the period, cut to the part inside it
+export interface ReportIncident {
+  start: Date;
+  // null while the outage is still ongoing
+  end: Date | null;
+  downtimeMs: number;
+  failedChecks: number;
+  lastError: string | null;
+}
+
+export interface DailyUptime {
+  // Local midnight
+  day: Date;
+  totalChecks: number;
+  // Time-weighted, in percent; null for days without checks
+  uptime: number | null;
+  downtimeMs: number;
+}
+
+export interface HourSummary {
+  hour: Date;
+  totalChecks: number;
+  failedChecks: number;
+  meanResponseTime: number | null;
+}
+
+export interface SlaReport {
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  targetPercent: number;
+  // Share of the monitored time spent online, in percent; null without any monitored time
+  availability: number | null;
+  // Time the monitor was watching; unmonitored time counts neither way
+  monitoredMs: number;
+  // Downtime the target allows over the monitored time
+  allowedDowntimeMs: number;
+  downtimeMs: number;
+  met: boolean;
+  // Counts and latency percentiles; percentiles only cover raw checks, not hourly aggregates
+  stats: ConnectionStats;
+  // Oldest first
+  incidents: ReportIncident[];
+  daily: DailyUptime[];
+  // Most failed checks first, then slowest
+  worstHours: HourSummary[];
+}
+
+// Availability reports over any stored period, for checking an SLA
+@Injectable({
+  providedIn: 'root'
+})
+export class SlaReportService {
+  private historyStore = inject(HistoryStoreService);
+  private incidentService = inject(IncidentService);
+  private maintenance = inject(MaintenanceService);
+
+  // The part of the period still to come is left out, and so are maintenance
+  // windows and excluded periods
+  async generate(options: SlaReportOptions): Promise<SlaReport> {
+    const now = new Date();
+    const to = options.to > now ? now : options.to;
+    const [records, aggregates] = await Promise.all([
+      this.historyStore.queryRange(options.from, to),
+      this.historyStore.queryAggregates(options.from, to)
+    ]);
+    const incidents = this.incidentService.incidents().filter(incident => !this.incidentService.isExcluded(incident));
+    return buildSlaReport(
+      this.maintenance.countedRecords(records),
+      this.maintenance.countedAggregates(aggregates),
+      incidents,
+      { ...options, to },
+      now
+    );
+  }
+}
+
+// `records` are raw checks within the period, oldest first; `aggregates` cover
+// its older history
+export function buildSlaReport(
+  records: ConnectionRecord[],
+  aggregates: HourlyAggregate[],
+  incidents: Incident[],
+  options: SlaReportOptions,
+  now = new Date()
+): SlaReport {
+  const { from, to, targetPercent } = options;
+  const { monitoredMs, onlineMs } = monitoredTime(records, aggregates);
+  const stats = computeStats(records, aggregates);
+  const allowedDowntimeMs = Math.round(monitoredMs * (1 - targetPercent / 100));
+  const downtimeMs = monitoredMs - onlineMs;
+  const availability = monitoredMs > 0 ? round(onlineMs / monitoredMs * 100, 3) : null;
+
+  return {
+    from,
+    to,
+    generatedAt: now,
+    targetPercent,
+    availability,
+    monitoredMs,
+    allowedDowntimeMs,
+    downtimeMs,
+    met: availability !== null && downtimeMs <= allowedDowntimeMs,
+    stats,
+    incidents: reportIncidents(incidents, from, to),
+    daily: dailyUptime(records, aggregates, from, to),
+    worstHours: worstHours(records, aggregates)
+  };
+}
+
+// Whole local days from the one containing `from` up to `to`
+export function dailyUptime(records: ConnectionRecord[], aggregates: HourlyAggregate[], from: Date, to: Date): DailyUptime[] {
+  const days: DailyUptime[] = [];
+  for (let day = startOfDay(from); day < to; day = nextDay(day)) {
+    const start = day.getTime();
+    const end = nextDay(day).getTime();
+    const dayRecords = records.filter(record => record.timestamp.getTime() >= start && record.timestamp.getTime() < end);
+    const dayAggregates = aggregates.filter(aggregate => aggregate.hour >= start && aggregate.hour < end);
+    const { monitoredMs, onlineMs } = monitoredTime(dayRecords, dayAggregates);
+    const stats = computeStats(dayRecords, dayAggregates);
+
+    days.push({
+      day,
+      totalChecks: stats.totalChecks,
+      uptime: stats.totalChecks > 0 ? stats.uptime : null,
+      downtimeMs: monitoredMs - onlineMs
+    });
+  }
+  return days;
+}
+
+export function worstHours(records: ConnectionRecord[], aggregates: HourlyAggregate[], count = WORST_HOURS): HourSummary[] {
+  const buckets = new Map<number, HourlyAggregate>();
+  for (const bucket of [...aggregates, ...aggregateHourly(records)]) {
+    const existing = buckets.get(bucket.hour);
+    buckets.set(bucket.hour, existing ? mergeAggregates(existing, bucket) : bucket);
+  }
+
+  return [...buckets.values()]
+    .map((bucket): HourSummary => ({
+      hour: new Date(bucket.hour),
+      totalChecks: bucket.totalChecks,
+      failedChecks: bucket.totalChecks - bucket.successfulChecks,
+      meanResponseTime: bucket.responseTimeCount > 0 ? Math.round(bucket.responseTimeSum / bucket.responseTimeCount) : null
+    }))
+    .sort((a, b) =>
+      b.failedChecks / b.totalChecks - a.failedChecks / a.totalChecks ||
+      (b.meanResponseTime ?? 0) - (a.meanResponseTime ?? 0)
+    )
+    .slice(0, count);
+}
+
+// A standalone page that keeps its styling when saved or mailed
+export function renderSlaReportHtml(report: SlaReport): string {
+  const duration = new DurationPipe();
+  const title = `Connectivity SLA report, ${formatDate(report.from)} – ${formatDate(report.to)}`;
+
+  const result = report.availability === null ? 'No data' : report.met ? 'Met' : 'Missed';
+  const summary = [
+    ['SLA target', `${report.targetPercent}%`],
+    ['Availability', report.availability !== null ? `${report.availability}%` : 'No data'],
+    ['Result', result],
+    ['Allowed downtime', duration.transform(report.allowedDowntimeMs)],
+    ['Actual downtime', duration.transform(report.downtimeMs)],
+    ['Monitored time', duration.transform(report.monitoredMs)],
+    ['Checks', `${report.stats.successfulChecks} of ${report.stats.totalChecks} succeeded`]
+  ];
+  const latency = [
+    ['Mean', report.stats.mean],
+    ['Median', report.stats.median],
+    ['p95', report.stats.p95],
+    ['p99', report.stats.p99],
+    ['Min', report.stats.min],
+    ['Max', report.stats.max]
+  ] as const;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; }
+  h2 { font-size: 1.125rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #ddd; }
+  .met { color: #15803d; }
+  .missed { color: #b91c1c; }
+  .muted { color: #666; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">Generated ${escapeHtml(formatDateTime(report.generatedAt))}</p>
+
+<h2>Summary</h2>
+<table>
+${summary.map(([label, value]) => `<tr><th>${label}</th><td${label === 'Result' && report.availability !== null ? ` class="${result.toLowerCase()}"` : ''}>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+
+<h2>Latency</h2>
+<table>
+<tr>${latency.map(([label]) => `<th>${label}</th>`).join('')}</tr>
+<tr>${latency.map(([, value]) => `<td>${value !== null ? `${value}ms` : 'N/A'}</td>`).join('')}</tr>
+</table>
+
+<h2>Incidents</h2>
+${report.incidents.length === 0 ? '<p>No outages in this period.</p>' : `<table>
+<tr><th>Start</th><th>End</th><th>Downtime</th><th>Failed checks</th><th>Last error</th></tr>
+${report.incidents.map(incident => `<tr><td>${escapeHtml(formatDateTime(incident.start))}</td><td>${incident.end ? escapeHtml(formatDateTime(incident.end)) : 'Ongoing'}</td><td>${duration.transform(incident.downtimeMs)}</td><td>${incident.failedChecks}</td><td>${escapeHtml(incident.lastError ?? '')}</td></tr>`).join('\n')}
+</table>`}
+
+<h2>Daily Uptime</h2>
+<table>
+<tr><th>Day</th><th>Uptime</th><th>Downtime</th><th>Checks</th></tr>
+${report.daily.map(day => `<tr><td>${escapeHtml(formatDate(day.day))}</td><td>${day.uptime !== null ? `${day.uptime}%` : 'No data'}</td><td>${duration.transform(day.downtimeMs)}</td><td>${day.totalChecks}</td></tr>`).join('\n')}
+</table>
+
+<h2>Worst Hours</h2>
+${report.worstHours.length === 0 ? '<p>No checks in this period.</p>' : `<table>
+<tr><th>Hour</th><th>Failed checks</th><th>Mean latency</th></tr>
+${report.worstHours.map(hour => `<tr><td>${escapeHtml(formatDateTime(hour.hour))}</td><td>${hour.failedChecks} of ${hour.totalChecks}</td><td>${hour.meanResponseTime !== null ? `${hour.meanResponseTime}ms` : 'N/A'}</td></tr>`).join('\n')}
+</table>`}
+</body>
+</html>
+`;
+}
+
+function reportIncidents(incidents: Incident[], from: Date, to: Date): ReportIncident[] {
+  return incidents
+    .filter(incident => incident.start <= to && (incident.end ?? to) >= from)
+    .map(incident => ({
+      start: incident.start,
+      end: incident.end,
+      downtimeMs: Math.min(incident.end?.getTime() ?? to.getTime(), to.getTime()) - Math.max(incident.start.getTime(), from.getTime()),
+      failedChecks: incident.failedChecks,
+      lastError: incident.lastError
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Not a fixed 24 hours, so days stay aligned across daylight saving changes
+function nextDay(day: Date): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
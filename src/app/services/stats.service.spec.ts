@@ -0,0 +1,109 @@
+import { ConnectionRecord } from './connectivity.service';
+import { HourlyAggregate } from './history-store.service';
+import { computeStats, median, nines, percentile, standardDeviation, statsByConnection } from './stats.service';
+
+describe('StatsService helpers', () => {
+  const start = Date.UTC(2025, 0, 1);
+  const minute = 60 * 1000;
+
+  const record = (minutes: number, responseTime: number | null): ConnectionRecord => ({
+    timestamp: new Date(start + minutes * minute),
+    isOnline: responseTime !== null,
+    responseTime,
+    endpoint: responseTime !== null ? 'Google' : null
+  });
+
+  it('should weigh uptime by time and success rate by checks', () => {
+    // Online for 3 minutes, then one failed check that lasted a minute
+    const stats = computeStats([record(0, 40), record(3, null), record(4, 60), record(5, 80)]);
+    expect(stats.totalChecks).toBe(4);
+    expect(stats.successfulChecks).toBe(3);
+    expect(stats.successRate).toBe(75);
+    expect(stats.uptime).toBe(80);
+  });
+
+  it('should not count long gaps between checks as monitored time', () => {
+    const stats = computeStats([record(0, null), record(60, 40), record(61, 40)]);
+    // 5 minutes offline (capped) against 1 minute online
+    expect(stats.uptime).toBe(16.7);
+  });
+
+  it('should describe the response times of successful checks', () => {
+    const stats = computeStats([record(0, 10), record(1, 20), record(2, null), record(3, 30), record(4, 40)]);
+    expect(stats.mean).toBe(25);
+    expect(stats.median).toBe(25);
+    expect(stats.p95).toBe(40);
+    expect(stats.min).toBe(10);
+    expect(stats.max).toBe(40);
+    expect(stats.stdDev).toBe(11);
+  });
+
+  it('should add hourly aggregates to counts, uptime and extremes', () => {
+    const older: HourlyAggregate = {
+      hour: start - 24 * 60 * minute,
+      totalChecks: 4,
+      successfulChecks: 2,
+      responseTimeSum: 400,
+      responseTimeCount: 2,
+      minResponseTime: 100,
+      maxResponseTime: 300
+    };
+    const stats = computeStats([record(0, 40), record(1, 40)], [older]);
+    expect(stats.totalChecks).toBe(6);
+    expect(stats.successfulChecks).toBe(4);
+    expect(stats.mean).toBe(120);
+    expect(stats.max).toBe(300);
+    // Distribution figures only come from raw checks
+    expect(stats.median).toBe(40);
+  });
+
+  it('should report empty windows without inventing numbers', () => {
+    const stats = computeStats([]);
+    expect(stats.totalChecks).toBe(0);
+    expect(stats.uptime).toBe(0);
+    expect(stats.nines).toBeNull();
+    expect(stats.mean).toBeNull();
+    expect(stats.median).toBeNull();
+  });
+
+  it('should express availability in nines', () => {
+    expect(nines(99.9)).toBe(3);
+    expect(nines(99)).toBe(2);
+    expect(nines(95)).toBe(1.3);
+    expect(nines(100)).toBeNull();
+  });
+
+  it('should split stats by connection type, most checks first', () => {
+    const wifi = { type: 'wifi', effectiveType: '4g' };
+    const cellular = { type: 'cellular', effectiveType: '3g', saveData: true };
+    const byConnection = statsByConnection([
+      { ...record(0, 20), network: wifi },
+      { ...record(1, 200), network: cellular },
+      { ...record(2, 40), network: wifi },
+      record(3, null)
+    ]);
+    expect([...byConnection.keys()]).toEqual(['wifi', 'cellular', 'unknown']);
+    expect(byConnection.get('wifi')!.mean).toBe(30);
+    expect(byConnection.get('cellular')!.mean).toBe(200);
+    expect(byConnection.get('unknown')!.successRate).toBe(0);
+  });
+
+  it('should compute nearest-rank percentiles', () => {
+    const values = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(95);
+    expect(percentile(values, 99)).toBe(99);
+    expect(percentile([], 50)).toBeNull();
+  });
+
+  it('should compute the median', () => {
+    expect(median([30, 10, 20])).toBe(20);
+    expect(median([10, 20, 30, 40])).toBe(25);
+    expect(median([])).toBeNull();
+  });
+
+  it('should compute the population standard deviation', () => {
+    expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBe(2);
+    expect(standardDeviation([])).toBeNull();
+  });
+});
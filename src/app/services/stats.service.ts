@@ -0,0 +1,254 @@
+import { Injectable, OnDestroy, inject, signal, computed, effect, untracked } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ConnectivityService, ConnectionRecord } from './connectivity.service';
+import { HistoryStoreService, HourlyAggregate, aggregateHourly, mergeAggregates } from './history-store.service';
+import { DEFAULT_SETTINGS } from './settings.service';
+import { groupHistory } from './endpoint-groups';
+import { connectionKind } from './network-info.service';
+import { MaintenanceService } from './maintenance.service';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// A check's result is assumed to hold until the next check, but for no longer
+// than this; longer gaps (tab closed, machine asleep) are not monitored time
+const MAX_CHECK_GAP_MS = 5 * 60 * 1000;
+
+export interface ConnectionStats {
+  totalChecks: number;
+  successfulChecks: number;
+  // Share of checks that succeeded, in percent
+  successRate: number;
+  // Share of the monitored time spent online, in percent
+  uptime: number;
+  // Availability in "nines" (99.9% uptime is 3); null without any downtime
+  nines: number | null;
+  // Response times of successful checks in ms; null without any
+  mean: number | null;
+  median: number | null;
+  p95: number | null;
+  p99: number | null;
+  stdDev: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+// Rolling statistics over the recorded history. Every view shows its numbers
+// from here so they agree with each other. Checks in maintenance windows and
+// excluded periods are left out.
+@Injectable({
+  providedIn: 'root'
+})
+export class StatsService implements OnDestroy {
+  private connectivityService = inject(ConnectivityService);
+  private historyStore = inject(HistoryStoreService);
+  private maintenance = inject(MaintenanceService);
+
+  // Raw checks of the last week, oldest first
+  private recordsSignal = signal<ConnectionRecord[]>([]);
+  // Everything older than a week, folded into hourly buckets
+  private olderSignal = signal<HourlyAggregate[]>([]);
+  // Windows slide with every check
+  private nowSignal = signal<number>(Date.now());
+  private readonly startedAt = Date.now();
+  private subscription: Subscription;
+
+  readonly session = computed(() => computeStats(this.since(this.startedAt)));
+  readonly hour = computed(() => computeStats(this.since(this.nowSignal() - HOUR)));
+  readonly day = computed(() => computeStats(this.since(this.nowSignal() - DAY)));
+  readonly week = computed(() => computeStats(this.since(this.nowSignal() - WEEK)));
+  // Distribution figures (median, percentiles, deviation) cover the last week only
+  readonly allTime = computed(() => computeStats(
+    this.maintenance.countedRecords(this.recordsSignal()),
+    this.maintenance.countedAggregates(this.olderSignal())
+  ));
+  // Last 24 hours of each endpoint group, keyed by group name
+  readonly dayByGroup = computed(() => {
+    const records = this.since(this.nowSignal() - DAY);
+    return new Map(this.connectivityService.groups().map(group => [group, computeStats(groupHistory(records, group))]));
+  });
+  readonly sessionByConnection = computed(() => statsByConnection(this.since(this.startedAt)));
+
+  constructor() {
+    this.subscription = this.connectivityService.records$.subscribe(record => this.append(record));
+
+    // Reload when the stored history is replaced (imports, clearing) or
+    // periods are excluded from it
+    effect(() => {
+      this.historyStore.revision();
+      this.maintenance.excluded();
+      untracked(() => this.load());
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  // Stats over any stored window, including hourly aggregates of older history
+  async statsFor(from: Date, to: Date): Promise<ConnectionStats> {
+    const [records, aggregates] = await Promise.all([
+      this.historyStore.queryRange(from, to),
+      this.historyStore.queryAggregates(from, to)
+    ]);
+    return computeStats(this.maintenance.countedRecords(records), this.maintenance.countedAggregates(aggregates));
+  }
+
+  // Per connection type over a stored window. Hourly aggregates don't keep the
+  // connection type, so only checks of the last week are counted.
+  async connectionStatsFor(from: Date, to: Date): Promise<Map<string, ConnectionStats>> {
+    return statsByConnection(this.maintenance.countedRecords(await this.historyStore.queryRange(from, to)));
+  }
+
+  private since(from: number): ConnectionRecord[] {
+    return this.maintenance.countedRecords(this.recordsSignal().filter(record => record.timestamp.getTime() >= from));
+  }
+
+  private append(record: ConnectionRecord): void {
+    const weekAgo = record.timestamp.getTime() - WEEK;
+    this.nowSignal.set(record.timestamp.getTime());
+    this.recordsSignal.update(records =>
+      [...records.filter(existing => existing.timestamp.getTime() >= weekAgo), record]
+    );
+  }
+
+  private async load(): Promise<void> {
+    const now = Date.now();
+    const weekAgo = new Date(now - WEEK);
+    const [recent, olderRaw, olderAggregates] = await Promise.all([
+      this.historyStore.queryRange(weekAgo, new Date(now)),
+      this.historyStore.queryRange(new Date(0), weekAgo),
+      // Aggregates never overlap raw records, so all of them are older history
+      this.historyStore.queryAggregates(new Date(0), new Date(now))
+    ]);
+
+    // Checks may have landed while the store was loading
+    const newestStored = recent[recent.length - 1]?.timestamp.getTime() ?? 0;
+    const live = this.recordsSignal().filter(record => record.timestamp.getTime() > newestStored);
+
+    this.olderSignal.set([...olderAggregates, ...aggregateHourly(this.maintenance.countedRecords(olderRaw))]);
+    this.recordsSignal.set([...recent, ...live]);
+    this.nowSignal.set(Math.max(now, this.nowSignal()));
+  }
+}
+
+// `records` are raw checks, oldest first; `aggregates` cover older history and
+// add to the counts, uptime, mean and extremes
+export function computeStats(records: ConnectionRecord[], aggregates: HourlyAggregate[] = []): ConnectionStats {
+  const older = mergeAll(aggregates);
+
+  const totalChecks = records.length + older.totalChecks;
+  const successfulChecks = records.filter(record => record.isOnline).length + older.successfulChecks;
+  const times = records
+    .filter(record => record.isOnline && record.responseTime !== null)
+    .map(record => record.responseTime!);
+  const timeCount = times.length + older.responseTimeCount;
+  const timeSum = times.reduce((sum, time) => sum + time, 0) + older.responseTimeSum;
+  const extremes = [...times, older.minResponseTime, older.maxResponseTime].filter((time): time is number => time !== null);
+
+  const uptime = totalChecks > 0 ? toPercent(onlineShare(coverage(records, older), records)) : 0;
+  return {
+    totalChecks,
+    successfulChecks,
+    successRate: totalChecks > 0 ? toPercent(successfulChecks / totalChecks) : 0,
+    uptime,
+    nines: totalChecks > 0 ? nines(uptime) : null,
+    mean: timeCount > 0 ? Math.round(timeSum / timeCount) : null,
+    median: median(times),
+    p95: percentile(times, 95),
+    p99: percentile(times, 99),
+    stdDev: standardDeviation(times),
+    min: extremes.length > 0 ? Math.min(...extremes) : null,
+    max: extremes.length > 0 ? Math.max(...extremes) : null
+  };
+}
+
+// Stats per connection type ('wifi', 'cellular', ..., 'unknown'), most checks first
+export function statsByConnection(records: ConnectionRecord[]): Map<string, ConnectionStats> {
+  const byKind = new Map<string, ConnectionRecord[]>();
+  for (const record of records) {
+    const kind = connectionKind(record.network);
+    const kindRecords = byKind.get(kind);
+    if (kindRecords) kindRecords.push(record);
+    else byKind.set(kind, [record]);
+  }
+  return new Map([...byKind]
+    .sort(([, a], [, b]) => b.length - a.length)
+    .map(([kind, kindRecords]) => [kind, computeStats(kindRecords)]));
+}
+
+// 99.9% is 3 nines, 95% about 1.3; null for 100%
+export function nines(uptimePercent: number): number | null {
+  if (uptimePercent >= 100) return null;
+  return Math.round(-Math.log10(1 - uptimePercent / 100) * 10) / 10;
+}
+
+// Nearest-rank percentile
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle];
+}
+
+// Population standard deviation
+export function standardDeviation(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.round(Math.sqrt(variance));
+}
+
+// How long the connection was watched, and online, in ms
+export function monitoredTime(records: ConnectionRecord[], aggregates: HourlyAggregate[] = []): Coverage {
+  return coverage(records, mergeAll(aggregates));
+}
+
+export interface Coverage {
+  monitoredMs: number;
+  onlineMs: number;
+}
+
+// Aggregated checks are assumed to be spaced by the default interval, as
+// their exact timing is no longer known
+function coverage(records: ConnectionRecord[], older: HourlyAggregate): Coverage {
+  let monitoredMs = older.totalChecks * DEFAULT_SETTINGS.checkIntervalMs;
+  let onlineMs = older.successfulChecks * DEFAULT_SETTINGS.checkIntervalMs;
+
+  for (let i = 0; i < records.length - 1; i++) {
+    const gap = Math.min(MAX_CHECK_GAP_MS, records[i + 1].timestamp.getTime() - records[i].timestamp.getTime());
+    monitoredMs += gap;
+    if (records[i].isOnline) onlineMs += gap;
+  }
+  return { monitoredMs, onlineMs };
+}
+
+// Time-weighted share online
+function onlineShare({ monitoredMs, onlineMs }: Coverage, records: ConnectionRecord[]): number {
+  if (monitoredMs > 0) return onlineMs / monitoredMs;
+  // A single check has no duration of its own
+  return records.length > 0 && records[records.length - 1].isOnline ? 1 : 0;
+}
+
+function mergeAll(aggregates: HourlyAggregate[]): HourlyAggregate {
+  return aggregates.reduce(mergeAggregates, {
+    hour: 0,
+    totalChecks: 0,
+    successfulChecks: 0,
+    responseTimeSum: 0,
+    responseTimeCount: 0,
+    minResponseTime: null,
+    maxResponseTime: null
+  } as HourlyAggregate);
+}
+
+function toPercent(share: number): number {
+  return Math.round(share * 1000) / 10;
+}
@@ -0,0 +1,212 @@
+import { ElectionEnvironment, HEARTBEAT_MS, LEADER_TIMEOUT_MS, TabElection } from './tab-election';
+
+interface LockEntry {
+  name: string;
+  clientId: string;
+  callback: () => unknown;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+// Grants each named lock to one tab at a time, in request order, like navigator.locks
+class FakeLocks {
+  // Tabs the lock was granted to, by lock name
+  granted = new Map<string, string[]>();
+  private holders = new Map<string, LockEntry>();
+  private queue: LockEntry[] = [];
+
+  // The lock manager as one tab sees it
+  client(clientId: string): LockManager {
+    return {
+      request: (name: string, ...args: unknown[]) => {
+        const [options, callback] = args.length === 1 ? [{}, args[0]] : args;
+        return this.request(clientId, name, options as LockOptions, callback as () => unknown);
+      },
+      query: async () => ({
+        held: [...this.holders.values()].map(entry => ({ name: entry.name, clientId: entry.clientId, mode: 'exclusive' })),
+        pending: []
+      })
+    } as unknown as LockManager;
+  }
+
+  private request(clientId: string, name: string, options: LockOptions, callback: () => unknown): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const entry = { name, clientId, callback, resolve, reject };
+      if (options.steal) {
+        this.holders.get(name)?.reject(new DOMException('Lock stolen', 'AbortError'));
+        this.grant(entry);
+        return;
+      }
+      options.signal?.addEventListener('abort', () => {
+        const index = this.queue.indexOf(entry);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        reject(new DOMException('Request aborted', 'AbortError'));
+      });
+      if (this.holders.has(name)) this.queue.push(entry);
+      else this.grant(entry);
+    });
+  }
+
+  private grant(entry: LockEntry): void {
+    this.holders.set(entry.name, entry);
+    this.granted.set(entry.name, [...(this.granted.get(entry.name) ?? []), entry.clientId]);
+    Promise.resolve(entry.callback()).then(value => {
+      if (this.holders.get(entry.name) !== entry) return;
+      entry.resolve(value);
+      this.holders.delete(entry.name);
+      const next = this.queue.find(waiting => waiting.name === entry.name);
+      if (next) {
+        this.queue.splice(this.queue.indexOf(next), 1);
+        this.grant(next);
+      }
+    });
+  }
+}
+
+// Delivers to every other channel of the same hub, asynchronously like BroadcastChannel
+class FakeHub {
+  channels: { onmessage: ((event: { data: unknown }) => void) | null }[] = [];
+
+  createChannel(): BroadcastChannel {
+    const channel = {
+      onmessage: null as ((event: { data: unknown }) => void) | null,
+      postMessage: (data: unknown) => this.channels
+        .filter(other => other !== channel)
+        .forEach(other => Promise.resolve().then(() => other.onmessage?.({ data }))),
+      close: () => this.channels = this.channels.filter(other => other !== channel)
+    };
+    this.channels.push(channel);
+    return channel as unknown as BroadcastChannel;
+  }
+}
+
+describe('TabElection', () => {
+  let locks: FakeLocks;
+  let hub: FakeHub;
+  let tabCount: number;
+
+  const settle = async () => {
+    for (let i = 0; i < 20; i++) await Promise.resolve();
+  };
+
+  const tab = (received: string[] = [], channelHub = hub, lifecycle: EventTarget | null = null) => {
+    const environment: ElectionEnvironment = {
+      locks: locks.client(`tab-${++tabCount}`),
+      createChannel: () => channelHub.createChannel(),
+      lifecycle
+    };
+    const election = new TabElection<string>(message => received.push(message), 'test', environment);
+    election.start();
+    return election;
+  };
+
+  beforeEach(() => {
+    locks = new FakeLocks();
+    hub = new FakeHub();
+    tabCount = 0;
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(Date.UTC(2025, 0, 1)));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('should elect exactly one leader', async () => {
+    const first = tab();
+    const second = tab();
+    await settle();
+    expect(first.isLeader()).toBeTrue();
+    expect(second.isLeader()).toBeFalse();
+  });
+
+  it('should hand leadership over when the leader closes', async () => {
+    const first = tab();
+    const second = tab();
+    await settle();
+
+    first.stop();
+    await settle();
+    expect(second.isLeader()).toBeTrue();
+  });
+
+  it('should deliver messages to the other tabs only', async () => {
+    const firstReceived: string[] = [];
+    const secondReceived: string[] = [];
+    const first = tab(firstReceived);
+    tab(secondReceived);
+    await settle();
+
+    first.post('hello');
+    await settle();
+    expect(secondReceived).toEqual(['hello']);
+    expect(firstReceived).toEqual([]);
+  });
+
+  it('should take over from a leader that stops sending heartbeats', async () => {
+    // The silent leader's heartbeats never reach the other tab
+    const silent = tab([], new FakeHub());
+    const second = tab();
+    await settle();
+    expect(silent.isLeader()).toBeTrue();
+
+    jasmine.clock().tick(LEADER_TIMEOUT_MS + HEARTBEAT_MS);
+    await settle();
+    expect(second.isLeader()).toBeTrue();
+    expect(silent.isLeader()).toBeFalse();
+  });
+
+  it('should let only one of several waiting tabs take over a silent leader', async () => {
+    const silent = tab([], new FakeHub());
+    const second = tab();
+    const third = tab();
+    await settle();
+
+    // Both followers give up on the leader in the same tick
+    jasmine.clock().tick(LEADER_TIMEOUT_MS + HEARTBEAT_MS);
+    await settle();
+    expect(locks.granted.get('test.leader')).toEqual(['tab-1', 'tab-2']);
+    expect(second.isLeader()).toBeTrue();
+    expect(third.isLeader()).toBeFalse();
+    expect(silent.isLeader()).toBeFalse();
+  });
+
+  it('should keep a leader that sends heartbeats', async () => {
+    const first = tab();
+    const second = tab();
+    await settle();
+
+    // Heartbeats arrive between ticks
+    for (let elapsed = 0; elapsed < LEADER_TIMEOUT_MS * 2; elapsed += HEARTBEAT_MS) {
+      jasmine.clock().tick(HEARTBEAT_MS);
+      await settle();
+    }
+    expect(first.isLeader()).toBeTrue();
+    expect(second.isLeader()).toBeFalse();
+  });
+
+  it('should hand over while frozen and queue up again on resume', async () => {
+    const lifecycle = new EventTarget();
+    const first = tab([], hub, lifecycle);
+    const second = tab();
+    await settle();
+
+    lifecycle.dispatchEvent(new Event('freeze'));
+    await settle();
+    expect(first.isLeader()).toBeFalse();
+    expect(second.isLeader()).toBeTrue();
+
+    lifecycle.dispatchEvent(new Event('resume'));
+    second.stop();
+    await settle();
+    expect(first.isLeader()).toBeTrue();
+  });
+
+  it('should let every tab lead without the Web Locks API', () => {
+    const environment: ElectionEnvironment = { locks: null, createChannel: () => hub.createChannel(), lifecycle: null };
+    const election = new TabElection<string>(() => {}, 'test', environment);
+    election.start();
+    expect(election.isLeader()).toBeTrue();
+  });
+});
@@ -0,0 +1,192 @@
+import { signal } from '@angular/core';
+
+const DEFAULT_NAME = 'am-i-online';
+
+// The leader announces itself this often
+export const HEARTBEAT_MS = 5000;
+// A leader that stays silent this long is replaced. Generous, as browsers
+// throttle timers in background tabs to about once a minute.
+export const LEADER_TIMEOUT_MS = 90 * 1000;
+
+// The browser APIs the election needs; replaced in tests
+export interface ElectionEnvironment {
+  locks: LockManager | null;
+  createChannel: () => BroadcastChannel | null;
+  // For the Page Lifecycle freeze and resume events
+  lifecycle: EventTarget | null;
+}
+
+type ChannelMessage<T> = { kind: 'heartbeat' } | { kind: 'message'; message: T };
+
+// Elects one tab of the origin to lead, through a Web Lock that the browser
+// hands to the next waiting tab when the leader closes. Only the tab holding the
+// lock leads. A leader that is frozen hands the lock over; one that stops sending
+// heartbeats has it stolen. Messages posted by any tab reach all the others over
+// a BroadcastChannel.
+export class TabElection<T> {
+
+  private leaderSignal = signal<boolean>(false);
+  private started = false;
+  private frozen = false;
+  private channel: BroadcastChannel | null = null;
+  // The current lock request; null while not campaigning
+  private campaign: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+  private lastHeartbeat = 0;
+  private heartbeatId: ReturnType<typeof setInterval> | null = null;
+  private watchdogId: ReturnType<typeof setInterval> | null = null;
+
+  readonly isLeader = this.leaderSignal.asReadonly();
+
+  // Tabs only coordinate with tabs that use the same `name`
+  constructor(
+    private readonly onMessage: (message: T) => void,
+    private readonly name = DEFAULT_NAME,
+    private readonly environment: ElectionEnvironment = browserEnvironment(name)
+  ) {}
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const { locks, lifecycle } = this.environment;
+    this.channel = this.environment.createChannel();
+    // Without both APIs tabs cannot coordinate, so every tab leads itself
+    if (!locks || !this.channel) {
+      this.setLeader(true);
+      return;
+    }
+
+    this.channel.onmessage = event => this.receive(event.data as ChannelMessage<T>);
+    lifecycle?.addEventListener('freeze', this.onFreeze);
+    lifecycle?.addEventListener('resume', this.onResume);
+    this.lastHeartbeat = Date.now();
+    this.watchdogId = setInterval(() => this.watch(), HEARTBEAT_MS);
+    this.run(false);
+  }
+
+  // Gives up leadership and leaves the channel; the election can be started again later
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    this.withdraw();
+    if (this.watchdogId !== null) clearInterval(this.watchdogId);
+    this.watchdogId = null;
+    this.environment.lifecycle?.removeEventListener('freeze', this.onFreeze);
+    this.environment.lifecycle?.removeEventListener('resume', this.onResume);
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  // Sends a message to every other tab
+  post(message: T): void {
+    this.send({ kind: 'message', message });
+  }
+
+  // Resolves once the lock is held or the request has ended
+  private run(steal: boolean): Promise<void> {
+    this.withdraw();
+    const controller = new AbortController();
+    this.campaign = controller;
+
+    // A stolen lock is granted right away, so only a queued request can be cancelled
+    const options: LockOptions = steal ? { steal: true } : { signal: controller.signal };
+    return new Promise(settled => {
+      this.environment.locks!.request(`${this.name}.leader`, options, () =>
+        new Promise<void>(release => {
+          this.releaseLock = release;
+          this.setLeader(true);
+          settled();
+        })
+      ).catch(() => {
+        // Cancelled, or another tab took over
+      }).finally(() => {
+        settled();
+        // A newer request or stop() has taken over
+        if (this.campaign !== controller) return;
+        this.campaign = null;
+        this.releaseLock = null;
+        this.setLeader(false);
+        // The new leader gets the full timeout to announce itself
+        this.lastHeartbeat = Date.now();
+        // Queue up to lead again later
+        if (this.started && !this.frozen) this.run(false);
+      });
+    });
+  }
+
+  // Cancels the pending request or releases the lock
+  private withdraw(): void {
+    this.campaign?.abort();
+    this.campaign = null;
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.setLeader(false);
+  }
+
+  private async watch(): Promise<void> {
+    if (this.leaderSignal() || this.frozen) return;
+    if (Date.now() - this.lastHeartbeat < LEADER_TIMEOUT_MS) return;
+    this.lastHeartbeat = Date.now();
+
+    const silentLeader = await this.leaderClient();
+    // Takeovers run one at a time, so of several tabs that noticed the same
+    // silent leader only the first steals the lock; the others find it moved on
+    await this.environment.locks!.request(`${this.name}.takeover`, async () => {
+      if (!this.started || this.frozen || this.leaderSignal()) return;
+      const leader = await this.leaderClient();
+      if (leader !== undefined && leader === silentLeader) await this.run(true);
+    }).catch(() => {
+      // The lock manager went away with the page
+    });
+  }
+
+  // The browser's id for the tab holding the leader lock
+  private async leaderClient(): Promise<string | undefined> {
+    const { held } = await this.environment.locks!.query();
+    return held?.find(lock => lock.name === `${this.name}.leader`)?.clientId;
+  }
+
+  private receive(data: ChannelMessage<T>): void {
+    if (data.kind === 'heartbeat') {
+      this.lastHeartbeat = Date.now();
+    } else {
+      this.onMessage(data.message);
+    }
+  }
+
+  private setLeader(leader: boolean): void {
+    if (this.heartbeatId !== null) clearInterval(this.heartbeatId);
+    this.heartbeatId = null;
+    if (leader && this.channel) {
+      this.send({ kind: 'heartbeat' });
+      this.heartbeatId = setInterval(() => this.send({ kind: 'heartbeat' }), HEARTBEAT_MS);
+    }
+    this.leaderSignal.set(leader);
+  }
+
+  private send(data: ChannelMessage<T>): void {
+    this.channel?.postMessage(data);
+  }
+
+  // A frozen tab cannot run checks, so it hands over until it resumes
+  private onFreeze = (): void => {
+    this.frozen = true;
+    this.withdraw();
+  };
+
+  private onResume = (): void => {
+    this.frozen = false;
+    this.lastHeartbeat = Date.now();
+    if (this.started && !this.campaign) this.run(false);
+  };
+}
+
+function browserEnvironment(name: string): ElectionEnvironment {
+  return {
+    locks: typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null,
+    createChannel: () => typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(`${name}.tabs`) : null,
+    lifecycle: typeof document !== 'undefined' ? document : null
+  };
+}
@@ -0,0 +1,129 @@
+import { ConnectionRecord } from './connectivity.service';
+import { HourlyAggregate } from './history-store.service';
+import {
+  HeatmapCell,
+  describePeriod,
+  heatmapCells,
+  hourOfWeek,
+  isBadHour,
+  recurringBadPeriods
+} from './uptime-heatmap';
+import { monitoredTime } from './stats.service';
+
+describe('uptime heatmap helpers', () => {
+  const minute = 60 * 1000;
+  const hour = 60 * minute;
+  // 6 January 2025 is a Monday
+  const monday = new Date(2025, 0, 6);
+
+  const record = (at: Date, responseTime: number | null): ConnectionRecord => ({
+    timestamp: at,
+    isOnline: responseTime !== null,
+    responseTime,
+    endpoint: responseTime !== null ? 'Google' : null
+  });
+
+  describe('heatmapCells', () => {
+    const records = [
+      record(new Date(monday.getTime() + 10 * minute), 40),
+      record(new Date(monday.getTime() + 11 * minute), 60),
+      record(new Date(monday.getTime() + 12 * minute), 80),
+      record(new Date(monday.getTime() + 13 * minute), null),
+      record(new Date(monday.getTime() + 2 * hour), 100)
+    ];
+
+    it('should summarise each hour and keep empty hours as gaps', () => {
+      const cells = heatmapCells(records, [], monday, new Date(monday.getTime() + 3 * hour), 'hour');
+      expect(cells.length).toBe(3);
+      // Three minutes online, then five offline until the gap to the next check is capped
+      expect(cells[0]).toEqual(jasmine.objectContaining({ totalChecks: 4, failedChecks: 1, availability: 37.5, medianLatency: 60 }));
+      expect(cells[1].availability).toBeNull();
+      expect(cells[2]).toEqual(jasmine.objectContaining({ monitoredMs: 0, availability: 100, medianLatency: 100 }));
+    });
+
+    it('should weight availability by time like the stats', () => {
+      const cells = heatmapCells(records, [], monday, new Date(monday.getTime() + 3 * hour), 'hour');
+      const { monitoredMs, onlineMs } = monitoredTime(records);
+      expect(cells.reduce((total, cell) => total + cell.monitoredMs, 0)).toBe(monitoredMs);
+      expect(cells.reduce((total, cell) => total + cell.onlineMs, 0)).toBe(onlineMs);
+    });
+
+    it('should fall back to the mean of aggregated hours', () => {
+      const aggregate: HourlyAggregate = {
+        hour: monday.getTime() - hour,
+        totalChecks: 10,
+        successfulChecks: 9,
+        responseTimeSum: 450,
+        responseTimeCount: 9,
+        minResponseTime: 30,
+        maxResponseTime: 70
+      };
+      const days = heatmapCells(records, [aggregate], new Date(monday.getTime() - hour), new Date(monday.getTime() + 3 * hour), 'day');
+      expect(days.length).toBe(2);
+      expect(days[0]).toEqual(jasmine.objectContaining({ totalChecks: 10, availability: 90, medianLatency: 50 }));
+      expect(days[1].totalChecks).toBe(5);
+    });
+  });
+
+  describe('recurring bad hours', () => {
+    // Four weeks of hourly cells; 19:00–21:00 is bad on three evenings each week
+    const cells: HeatmapCell[] = [];
+    for (let day = 0; day < 28; day++) {
+      for (let h = 0; h < 24; h++) {
+        const start = new Date(2025, 0, 6 + day, h);
+        const evening = h >= 19 && h < 21 && day % 7 < 3;
+        cells.push({
+          start,
+          end: new Date(start.getTime() + hour),
+          totalChecks: 100,
+          failedChecks: evening ? 5 : 0,
+          monitoredMs: hour,
+          onlineMs: evening ? 0.95 * hour : hour,
+          availability: evening ? 95 : 100,
+          medianLatency: 40
+        });
+      }
+    }
+    const slots = hourOfWeek(cells, cell => isBadHour(cell, 300));
+
+    it('should fold cells into the hours of the week', () => {
+      expect(slots.length).toBe(168);
+      const mondayEvening = slots[1 * 24 + 19];
+      expect(mondayEvening).toEqual(jasmine.objectContaining({ day: 1, hour: 19, occurrences: 4, badOccurrences: 4, availability: 95 }));
+      expect(slots[4 * 24 + 19].badOccurrences).toBe(0);
+    });
+
+    it('should merge recurring slots into periods across days', () => {
+      const periods = recurringBadPeriods(slots);
+      expect(periods.length).toBe(1);
+      expect(periods[0]).toEqual(jasmine.objectContaining({ days: [1, 2, 3], startHour: 19, endHour: 21, badOccurrences: 24 }));
+      expect(describePeriod(periods[0])).toBe('Mon, Tue, Wed 19:00–21:00');
+    });
+
+    it('should not report a slot that was bad only once', () => {
+      const once = cells.map(cell => cell.start.getDate() === 6 ? cell : { ...cell, failedChecks: 0, onlineMs: hour, availability: 100 });
+      expect(recurringBadPeriods(hourOfWeek(once, cell => isBadHour(cell, 300)))).toEqual([]);
+    });
+  });
+
+  it('should treat slow hours as bad', () => {
+    const cell: HeatmapCell = {
+      start: monday,
+      end: monday,
+      totalChecks: 10,
+      failedChecks: 0,
+      monitoredMs: hour,
+      onlineMs: hour,
+      availability: 100,
+      medianLatency: 500
+    };
+    expect(isBadHour(cell, 300)).toBe(true);
+    expect(isBadHour({ ...cell, medianLatency: 100 }, 300)).toBe(false);
+  });
+
+  it('should name common day sets', () => {
+    const period = { days: [0, 1, 2, 3, 4, 5, 6], startHour: 22, endHour: 24, occurrences: 1, badOccurrences: 1, availability: null, medianLatency: null };
+    expect(describePeriod(period)).toBe('Daily 22:00–00:00');
+    expect(describePeriod({ ...period, days: [5, 1, 2, 3, 4] })).toBe('Weekdays 22:00–00:00');
+  });
+});
@@ -0,0 +1,252 @@
+import { ConnectionRecord } from './connectivity.service';
+import { HourlyAggregate } from './history-store.service';
+import { WEEKDAY_NAMES } from './maintenance.service';
+import { median, monitoredTime } from './stats.service';
+
+const HOUR = 60 * 60 * 1000;
+
+// An hour is bad below this share of its monitored time online, in percent,
+// or when its median latency is slow
+export const BAD_HOUR_AVAILABILITY = 99;
+// A slot of the week recurs once it was bad in at least this many weeks…
+const MIN_BAD_OCCURRENCES = 2;
+// …and in at least this share of the weeks it was monitored
+const MIN_BAD_SHARE = 0.5;
+
+export type HeatmapZoom = 'hour' | 'day';
+
+export interface HeatmapCell {
+  start: Date;
+  end: Date;
+  totalChecks: number;
+  failedChecks: number;
+  // Time watched, and online, as counted by the stats
+  monitoredMs: number;
+  onlineMs: number;
+  // Share of the monitored time spent online, in percent; null without checks
+  availability: number | null;
+  // Over raw checks; hours only kept as aggregates contribute their mean instead
+  medianLatency: number | null;
+}
+
+// One hour of the week, e.g. Mondays 19:00–20:00, over every week monitored
+export interface HourOfWeekSlot {
+  // 0 is Sunday
+  day: number;
+  hour: number;
+  // Weeks with checks in this slot
+  occurrences: number;
+  badOccurrences: number;
+  totalChecks: number;
+  failedChecks: number;
+  monitoredMs: number;
+  onlineMs: number;
+  availability: number | null;
+  medianLatency: number | null;
+}
+
+// Adjacent bad slots, merged across the days they recur on
+export interface RecurringPeriod {
+  days: number[];
+  startHour: number;
+  // Exclusive, so 24 ends at midnight
+  endHour: number;
+  occurrences: number;
+  badOccurrences: number;
+  availability: number | null;
+  medianLatency: number | null;
+}
+
+interface Bucket {
+  hour: number;
+  records: ConnectionRecord[];
+  aggregates: HourlyAggregate[];
+}
+
+// Contiguous cells from the local hour or day containing `from` up to `to`,
+// over records oldest first; cells without checks are kept as gaps
+export function heatmapCells(
+  records: ConnectionRecord[],
+  aggregates: HourlyAggregate[],
+  from: Date,
+  to: Date,
+  zoom: HeatmapZoom
+): HeatmapCell[] {
+  const buckets = toBuckets(records, aggregates);
+  const cells: HeatmapCell[] = [];
+  let next = 0;
+  // Records before the current cell, so the check following it can be found
+  let passed = 0;
+
+  for (let start = cellStart(from, zoom); start < to; start = cellAfter(start, zoom)) {
+    const end = cellAfter(start, zoom);
+    while (next < buckets.length && buckets[next].hour < start.getTime()) passed += buckets[next++].records.length;
+    const inCell: Bucket[] = [];
+    while (next < buckets.length && buckets[next].hour < end.getTime()) inCell.push(buckets[next++]);
+    const cellRecords = inCell.flatMap(bucket => bucket.records);
+    passed += cellRecords.length;
+    cells.push({ start, end, ...summarize(cellRecords, inCell.flatMap(bucket => bucket.aggregates), records[passed]) });
+  }
+  return cells;
+}
+
+export function isBadHour(cell: HeatmapCell, slowLatencyMs: number): boolean {
+  if (cell.availability === null) return false;
+  return cell.availability < BAD_HOUR_AVAILABILITY || (cell.medianLatency ?? 0) >= slowLatencyMs;
+}
+
+// Folds hour cells into the 168 hours of the week, Sunday 00:00 first
+export function hourOfWeek(hourCells: HeatmapCell[], isBad: (cell: HeatmapCell) => boolean): HourOfWeekSlot[] {
+  const grouped = Array.from({ length: 7 * 24 }, () => [] as HeatmapCell[]);
+  for (const cell of hourCells) {
+    if (cell.totalChecks > 0) grouped[cell.start.getDay() * 24 + cell.start.getHours()].push(cell);
+  }
+
+  return grouped.map((cells, index): HourOfWeekSlot => {
+    const totalChecks = sum(cells, cell => cell.totalChecks);
+    const failedChecks = sum(cells, cell => cell.failedChecks);
+    const monitoredMs = sum(cells, cell => cell.monitoredMs);
+    const onlineMs = sum(cells, cell => cell.onlineMs);
+    return {
+      day: Math.floor(index / 24),
+      hour: index % 24,
+      occurrences: cells.length,
+      badOccurrences: cells.filter(isBad).length,
+      totalChecks,
+      failedChecks,
+      monitoredMs,
+      onlineMs,
+      availability: availabilityOf(monitoredMs, onlineMs, totalChecks, failedChecks),
+      medianLatency: median(cells.flatMap(cell => cell.medianLatency !== null ? [cell.medianLatency] : []))
+    };
+  });
+}
+
+export function isRecurring(slot: HourOfWeekSlot): boolean {
+  return slot.badOccurrences >= MIN_BAD_OCCURRENCES && slot.badOccurrences / slot.occurrences >= MIN_BAD_SHARE;
+}
+
+// Recurring bad hours as periods such as "Daily 19:00–22:00", the most
+// frequently bad first
+export function recurringBadPeriods(slots: HourOfWeekSlot[]): RecurringPeriod[] {
+  const runs = new Map<string, HourOfWeekSlot[][]>();
+  for (let day = 0; day < 7; day++) {
+    let run: HourOfWeekSlot[] = [];
+    for (let hour = 0; hour <= 24; hour++) {
+      const slot = hour < 24 ? slots[day * 24 + hour] : undefined;
+      if (slot && isRecurring(slot)) {
+        run.push(slot);
+        continue;
+      }
+      if (run.length > 0) {
+        const key = `${run[0].hour}-${run[run.length - 1].hour + 1}`;
+        runs.set(key, [...(runs.get(key) ?? []), run]);
+      }
+      run = [];
+    }
+  }
+
+  return [...runs.values()]
+    .map((dayRuns): RecurringPeriod => {
+      const slotsInPeriod = dayRuns.flat();
+      const totalChecks = sum(slotsInPeriod, slot => slot.totalChecks);
+      const failedChecks = sum(slotsInPeriod, slot => slot.failedChecks);
+      const monitoredMs = sum(slotsInPeriod, slot => slot.monitoredMs);
+      const onlineMs = sum(slotsInPeriod, slot => slot.onlineMs);
+      return {
+        days: dayRuns.map(dayRun => dayRun[0].day),
+        startHour: dayRuns[0][0].hour,
+        endHour: dayRuns[0][dayRuns[0].length - 1].hour + 1,
+        occurrences: sum(slotsInPeriod, slot => slot.occurrences),
+        badOccurrences: sum(slotsInPeriod, slot => slot.badOccurrences),
+        availability: availabilityOf(monitoredMs, onlineMs, totalChecks, failedChecks),
+        medianLatency: median(slotsInPeriod.flatMap(slot => slot.medianLatency !== null ? [slot.medianLatency] : []))
+      };
+    })
+    .sort((a, b) => b.badOccurrences / b.occurrences - a.badOccurrences / a.occurrences || b.badOccurrences - a.badOccurrences);
+}
+
+// "Daily 19:00–22:00", "Weekdays 08:00–09:00" or "Mon, Fri 23:00–00:00"
+export function describePeriod(period: RecurringPeriod): string {
+  const days = [...period.days].sort((a, b) => a - b);
+  const dayLabel = days.length === 7
+    ? 'Daily'
+    : days.join() === '1,2,3,4,5'
+      ? 'Weekdays'
+      : days.join() === '0,6' ? 'Weekends' : days.map(day => WEEKDAY_NAMES[day]).join(', ');
+  return `${dayLabel} ${clockHour(period.startHour)}–${clockHour(period.endHour % 24)}`;
+}
+
+// Raw checks and aggregates per hour, oldest first
+function toBuckets(records: ConnectionRecord[], aggregates: HourlyAggregate[]): Bucket[] {
+  const buckets = new Map<number, Bucket>();
+  const bucketAt = (hour: number): Bucket => {
+    let bucket = buckets.get(hour);
+    if (!bucket) {
+      bucket = { hour, records: [], aggregates: [] };
+      buckets.set(hour, bucket);
+    }
+    return bucket;
+  };
+
+  for (const aggregate of aggregates) bucketAt(aggregate.hour).aggregates.push(aggregate);
+  // Local hours, which differ from the aggregates' hours in half-hour time zones
+  for (const record of records) bucketAt(cellStart(record.timestamp, 'hour').getTime()).records.push(record);
+  return [...buckets.values()].sort((a, b) => a.hour - b.hour);
+}
+
+// The time after a cell's last check runs until the check following it, so
+// the cells add up to the monitored time of the stats
+function summarize(
+  records: ConnectionRecord[],
+  aggregates: HourlyAggregate[],
+  following: ConnectionRecord | undefined
+): Omit<HeatmapCell, 'start' | 'end'> {
+  const totalChecks = records.length + sum(aggregates, aggregate => aggregate.totalChecks);
+  const successfulChecks = records.filter(record => record.isOnline).length + sum(aggregates, aggregate => aggregate.successfulChecks);
+  const { monitoredMs, onlineMs } = monitoredTime(following ? [...records, following] : records, aggregates);
+  const latencies = records.flatMap(record => record.isOnline && record.responseTime !== null ? [record.responseTime] : []);
+  // Aggregates no longer hold single response times
+  const latencyCount = sum(aggregates, aggregate => aggregate.responseTimeCount);
+  const aggregatedMean = latencyCount > 0 ? Math.round(sum(aggregates, aggregate => aggregate.responseTimeSum) / latencyCount) : null;
+
+  return {
+    totalChecks,
+    failedChecks: totalChecks - successfulChecks,
+    monitoredMs,
+    onlineMs,
+    availability: availabilityOf(monitoredMs, onlineMs, totalChecks, totalChecks - successfulChecks),
+    medianLatency: latencies.length > 0 ? median(latencies) : aggregatedMean
+  };
+}
+
+// A lone check has no duration of its own, so it counts by itself
+function availabilityOf(monitoredMs: number, onlineMs: number, totalChecks: number, failedChecks: number): number | null {
+  if (monitoredMs > 0) return round(onlineMs / monitoredMs * 100);
+  return totalChecks > 0 ? round((totalChecks - failedChecks) / totalChecks * 100) : null;
+}
+
+function cellStart(date: Date, zoom: HeatmapZoom): Date {
+  return zoom === 'hour'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours())
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Local calendar steps, so cells stay aligned across daylight saving changes
+function cellAfter(start: Date, zoom: HeatmapZoom): Date {
+  return zoom === 'hour'
+    ? new Date(start.getTime() + HOUR)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+}
+
+function clockHour(hour: number): string {
+  return `${hour.toString().padStart(2, '0')}:00`;
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
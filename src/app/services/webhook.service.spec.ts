@@ -0,0 +1,64 @@
+import { ConnectionRecord } from './connectivity.service';
+import { buildPayload, detectTransition, renderTemplate, retryDelay } from './webhook.service';
+
+describe('WebhookService helpers', () => {
+  const start = new Date(Date.UTC(2025, 0, 1, 10));
+
+  const record: ConnectionRecord = {
+    timestamp: new Date(start.getTime() + 90 * 1000),
+    isOnline: true,
+    state: 'online',
+    responseTime: 40,
+    endpoint: 'Google',
+    probes: [
+      { endpoint: 'Google', success: true, verified: false, intercepted: false, responseTime: 40 },
+      { endpoint: 'Cloudflare', success: false, verified: false, intercepted: false, responseTime: null, error: 'Network request failed' }
+    ]
+  };
+
+  it('should report outages, recoveries and degradations once', () => {
+    expect(detectTransition(null, 'online')).toBeNull();
+    expect(detectTransition(null, 'offline')).toBe('offline');
+    expect(detectTransition('online', 'offline')).toBe('offline');
+    expect(detectTransition('degraded', 'intercepted')).toBe('offline');
+    expect(detectTransition('offline', 'intercepted')).toBeNull();
+    expect(detectTransition('intercepted', 'online')).toBe('recovered');
+    expect(detectTransition('offline', 'degraded')).toBe('recovered');
+    expect(detectTransition('online', 'degraded')).toBe('degraded');
+    expect(detectTransition('degraded', 'degraded')).toBeNull();
+    expect(detectTransition('degraded', 'online')).toBe('recovered');
+  });
+
+  it('should describe the incident and every endpoint result', () => {
+    const payload = buildPayload('recovered', record, start, 'All connectivity endpoints failed');
+    expect(payload.incident).toEqual({
+      start: start.toISOString(),
+      duration: 90 * 1000,
+      lastError: 'All connectivity endpoints failed'
+    });
+    expect(payload.endpoints).toEqual([
+      { endpoint: 'Google', success: true, responseTime: 40, error: null },
+      { endpoint: 'Cloudflare', success: false, responseTime: null, error: 'Network request failed' }
+    ]);
+  });
+
+  it('should send the full payload without a template', () => {
+    const payload = buildPayload('offline', record, start, null);
+    expect(JSON.parse(renderTemplate('  ', payload))).toEqual(JSON.parse(JSON.stringify(payload)));
+  });
+
+  it('should fill template placeholders with JSON-safe values', () => {
+    const payload = buildPayload('offline', record, start, 'Unexpected "status"');
+    const body = renderTemplate('{"text": "{{ summary }} since {{start}}", "raw": {{payload}}, "other": "{{unknown}}"}', payload);
+    const parsed = JSON.parse(body);
+    expect(parsed.text).toBe(`Connection lost: Unexpected "status" since ${start.toISOString()}`);
+    expect(parsed.raw.event).toBe('offline');
+    expect(parsed.other).toBe('{{unknown}}');
+  });
+
+  it('should back off exponentially up to a cap', () => {
+    expect(retryDelay(1)).toBe(5000);
+    expect(retryDelay(3)).toBe(20000);
+    expect(retryDelay(20)).toBe(5 * 60 * 1000);
+  });
+});
@@ -0,0 +1,381 @@
+import { Injectable, OnDestroy, inject, signal, effect, untracked } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ConnectivityService, ConnectionRecord, ConnectionState } from './connectivity.service';
+import { readJson, writeJson, removeKey } from '../utils/local-storage';
+
+const SETTINGS_KEY = 'am-i-online.webhook';
+const DELIVERIES_KEY = 'am-i-online.webhook-deliveries';
+
+// Finished deliveries kept for the log; pending ones are never dropped
+const DELIVERY_LOG_SIZE = 50;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// offline: the connection went down; recovered: it came back after an outage
+// or degradation; degraded: it stayed up but fell below the quorum or latency limits
+export type WebhookEvent = 'offline' | 'recovered' | 'degraded' | 'test';
+
+export interface WebhookSettings {
+  enabled: boolean;
+  url: string;
+  events: Exclude<WebhookEvent, 'test'>[];
+  // Request body with {{placeholders}}; empty sends the full JSON payload
+  template: string;
+  // Attempts per delivery, including the first one
+  maxAttempts: number;
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  timestamp: string;
+  state: ConnectionState;
+  incident: {
+    start: string;
+    // ms from the start of the incident to this event
+    duration: number;
+    lastError: string | null;
+  };
+  endpoints: { endpoint: string; success: boolean; responseTime: number | null; error: string | null }[];
+  reasons: string[];
+}
+
+// Pending deliveries double as the offline queue
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  createdAt: Date;
+  url: string;
+  body: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  // Last HTTP status or network error
+  lastResult: string | null;
+}
+
+type StoredDelivery = Omit<WebhookDelivery, 'createdAt' | 'nextAttemptAt'> & { createdAt: number; nextAttemptAt: number | null };
+
+export const DEFAULT_WEBHOOK_SETTINGS: WebhookSettings = {
+  enabled: false,
+  url: '',
+  events: ['offline', 'recovered', 'degraded'],
+  template: '',
+  maxAttempts: 6
+};
+
+// Placeholders a template can use, besides {{payload}} for the whole JSON payload
+export const TEMPLATE_FIELDS = ['event', 'timestamp', 'state', 'start', 'duration', 'durationText', 'lastError', 'summary'] as const;
+
+// Sends connection state changes to a webhook. Deliveries made while offline, or
+// that fail, are queued and retried with backoff, so outage reports aren't lost.
+@Injectable({
+  providedIn: 'root'
+})
+export class WebhookService implements OnDestroy {
+  private connectivityService = inject(ConnectivityService);
+
+  private settingsSignal = signal<WebhookSettings>(
+    { ...DEFAULT_WEBHOOK_SETTINGS, ...readJson<Partial<WebhookSettings>>(SETTINGS_KEY, {}) }
+  );
+  private deliveriesSignal = signal<WebhookDelivery[]>(loadDeliveries());
+  private previousState: ConnectionState | null = null;
+  // The outage or degradation in progress, reported when it ends
+  private incidentStart: Date | null = null;
+  private lastError: string | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
+  private subscription: Subscription;
+
+  readonly settings = this.settingsSignal.asReadonly();
+  // Newest first
+  readonly deliveries = this.deliveriesSignal.asReadonly();
+
+  constructor() {
+    this.subscription = this.connectivityService.records$.subscribe(record => this.handleRecord(record));
+
+    // Flush the queue as soon as the connection is back, or when this tab takes
+    // over sending from a tab that closed
+    effect(() => {
+      if (this.connectivityService.isOnline() && this.connectivityService.isLeader()) {
+        untracked(() => {
+          this.deliveriesSignal.set(loadDeliveries());
+          this.flush();
+        });
+      }
+    });
+
+    // Deliveries queued, sent or cleared in other tabs
+    window.addEventListener('storage', this.onStorage);
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+    window.removeEventListener('storage', this.onStorage);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+  }
+
+  update(changes: Partial<WebhookSettings>): void {
+    this.settingsSignal.update(current => ({ ...current, ...changes }));
+    writeJson(SETTINGS_KEY, this.settingsSignal());
+  }
+
+  reset(): void {
+    removeKey(SETTINGS_KEY);
+    this.settingsSignal.set({ ...DEFAULT_WEBHOOK_SETTINGS });
+  }
+
+  sendTest(): void {
+    const now = new Date();
+    this.enqueue('test', {
+      event: 'test',
+      timestamp: now.toISOString(),
+      state: this.connectivityService.state(),
+      incident: { start: now.toISOString(), duration: 0, lastError: null },
+      endpoints: [],
+      reasons: []
+    });
+  }
+
+  // Sends every pending delivery now, skipping the backoff
+  retryNow(): void {
+    this.commit(this.deliveriesSignal().map(delivery =>
+      delivery.status === 'pending' ? { ...delivery, nextAttemptAt: new Date() } : delivery
+    ));
+    this.flush();
+  }
+
+  // Drops finished deliveries from the log
+  clearLog(): void {
+    this.commit(this.deliveriesSignal().filter(delivery => delivery.status === 'pending'));
+  }
+
+  handleRecord(record: ConnectionRecord): void {
+    // Planned downtime is not news; changes are judged against the last check outside it
+    if (record.maintenance) return;
+    const state = record.state ?? (record.isOnline ? 'online' : 'offline');
+    const event = detectTransition(this.previousState, state);
+    this.previousState = state;
+
+    if (event === 'offline' || event === 'degraded') {
+      this.incidentStart = record.timestamp;
+      this.lastError = null;
+    }
+    if (record.error) this.lastError = record.error;
+
+    // With several tabs open, only the one running the checks sends
+    const settings = this.settingsSignal();
+    if (event && settings.enabled && settings.events.includes(event) && this.connectivityService.isLeader()) {
+      // The check's reachability is published just before its record
+      const reasons = this.connectivityService.reachability()?.reasons ?? [];
+      this.enqueue(event, buildPayload(event, record, this.incidentStart ?? record.timestamp, this.lastError, reasons));
+    }
+
+    if (event === 'recovered') {
+      // Coming back degraded starts a degradation, reported when it ends
+      this.incidentStart = state === 'degraded' ? record.timestamp : null;
+      this.lastError = null;
+    }
+  }
+
+  private enqueue(event: WebhookEvent, payload: WebhookPayload): void {
+    const settings = this.settingsSignal();
+    if (!settings.url) return;
+
+    const delivery: WebhookDelivery = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      event,
+      createdAt: new Date(),
+      url: settings.url,
+      body: renderTemplate(settings.template, payload),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastResult: null
+    };
+    this.commit([delivery, ...this.deliveriesSignal()]);
+    this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    // Attempts made while offline would only burn retries
+    if (this.isFlushing || !this.connectivityService.isOnline() || !this.connectivityService.isLeader()) return;
+    this.isFlushing = true;
+
+    try {
+      const now = Date.now();
+      const due = this.deliveriesSignal()
+        .filter(delivery => delivery.status === 'pending' && (delivery.nextAttemptAt?.getTime() ?? 0) <= now)
+        // Oldest first, so the receiver sees events in order
+        .reverse();
+      for (const delivery of due) {
+        this.save(await this.attempt(delivery));
+      }
+    } finally {
+      this.isFlushing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    let lastResult: string;
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: delivery.body,
+        signal: controller.signal
+      });
+      if (response.ok) {
+        return { ...delivery, status: 'delivered', attempts, nextAttemptAt: null, lastResult: `HTTP ${response.status}` };
+      }
+      lastResult = `HTTP ${response.status}`;
+    } catch (error) {
+      lastResult = controller.signal.aborted
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : String(error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (attempts >= this.settingsSignal().maxAttempts) {
+      return { ...delivery, status: 'failed', attempts, nextAttemptAt: null, lastResult };
+    }
+    return { ...delivery, attempts, nextAttemptAt: new Date(Date.now() + retryDelay(attempts)), lastResult };
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    const next = Math.min(...this.deliveriesSignal()
+      .filter(delivery => delivery.status === 'pending' && delivery.nextAttemptAt)
+      .map(delivery => delivery.nextAttemptAt!.getTime()));
+    if (!Number.isFinite(next)) return;
+    this.retryTimer = setTimeout(() => this.flush(), Math.max(0, next - Date.now()));
+  }
+
+  private onStorage = (event: StorageEvent): void => {
+    if (event.key !== DELIVERIES_KEY) return;
+    this.deliveriesSignal.set(loadDeliveries());
+    this.flush();
+  };
+
+  private save(delivery: WebhookDelivery): void {
+    this.commit(this.deliveriesSignal().map(existing => existing.id === delivery.id ? delivery : existing));
+  }
+
+  private commit(deliveries: WebhookDelivery[]): void {
+    const pending = deliveries.filter(delivery => delivery.status === 'pending').length;
+    let finished = 0;
+    const kept = deliveries.filter(delivery => delivery.status === 'pending' || ++finished <= DELIVERY_LOG_SIZE - pending);
+    this.deliveriesSignal.set(kept);
+    writeJson<StoredDelivery[]>(DELIVERIES_KEY, kept.map(delivery => ({
+      ...delivery,
+      createdAt: delivery.createdAt.getTime(),
+      nextAttemptAt: delivery.nextAttemptAt?.getTime() ?? null
+    })));
+  }
+}
+
+function loadDeliveries(): WebhookDelivery[] {
+  const stored = readJson<StoredDelivery[]>(DELIVERIES_KEY, []);
+  return Array.isArray(stored)
+    ? stored.map(delivery => ({
+        ...delivery,
+        createdAt: new Date(delivery.createdAt),
+        nextAttemptAt: delivery.nextAttemptAt === null ? null : new Date(delivery.nextAttemptAt)
+      }))
+    : [];
+}
+
+// The event a change from `previous` to `current` reports, if any. The first
+// check of a session counts as a change from online.
+export function detectTransition(previous: ConnectionState | null, current: ConnectionState): Exclude<WebhookEvent, 'test'> | null {
+  const wasDown = previous === 'offline' || previous === 'intercepted';
+  const isDown = current === 'offline' || current === 'intercepted';
+  if (isDown) return wasDown ? null : 'offline';
+  if (wasDown) return 'recovered';
+  if (current === 'degraded') return previous !== 'degraded' ? 'degraded' : null;
+  return previous === 'degraded' ? 'recovered' : null;
+}
+
+export function buildPayload(
+  event: WebhookEvent,
+  record: ConnectionRecord,
+  incidentStart: Date,
+  lastError: string | null,
+  reasons: string[] = []
+): WebhookPayload {
+  return {
+    event,
+    timestamp: record.timestamp.toISOString(),
+    state: record.state ?? (record.isOnline ? 'online' : 'offline'),
+    incident: {
+      start: incidentStart.toISOString(),
+      duration: record.timestamp.getTime() - incidentStart.getTime(),
+      lastError: lastError ?? record.error ?? null
+    },
+    endpoints: (record.probes ?? []).map(probe => ({
+      endpoint: probe.endpoint,
+      success: probe.success,
+      responseTime: probe.responseTime,
+      error: probe.error ?? null
+    })),
+    reasons
+  };
+}
+
+// Replaces {{field}} placeholders with values escaped for use inside JSON
+// strings, and {{payload}} with the whole payload
+export function renderTemplate(template: string, payload: WebhookPayload): string {
+  if (!template.trim()) return JSON.stringify(payload);
+
+  const values: Record<typeof TEMPLATE_FIELDS[number], string> = {
+    event: payload.event,
+    timestamp: payload.timestamp,
+    state: payload.state,
+    start: payload.incident.start,
+    duration: String(payload.incident.duration),
+    durationText: formatDuration(payload.incident.duration),
+    lastError: payload.incident.lastError ?? '',
+    summary: summarize(payload)
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    if (name === 'payload') return JSON.stringify(payload);
+    return name in values ? JSON.stringify(values[name as keyof typeof values]).slice(1, -1) : match;
+  });
+}
+
+function summarize(payload: WebhookPayload): string {
+  const reachable = payload.endpoints.filter(endpoint => endpoint.success).map(endpoint => endpoint.endpoint);
+  const unreachable = payload.endpoints.filter(endpoint => !endpoint.success).map(endpoint => endpoint.endpoint);
+  const detail = [
+    reachable.length > 0 ? `${reachable.join(', ')} reachable` : '',
+    unreachable.length > 0 ? `${unreachable.join(', ')} unreachable` : ''
+  ].filter(Boolean).join('; ');
+
+  switch (payload.event) {
+    case 'offline': return `Connection lost${payload.incident.lastError ? `: ${payload.incident.lastError}` : ''}`;
+    case 'recovered': return `Connection restored after ${formatDuration(payload.incident.duration)}`;
+    case 'degraded': return `Connection degraded: ${payload.reasons.join('; ') || detail}`;
+    case 'test': return 'Test delivery from Am I Online?';
+  }
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+}
@@ -0,0 +1,80 @@
+// Thin promise wrappers around IndexedDB. The schema lives here so every store
+// that needs persistence shares one database and one upgrade path.
+
+export const DB_NAME = 'am-i-online';
+export const DB_VERSION = 3;
+
+export const STORES = {
+  records: 'records',
+  hourly: 'hourly',
+  incidents: 'incidents',
+  quality: 'quality'
+} as const;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result, request.transaction!);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app (e.g. in another tab) upgrade the schema
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Allow a later call to retry instead of caching the failure forever
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+export function requestAsPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function upgrade(db: IDBDatabase, _transaction: IDBTransaction): void {
+  // Raw checks keyed by their timestamp (ms since epoch)
+  if (!db.objectStoreNames.contains(STORES.records)) {
+    db.createObjectStore(STORES.records, { keyPath: 'timestamp' });
+  }
+
+  // Downsampled hourly buckets keyed by the start of the hour
+  if (!db.objectStoreNames.contains(STORES.hourly)) {
+    db.createObjectStore(STORES.hourly, { keyPath: 'hour' });
+  }
+
+  // Outages keyed by their start time
+  if (!db.objectStoreNames.contains(STORES.incidents)) {
+    db.createObjectStore(STORES.incidents, { keyPath: 'start' });
+  }
+
+  // Quality test results keyed by their timestamp
+  if (!db.objectStoreNames.contains(STORES.quality)) {
+    db.createObjectStore(STORES.quality, { keyPath: 'timestamp' });
+  }
+}
@@ -0,0 +1,4 @@
+import { defineConnectivityElement } from './app/embed/connectivity-element';
+
+// Standalone bundle for pages that aren't Angular apps: registers <am-i-online>
+defineConnectivityElement();